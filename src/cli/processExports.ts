@@ -0,0 +1,215 @@
+/**
+ * Headless batch processing for scheduled runs:
+ *
+ *   npm run process-exports -- <exports folder> [--rules rules.json] [--out folder] [--format json|csv|both] [--verbose]
+ *
+ * Reads every CSV in the folder, processes it with the same rules engine as
+ * the app and writes the teacher data and the new, converted, retained and
+ * excluded client lists, plus a run summary. Every row is checked first and
+ * the data quality report is written even when critical problems stop the run.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  BatchRulesConfig,
+  CsvSource,
+  getBatchOutputs,
+  prepareBatchImport,
+  processBatchImport,
+  resolveRulesConfig,
+  toCSV
+} from '../utils/batchProcessing';
+import { checkDataQuality, QUALITY_FILE_LABELS, SEVERITY_LABELS } from '../utils/dataQuality';
+
+const EXIT_CODES = {
+  success: 0,
+  unexpectedError: 1,
+  usage: 2,
+  invalidRules: 3,
+  invalidData: 4,
+} as const;
+
+type OutputFormat = 'json' | 'csv' | 'both';
+
+interface CliOptions {
+  inputDir: string;
+  rulesPath?: string;
+  outDir: string;
+  format: OutputFormat;
+  verbose: boolean;
+}
+
+const USAGE = `Usage: process-exports <exports folder> [options]
+
+Options:
+  --rules <file>     JSON rules config (businessRules, periodSettings, identityMerges, importSchemas)
+  --out <folder>     Where to write results (default: <exports folder>/processed)
+  --format <format>  json, csv or both (default: both)
+  --verbose          Show processing logs
+
+Exit codes:
+  0  success
+  1  unexpected error
+  2  invalid arguments or unreadable input
+  3  invalid rules config
+  4  data validation failed`;
+
+class UsageError extends Error {}
+
+const parseArgs = (args: string[]): CliOptions => {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--verbose' || arg === '--help') {
+      flags[arg.slice(2)] = true;
+    } else if (arg.startsWith('--')) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith('--')) throw new UsageError(`${arg} needs a value`);
+      flags[arg.slice(2)] = value;
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (flags.help) throw new UsageError('');
+  if (positional.length !== 1) throw new UsageError('Give exactly one exports folder');
+
+  const unknown = Object.keys(flags).filter(flag => !['rules', 'out', 'format', 'verbose'].includes(flag));
+  if (unknown.length > 0) throw new UsageError(`Unknown option: --${unknown[0]}`);
+
+  const format = (flags.format || 'both') as OutputFormat;
+  if (!['json', 'csv', 'both'].includes(format)) throw new UsageError(`Unknown format: ${format}`);
+
+  const inputDir = path.resolve(positional[0]);
+  return {
+    inputDir,
+    rulesPath: typeof flags.rules === 'string' ? path.resolve(flags.rules) : undefined,
+    outDir: typeof flags.out === 'string' ? path.resolve(flags.out) : path.join(inputDir, 'processed'),
+    format,
+    verbose: Boolean(flags.verbose),
+  };
+};
+
+const readSources = async (inputDir: string): Promise<CsvSource[]> => {
+  const entries = await fs.readdir(inputDir, { withFileTypes: true }).catch((e: Error) => {
+    throw new UsageError(`Could not read ${inputDir}: ${e.message}`);
+  });
+  const csvFiles = entries
+    .filter(entry => entry.isFile() && entry.name.toLowerCase().endsWith('.csv'))
+    .map(entry => entry.name)
+    .sort();
+
+  if (csvFiles.length === 0) throw new UsageError(`No CSV files found in ${inputDir}`);
+
+  return Promise.all(csvFiles.map(async name => ({
+    name,
+    content: await fs.readFile(path.join(inputDir, name), 'utf8'),
+  })));
+};
+
+const readRulesConfig = async (rulesPath?: string): Promise<BatchRulesConfig> => {
+  if (!rulesPath) return {};
+  try {
+    return JSON.parse(await fs.readFile(rulesPath, 'utf8'));
+  } catch (e) {
+    throw new UsageError(`Could not read rules config ${rulesPath}: ${(e as Error).message}`);
+  }
+};
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const run = async (args: string[]): Promise<number> => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (e) {
+    if (e instanceof UsageError) {
+      if (e.message) log(e.message);
+      log(USAGE);
+      return EXIT_CODES.usage;
+    }
+    throw e;
+  }
+
+  // processData and the shared utilities log every decision to the console;
+  // keep that out of scheduled job output unless asked for
+  const consoleLog = console.log;
+  const consoleError = console.error;
+  if (!options.verbose) {
+    console.log = () => {};
+    console.error = () => {};
+  }
+
+  try {
+    const sources = await readSources(options.inputDir);
+    const rulesConfig = await readRulesConfig(options.rulesPath);
+    const { options: processingOptions, errors: ruleErrors } = resolveRulesConfig(rulesConfig);
+    if (ruleErrors.length > 0) {
+      ruleErrors.forEach(error => log(`Rules config: ${error}`));
+      return EXIT_CODES.invalidRules;
+    }
+
+    const batchImport = await prepareBatchImport(sources, rulesConfig.importSchemas);
+    batchImport.files.forEach(file => {
+      log(`${file.fileName}: ${file.detection.fileType} (${file.detection.confidence}% by ${file.detection.method}), ${file.rowCount} rows`);
+    });
+    batchImport.warnings.forEach(warning => log(`Warning: ${warning}`));
+    if (batchImport.errors.length > 0) {
+      batchImport.errors.forEach(error => log(`Error: ${error}`));
+      return EXIT_CODES.invalidData;
+    }
+
+    const qualityReport = checkDataQuality(batchImport);
+    await fs.mkdir(options.outDir, { recursive: true });
+    await fs.writeFile(path.join(options.outDir, 'data-quality.json'), JSON.stringify(qualityReport, null, 2));
+    qualityReport.issues.forEach(issue => {
+      log(`${SEVERITY_LABELS[issue.severity]}: ${issue.label} in ${QUALITY_FILE_LABELS[issue.fileType].toLowerCase()}, ${issue.count} rows`);
+    });
+    if (qualityReport.blocked) {
+      log(`Stopped: ${qualityReport.counts.critical} rows have critical data problems, see data-quality.json`);
+      return EXIT_CODES.invalidData;
+    }
+
+    const result = await processBatchImport(batchImport, processingOptions, progress => {
+      if (options.verbose) log(`${progress.progress}% ${progress.currentStep}`);
+    });
+    const outputs = getBatchOutputs(result);
+
+    for (const [name, rows] of Object.entries(outputs)) {
+      if (options.format !== 'csv') {
+        await fs.writeFile(path.join(options.outDir, `${name}.json`), JSON.stringify(rows, null, 2));
+      }
+      if (options.format !== 'json') {
+        await fs.writeFile(path.join(options.outDir, `${name}.csv`), toCSV(rows));
+      }
+    }
+    await fs.writeFile(path.join(options.outDir, 'summary.json'), JSON.stringify({
+      processedAt: new Date().toISOString(),
+      files: batchImport.files,
+      imports: batchImport.summaries,
+      warnings: batchImport.warnings,
+      dataQuality: qualityReport.counts,
+      counts: Object.fromEntries(Object.entries(outputs).map(([name, rows]) => [name, rows.length])),
+    }, null, 2));
+
+    log(`Wrote ${Object.keys(outputs).length} result sets to ${options.outDir}`);
+    return EXIT_CODES.success;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      log(e.message);
+      return EXIT_CODES.usage;
+    }
+    log(`Processing failed: ${(e as Error).stack || e}`);
+    return EXIT_CODES.unexpectedError;
+  } finally {
+    console.log = consoleLog;
+    console.error = consoleError;
+  }
+};
+
+run(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
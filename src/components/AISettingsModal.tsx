@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Brain, Key, Settings, Zap, Shield, CheckCircle, AlertTriangle } from 'lucide-react';
 import { toast } from 'sonner';
+import { secureStorage } from '@/utils/encryption';
 
 interface AISettingsModalProps {
   isOpen: boolean;
@@ -73,7 +74,7 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
 
   // Load saved settings
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
+    const saved = secureStorage.getItem(STORAGE_KEY);
     if (saved) {
       try {
         const parsed = JSON.parse(saved);
@@ -95,7 +96,7 @@ const AISettingsModal: React.FC<AISettingsModalProps> = ({ isOpen, onClose }) =>
       settings
     };
     
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(settingsToSave));
+    secureStorage.setItem(STORAGE_KEY, JSON.stringify(settingsToSave));
     toast.success('AI settings saved successfully');
   };
 
@@ -0,0 +1,488 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SlidersHorizontal, History, RotateCcw, AlertTriangle, RefreshCcw, Plus, Trash2, Target } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  BusinessRulesConfig,
+  ClassificationRule,
+  ConversionRuleConfig,
+  RetentionConfig,
+  RetentionRule,
+  RuleField,
+  RuleId,
+  RULE_FIELDS,
+  RULE_IDS,
+  DEFAULT_BUSINESS_RULES,
+  getBusinessRules,
+  getBusinessRulesHistory,
+  saveBusinessRules,
+  validateRule,
+  validateRetentionRule,
+  validateConversionRule,
+  describeRetentionRule,
+  previewRuleMatches,
+  previewRetentionMatches,
+} from '@/utils/businessRules';
+import { describeConversionRule } from '@/utils/conversionRules';
+
+interface BusinessRulesEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  newClientData: Record<string, unknown>[];
+  // Re-run processing with the saved rules; omitted when there is no data loaded
+  onApply?: () => void;
+}
+
+const BusinessRulesEditor: React.FC<BusinessRulesEditorProps> = ({
+  isOpen,
+  onClose,
+  newClientData,
+  onApply,
+}) => {
+  const [current, setCurrent] = useState<BusinessRulesConfig>(DEFAULT_BUSINESS_RULES);
+  const [history, setHistory] = useState<BusinessRulesConfig[]>([]);
+  const [rules, setRules] = useState<Record<RuleId, ClassificationRule>>(DEFAULT_BUSINESS_RULES.rules);
+  const [retention, setRetention] = useState<RetentionConfig>(DEFAULT_BUSINESS_RULES.retention);
+  const [conversion, setConversion] = useState<ConversionRuleConfig>(DEFAULT_BUSINESS_RULES.conversion);
+  const [note, setNote] = useState('');
+
+  // Load the saved rules each time the editor opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = getBusinessRules();
+    setCurrent(saved);
+    setRules(saved.rules);
+    setRetention(saved.retention);
+    setConversion(saved.conversion);
+    setHistory(getBusinessRulesHistory());
+    setNote('');
+  }, [isOpen]);
+
+  const errors = useMemo(() => {
+    return [
+      ...RULE_IDS.map(id => validateRule(rules[id])),
+      ...retention.offers.map(rule => validateRetentionRule(rule)),
+      validateRetentionRule(retention.fallback, true),
+      validateConversionRule(conversion),
+    ].filter((error): error is string => error !== null);
+  }, [rules, retention, conversion]);
+
+  // Counts for the loaded data, for both the saved and the edited rules
+  const savedCounts = useMemo(() => {
+    return isOpen ? previewRuleMatches(newClientData, current.rules) : null;
+  }, [isOpen, newClientData, current]);
+
+  const previewCounts = useMemo(() => {
+    return isOpen && errors.length === 0 ? previewRuleMatches(newClientData, rules) : null;
+  }, [isOpen, newClientData, rules, errors]);
+
+  const retentionCounts = useMemo(() => {
+    return isOpen && errors.length === 0 ? previewRetentionMatches(newClientData, retention, rules.exclusion) : null;
+  }, [isOpen, newClientData, retention, rules, errors]);
+
+  const hasChanges = JSON.stringify({ rules, retention, conversion }) !==
+    JSON.stringify({ rules: current.rules, retention: current.retention, conversion: current.conversion });
+
+  const updateRule = (id: RuleId, changes: Partial<ClassificationRule>) => {
+    setRules(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const toggleField = (id: RuleId, field: RuleField, checked: boolean) => {
+    const fields = checked
+      ? RULE_FIELDS.filter(f => f === field || rules[id].fields.includes(f))
+      : rules[id].fields.filter(f => f !== field);
+    updateRule(id, { fields });
+  };
+
+  const updateRetentionRule = (id: string, changes: Partial<RetentionRule>) => {
+    setRetention(prev => id === prev.fallback.id
+      ? { ...prev, fallback: { ...prev.fallback, ...changes } }
+      : { ...prev, offers: prev.offers.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+  };
+
+  const addRetentionRule = () => {
+    setRetention(prev => ({
+      ...prev,
+      offers: [...prev.offers, {
+        id: `offer-${Date.now()}`,
+        label: 'New intro offer',
+        pattern: '',
+        minVisits: 1,
+        windowDays: 30,
+      }],
+    }));
+  };
+
+  const removeRetentionRule = (id: string) => {
+    setRetention(prev => ({ ...prev, offers: prev.offers.filter(rule => rule.id !== id) }));
+  };
+
+  // Exclusion lists are edited as comma separated terms
+  const parseTerms = (value: string): string[] => value.split(',').map(term => term.trimStart());
+
+  const handleSave = (reprocess: boolean) => {
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    const saved = saveBusinessRules({
+      rules,
+      retention,
+      conversion: {
+        ...conversion,
+        excludedCategories: conversion.excludedCategories.map(term => term.trim()).filter(Boolean),
+        excludedItems: conversion.excludedItems.map(term => term.trim()).filter(Boolean),
+      },
+    }, note.trim() || undefined);
+    toast.success(`Business rules saved as version ${saved.version}`);
+    onClose();
+
+    if (reprocess && onApply) {
+      onApply();
+    }
+  };
+
+  const handleRestore = (version: BusinessRulesConfig) => {
+    setRules(version.rules);
+    setRetention(version.retention);
+    setConversion(version.conversion);
+    setNote(`Restored version ${version.version}`);
+    toast.info(`Loaded version ${version.version}. Save to make it active.`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Business Rules
+            <Badge variant="outline">v{current.version}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            How new clients are classified by source, retained and converted. Changes apply to the next processing run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="rules" className="flex-1 overflow-hidden flex flex-col">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="rules" className="flex items-center gap-2">
+              <SlidersHorizontal className="h-4 w-4" />
+              Rules
+            </TabsTrigger>
+            <TabsTrigger value="retention" className="flex items-center gap-2">
+              <RefreshCcw className="h-4 w-4" />
+              Retention
+            </TabsTrigger>
+            <TabsTrigger value="conversion" className="flex items-center gap-2">
+              <Target className="h-4 w-4" />
+              Conversion
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              History
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rules" className="flex-1 overflow-auto space-y-4 pr-1">
+            {RULE_IDS.map(id => {
+              const rule = rules[id];
+              const error = validateRule(rule);
+
+              return (
+                <div key={id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="font-medium">{rule.label}</div>
+                      <div className="text-sm text-muted-foreground">{rule.description}</div>
+                    </div>
+                    {newClientData.length > 0 && savedCounts && (
+                      <div className="text-sm text-right whitespace-nowrap">
+                        <span className="text-muted-foreground">Matches: </span>
+                        <span className="font-medium">{savedCounts[id]}</span>
+                        {previewCounts && previewCounts[id] !== savedCounts[id] && (
+                          <span className="font-medium text-primary"> → {previewCounts[id]}</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_140px] gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`rule-${id}`}>Pattern</Label>
+                      <Input
+                        id={`rule-${id}`}
+                        value={rule.pattern}
+                        onChange={(e) => updateRule(id, { pattern: e.target.value })}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Match</Label>
+                      <Select
+                        value={rule.matchType}
+                        onValueChange={(value) => updateRule(id, { matchType: value as ClassificationRule['matchType'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="regex">Regex</SelectItem>
+                          <SelectItem value="exact">Exact</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4 text-sm">
+                    <span className="text-muted-foreground">Match against:</span>
+                    {RULE_FIELDS.map(field => (
+                      <label key={field} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={rule.fields.includes(field)}
+                          onChange={(e) => toggleField(id, field, e.target.checked)}
+                        />
+                        {field}
+                      </label>
+                    ))}
+                  </div>
+
+                  {error && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      {error}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {newClientData.length > 0 && previewCounts && (
+              <p className="text-sm text-muted-foreground">
+                Preview based on {previewCounts.total} loaded new client records. Excluded clients are not counted under other sources.
+              </p>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="rules-note">Version note</Label>
+              <Input
+                id="rules-note"
+                placeholder="What changed and why"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="retention" className="flex-1 overflow-auto space-y-4 pr-1">
+            <p className="text-sm text-muted-foreground">
+              A client is retained after the given number of non-cancelled visits following their first visit.
+              The first rule whose pattern matches the intro offer applies. Leave the window empty for no time limit.
+            </p>
+
+            {[...retention.offers, retention.fallback].map(rule => {
+              const isFallback = rule.id === retention.fallback.id;
+              const error = validateRetentionRule(rule, isFallback);
+
+              return (
+                <div key={rule.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-sm text-muted-foreground">{describeRetentionRule(rule)}</div>
+                    <div className="flex items-center gap-3">
+                      {newClientData.length > 0 && retentionCounts && (
+                        <span className="text-sm">
+                          <span className="text-muted-foreground">Clients: </span>
+                          <span className="font-medium">{retentionCounts[rule.id] ?? 0}</span>
+                        </span>
+                      )}
+                      {!isFallback && (
+                        <Button variant="ghost" size="sm" onClick={() => removeRetentionRule(rule.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_100px_120px] gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`retention-label-${rule.id}`}>Name</Label>
+                      <Input
+                        id={`retention-label-${rule.id}`}
+                        value={rule.label}
+                        onChange={(e) => updateRetentionRule(rule.id, { label: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`retention-pattern-${rule.id}`}>Intro offer pattern</Label>
+                      <Input
+                        id={`retention-pattern-${rule.id}`}
+                        value={isFallback ? '' : rule.pattern}
+                        placeholder={isFallback ? 'Any other intro offer' : undefined}
+                        disabled={isFallback}
+                        onChange={(e) => updateRetentionRule(rule.id, { pattern: e.target.value })}
+                        className="font-mono text-sm"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`retention-visits-${rule.id}`}>Visits</Label>
+                      <Input
+                        id={`retention-visits-${rule.id}`}
+                        type="number"
+                        min="1"
+                        value={rule.minVisits}
+                        onChange={(e) => updateRetentionRule(rule.id, { minVisits: parseInt(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`retention-window-${rule.id}`}>Within days</Label>
+                      <Input
+                        id={`retention-window-${rule.id}`}
+                        type="number"
+                        min="1"
+                        placeholder="No limit"
+                        value={rule.windowDays ?? ''}
+                        onChange={(e) => updateRetentionRule(rule.id, {
+                          windowDays: e.target.value === '' ? null : parseInt(e.target.value)
+                        })}
+                      />
+                    </div>
+                  </div>
+
+                  {error && (
+                    <div className="flex items-center gap-2 text-sm text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      {error}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <Button variant="outline" size="sm" onClick={addRetentionRule} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Add intro offer rule
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="conversion" className="flex-1 overflow-auto space-y-4 pr-1">
+            <p className="text-sm text-muted-foreground">
+              A client converts with a non-refunded {describeConversionRule(conversion)}.
+              Every view that reports conversions uses this rule.
+            </p>
+
+            <div className="rounded-lg border p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="conversion-categories">Excluded categories</Label>
+                <Input
+                  id="conversion-categories"
+                  value={conversion.excludedCategories.join(', ')}
+                  placeholder="Comma separated, e.g. product, money credits"
+                  onChange={(e) => setConversion(prev => ({ ...prev, excludedCategories: parseTerms(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="conversion-items">Excluded items</Label>
+                <Input
+                  id="conversion-items"
+                  value={conversion.excludedItems.join(', ')}
+                  placeholder="Comma separated, e.g. 2 for 1"
+                  onChange={(e) => setConversion(prev => ({ ...prev, excludedItems: parseTerms(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="conversion-min-value">Sale value must be above</Label>
+                <Input
+                  id="conversion-min-value"
+                  type="number"
+                  min="0"
+                  value={conversion.minSaleValue}
+                  onChange={(e) => setConversion(prev => ({ ...prev, minSaleValue: parseFloat(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="conversion-window">Purchase within days of first visit</Label>
+                <Input
+                  id="conversion-window"
+                  type="number"
+                  min="1"
+                  placeholder="No limit"
+                  value={conversion.windowDays ?? ''}
+                  onChange={(e) => setConversion(prev => ({
+                    ...prev,
+                    windowDays: e.target.value === '' ? null : parseInt(e.target.value)
+                  }))}
+                />
+              </div>
+            </div>
+
+            {validateConversionRule(conversion) && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {validateConversionRule(conversion)}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="flex-1 overflow-auto space-y-2 pr-1">
+            <div className="rounded-lg border p-3 flex items-center justify-between">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  Version {current.version}
+                  <Badge>Active</Badge>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {current.note || 'No note'} • {new Date(current.updatedAt).toLocaleString()}
+                </div>
+              </div>
+            </div>
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No previous versions</p>
+            ) : (
+              history.map(version => (
+                <div key={`${version.version}-${version.updatedAt}`} className="rounded-lg border p-3 flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">Version {version.version}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {version.note || 'No note'} • {new Date(version.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(version)} className="flex items-center gap-2">
+                    <RotateCcw className="h-4 w-4" />
+                    Restore
+                  </Button>
+                </div>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="pt-4 border-t">
+          <Button variant="outline" onClick={() => { setRules(DEFAULT_BUSINESS_RULES.rules); setRetention(DEFAULT_BUSINESS_RULES.retention); setConversion(DEFAULT_BUSINESS_RULES.conversion); }}>
+            Reset to defaults
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {onApply && (
+            <Button variant="outline" onClick={() => handleSave(true)} disabled={!hasChanges || errors.length > 0}>
+              Save & reprocess
+            </Button>
+          )}
+          <Button onClick={() => handleSave(false)} disabled={!hasChanges || errors.length > 0}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BusinessRulesEditor;
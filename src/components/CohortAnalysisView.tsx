@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { MultiSelect } from '@/components/ui/multi-select';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { LayoutGrid, Users, Building2, Tag } from 'lucide-react';
+import { safeToFixed } from '@/lib/utils';
+import { CohortData, CohortFilters, CohortMetric, CohortCell, COHORT_HORIZONS, analyzeCohorts } from '@/utils/cohortAnalysis';
+
+interface CohortAnalysisViewProps {
+  cohortData?: CohortData;
+}
+
+const EMPTY_FILTERS: CohortFilters = { teacher: [], location: [], introOffer: [] };
+
+// Heatmap shade per metric, as RGB for the cell background
+const METRIC_COLORS: Record<CohortMetric, string> = {
+  retention: '13, 148, 136',
+  conversion: '124, 58, 237',
+};
+
+const uniqueSorted = (values: string[]): string[] => [...new Set(values.filter(Boolean))].sort();
+
+const CohortAnalysisView: React.FC<CohortAnalysisViewProps> = ({ cohortData }) => {
+  const [metric, setMetric] = useState<CohortMetric>('retention');
+  const [filters, setFilters] = useState<CohortFilters>(EMPTY_FILTERS);
+
+  const clients = useMemo(() => cohortData?.clients || [], [cohortData]);
+
+  const options = useMemo(() => ({
+    teacher: uniqueSorted(clients.map(client => client.teacher)),
+    location: uniqueSorted(clients.map(client => client.location)),
+    introOffer: uniqueSorted(clients.map(client => client.introOffer)),
+  }), [clients]);
+
+  const rows = useMemo(() => {
+    if (!cohortData) return [];
+    return analyzeCohorts(cohortData, filters);
+  }, [cohortData, filters]);
+
+  const getRate = (cell: CohortCell) => metric === 'retention' ? cell.retentionRate : cell.conversionRate;
+
+  // Scale shading to the highest rate shown so differences stay visible at low rates
+  const maxRate = Math.max(1, ...rows.flatMap(row => row.cells.map(cell => getRate(cell) || 0)));
+
+  const setFilter = (key: keyof CohortFilters, values: string[]) => {
+    setFilters(prev => ({ ...prev, [key]: values }));
+  };
+
+  const hasFilters = filters.teacher.length > 0 || filters.location.length > 0 || filters.introOffer.length > 0;
+
+  if (clients.length === 0) {
+    return (
+      <Card className="bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-2xl">
+        <CardContent className="p-8 text-center">
+          <p className="text-muted-foreground">No cohort data available. Reprocess your files to build cohorts.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderCell = (cell: CohortCell) => {
+    const rate = getRate(cell);
+    if (rate === null) {
+      return (
+        <TableCell key={cell.days} className="text-center text-xs text-muted-foreground bg-slate-50">
+          —
+        </TableCell>
+      );
+    }
+
+    const count = metric === 'retention' ? cell.retained : cell.converted;
+    const alpha = 0.08 + (rate / maxRate) * 0.77;
+
+    return (
+      <TableCell
+        key={cell.days}
+        className="text-center p-0"
+        style={{ backgroundColor: `rgba(${METRIC_COLORS[metric]}, ${alpha})` }}
+      >
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className={`px-3 py-2 cursor-default ${alpha > 0.5 ? 'text-white' : 'text-slate-800'}`}>
+                <div className="font-semibold">{safeToFixed(rate, 1)}%</div>
+                <div className="text-[10px] opacity-80">{count}/{cell.eligible}</div>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              {count} of {cell.eligible} clients {metric === 'retention' ? 'retained' : 'converted'} within {cell.days} days
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </TableCell>
+    );
+  };
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-2xl overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-slate-50/80 to-white/80 border-b border-white/20 space-y-4">
+        <CardTitle className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-gradient-to-br from-teal-500/20 to-violet-500/20 border border-teal-400/30">
+              <LayoutGrid className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <span className="bg-gradient-to-r from-slate-700 to-slate-800 bg-clip-text text-transparent font-bold text-xl">
+                Cohort Analysis
+              </span>
+              <p className="text-xs font-normal text-muted-foreground">
+                Clients grouped by first-visit month. Cumulative share retained or converted within each number of days;
+                blank cells need more data{cohortData?.observedUntil ? ` (data runs to ${cohortData.observedUntil})` : ''}.
+              </p>
+            </div>
+          </div>
+          <Tabs value={metric} onValueChange={(value) => setMetric(value as CohortMetric)}>
+            <TabsList>
+              <TabsTrigger value="retention">Retention</TabsTrigger>
+              <TabsTrigger value="conversion">Conversion</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardTitle>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <Users className="h-4 w-4" />
+              Teachers
+            </div>
+            <MultiSelect
+              options={options.teacher.map(value => ({ label: value, value }))}
+              selected={filters.teacher}
+              onChange={(values) => setFilter('teacher', values)}
+              placeholder="All teachers"
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <Building2 className="h-4 w-4" />
+              Locations
+            </div>
+            <MultiSelect
+              options={options.location.map(value => ({ label: value, value }))}
+              selected={filters.location}
+              onChange={(values) => setFilter('location', values)}
+              placeholder="All locations"
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <Tag className="h-4 w-4" />
+              Intro offers
+            </div>
+            <MultiSelect
+              options={options.introOffer.map(value => ({ label: value, value }))}
+              selected={filters.introOffer}
+              onChange={(values) => setFilter('introOffer', values)}
+              placeholder="All intro offers"
+              className="w-full"
+            />
+          </div>
+        </div>
+        {hasFilters && (
+          <div className="flex justify-end">
+            <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-10">No clients match these filters</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[120px]">Cohort</TableHead>
+                <TableHead className="text-center">Clients</TableHead>
+                {COHORT_HORIZONS.map(days => (
+                  <TableHead key={days} className="text-center min-w-[90px]">{days} days</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.cohort}>
+                  <TableCell className="font-medium">{row.cohort}</TableCell>
+                  <TableCell className="text-center">
+                    <Badge variant="outline">{row.clients}</Badge>
+                  </TableCell>
+                  {row.cells.map(renderCell)}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CohortAnalysisView;
@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Columns, Save, Sparkles, AlertTriangle, CheckCircle, Loader, ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { readCSVHeaders, categorizeFiles, DataFileType } from '@/utils/csvParser';
+import {
+  CANONICAL_FIELDS,
+  ColumnMapping,
+  FileColumnMappings,
+  suggestColumnMapping,
+  findSchemaForHeaders,
+  saveImportSchema,
+  getMissingRequiredFields
+} from '@/utils/columnMapping';
+import { loadAndMergeFiles, MergedImport } from '@/utils/fileMerge';
+
+interface ColumnMappingWizardProps {
+  isOpen: boolean;
+  files: File[];
+  fileTypes?: Map<File, DataFileType | 'unknown'>;
+  onClose: () => void;
+  onConfirm: (mergedImport: MergedImport) => void;
+}
+
+interface FileMappingState {
+  file: File;
+  fileType: DataFileType;
+  headers: string[];
+  mapping: ColumnMapping;
+  schemaName: string;
+  appliedSchema?: string;
+  saveSchema: boolean;
+}
+
+const FILE_TYPE_LABELS: Record<DataFileType, string> = {
+  new: 'New Clients',
+  bookings: 'Bookings',
+  payments: 'Payments'
+};
+
+const UNMAPPED = '__unmapped__';
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  isOpen,
+  files,
+  fileTypes,
+  onClose,
+  onConfirm
+}) => {
+  const [fileStates, setFileStates] = useState<FileMappingState[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState<'mapping' | 'summary'>('mapping');
+  const [mergedImport, setMergedImport] = useState<MergedImport | null>(null);
+
+  // Read headers and build suggestions whenever the wizard opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const loadHeaders = async () => {
+      setIsLoading(true);
+      setStep('mapping');
+      setMergedImport(null);
+      const categorized = categorizeFiles(files, fileTypes);
+      const typedFiles = (['new', 'bookings', 'payments'] as DataFileType[])
+        .flatMap(type => categorized[type].map(file => ({ file, fileType: type })));
+
+      try {
+        const states = await Promise.all(typedFiles.map(async ({ file, fileType }) => {
+          const headers = await readCSVHeaders(file);
+          const schema = findSchemaForHeaders(headers, fileType);
+          return {
+            file,
+            fileType,
+            headers,
+            mapping: schema ? { ...schema.mapping } : suggestColumnMapping(headers, fileType),
+            schemaName: schema?.name || `${FILE_TYPE_LABELS[fileType]} – ${file.name.replace(/\.[^.]+$/, '')}`,
+            appliedSchema: schema?.name,
+            saveSchema: !schema
+          };
+        }));
+
+        if (!cancelled) {
+          setFileStates(states);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        console.error('Error reading file headers:', error);
+        toast.error('Could not read the header row of one of the files');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHeaders();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, files, fileTypes]);
+
+  const updateFileState = (index: number, update: Partial<FileMappingState>) => {
+    setFileStates(prev => prev.map((state, i) => i === index ? { ...state, ...update } : state));
+  };
+
+  const updateMapping = (index: number, field: string, header: string) => {
+    setFileStates(prev => prev.map((state, i) => {
+      if (i !== index) return state;
+      const mapping = { ...state.mapping };
+      if (header === UNMAPPED) {
+        delete mapping[field];
+      } else {
+        mapping[field] = header;
+      }
+      return { ...state, mapping };
+    }));
+  };
+
+  const resetToSuggestions = (index: number) => {
+    const state = fileStates[index];
+    updateFileState(index, {
+      mapping: suggestColumnMapping(state.headers, state.fileType),
+      appliedSchema: undefined
+    });
+  };
+
+  const filesWithMissingFields = fileStates.filter(state =>
+    getMissingRequiredFields(state.mapping, state.fileType).length > 0
+  );
+
+  // Save schemas, then parse and merge every file for the summary step
+  const handleReview = async () => {
+    if (filesWithMissingFields.length > 0) {
+      toast.error(`Map all required fields for ${filesWithMissingFields.map(s => s.file.name).join(', ')}`);
+      return;
+    }
+
+    const mappings: FileColumnMappings = new Map();
+    fileStates.forEach(state => {
+      if (state.saveSchema) {
+        const schema = saveImportSchema(state.schemaName, state.fileType, state.headers, state.mapping);
+        toast.success(`Saved import schema "${schema.name}"`);
+      }
+      mappings.set(state.file, state.mapping);
+    });
+
+    setIsLoading(true);
+    try {
+      const merged = await loadAndMergeFiles(categorizeFiles(files, fileTypes), mappings);
+      setMergedImport(merged);
+      setStep('summary');
+    } catch (error) {
+      console.error('Error preparing files:', error);
+      toast.error('Error reading files. Please check your file format and try again');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (mergedImport) {
+      onConfirm(mergedImport);
+    }
+  };
+
+  const activeState = fileStates[activeIndex];
+  const missingFields = activeState ? getMissingRequiredFields(activeState.mapping, activeState.fileType) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-2xl">
+        <DialogHeader className="pb-4 border-b">
+          <DialogTitle className="flex items-center gap-3 text-2xl">
+            <div className="p-2 rounded-xl bg-gradient-to-br from-blue-500/20 to-indigo-500/20 border border-blue-400/30">
+              <Columns className="h-6 w-6 text-blue-600" />
+            </div>
+            Map Columns
+          </DialogTitle>
+          <DialogDescription>
+            Match the headers in your files to the fields used for processing. Saved schemas are reapplied automatically to files with the same headers.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground gap-2">
+            <Loader className="h-5 w-5 animate-spin" />
+            {fileStates.length === 0 ? 'Reading file headers...' : 'Reading and merging files...'}
+          </div>
+        ) : step === 'summary' && mergedImport ? (
+          <div className="flex-1 min-h-0 flex flex-col gap-4">
+            <div className="grid grid-cols-3 gap-3">
+              {([
+                ['New Clients', mergedImport.newClientData.length],
+                ['Bookings', mergedImport.bookingsData.length],
+                ['Payments', mergedImport.paymentsData.length]
+              ] as [string, number][]).map(([label, count]) => (
+                <div key={label} className="rounded-lg border p-3 text-center">
+                  <div className="text-2xl font-bold">{count.toLocaleString()}</div>
+                  <div className="text-xs text-muted-foreground">{label} rows after merge</div>
+                </div>
+              ))}
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0 h-[45vh] border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Rows</TableHead>
+                    <TableHead className="text-right">Duplicates removed</TableHead>
+                    <TableHead>Date range</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {mergedImport.summaries.map((summary, index) => (
+                    <TableRow key={`${summary.fileName}-${index}`}>
+                      <TableCell className="font-medium max-w-[220px] truncate" title={summary.fileName}>
+                        {summary.fileName}
+                      </TableCell>
+                      <TableCell>{FILE_TYPE_LABELS[summary.fileType]}</TableCell>
+                      <TableCell className="text-right">{summary.rowCount.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {summary.duplicateRows > 0
+                          ? <Badge variant="secondary">{summary.duplicateRows.toLocaleString()}</Badge>
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {summary.dateRange ? `${summary.dateRange.start} → ${summary.dateRange.end}` : 'No valid dates'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        ) : fileStates.length === 0 ? (
+          <div className="py-16 text-center text-muted-foreground">
+            No recognised files to map.
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+              {fileStates.map((state, index) => {
+                const missing = getMissingRequiredFields(state.mapping, state.fileType).length;
+                return (
+                  <Button
+                    key={`${state.file.name}-${index}`}
+                    variant={index === activeIndex ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setActiveIndex(index)}
+                    className="flex items-center gap-2"
+                  >
+                    {missing > 0
+                      ? <AlertTriangle className="h-4 w-4 text-amber-500" />
+                      : <CheckCircle className="h-4 w-4 text-green-500" />}
+                    {FILE_TYPE_LABELS[state.fileType]}
+                    <span className="max-w-[140px] truncate font-normal opacity-75">{state.file.name}</span>
+                  </Button>
+                );
+              })}
+            </div>
+
+            {activeState && (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span className="font-medium truncate" title={activeState.file.name}>{activeState.file.name}</span>
+                  <div className="flex items-center gap-2">
+                    {activeState.appliedSchema ? (
+                      <Badge variant="secondary">Schema: {activeState.appliedSchema}</Badge>
+                    ) : (
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Sparkles className="h-3 w-3" /> Auto-suggested
+                      </Badge>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => resetToSuggestions(activeIndex)}>
+                      Reset suggestions
+                    </Button>
+                  </div>
+                </div>
+
+                <ScrollArea className="flex-1 min-h-0 h-[45vh] border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Column in file</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {CANONICAL_FIELDS[activeState.fileType].map(field => (
+                        <TableRow key={field.key}>
+                          <TableCell className="font-medium">
+                            {field.label}
+                            {field.required && <span className="text-red-500 ml-1">*</span>}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={activeState.mapping[field.key] || UNMAPPED}
+                              onValueChange={(value) => updateMapping(activeIndex, field.key, value)}
+                            >
+                              <SelectTrigger className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                                {activeState.headers.map(header => (
+                                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+
+                {missingFields.length > 0 && (
+                  <p className="text-sm text-amber-600 flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    Missing required fields: {missingFields.map(f => f.label).join(', ')}
+                  </p>
+                )}
+
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="flex-1 min-w-[200px] space-y-1">
+                    <Label htmlFor="schema-name">Schema name</Label>
+                    <Input
+                      id="schema-name"
+                      value={activeState.schemaName}
+                      onChange={(e) => updateFileState(activeIndex, { schemaName: e.target.value })}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm pb-2">
+                    <input
+                      type="checkbox"
+                      checked={activeState.saveSchema}
+                      onChange={(e) => updateFileState(activeIndex, { saveSchema: e.target.checked })}
+                    />
+                    <Save className="h-4 w-4" />
+                    Save as import schema
+                  </label>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="pt-4 border-t">
+          {step === 'summary' ? (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} className="flex items-center gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Back to mapping
+              </Button>
+              <Button onClick={handleConfirm} disabled={isLoading || !mergedImport}>
+                Process files
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={handleReview} disabled={isLoading}>
+                Review import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingWizard;
@@ -28,11 +28,19 @@ import {
   Sparkles
 } from 'lucide-react';
 import { safeFormatCurrency, safeFormatDate, safeToFixed } from '@/lib/utils';
+import type { ConversionRuleConfig } from '@/utils/businessRules';
+import { buildIdentityMap } from '@/utils/identityResolution';
+import { evaluateConversionSale, describeConversionRule, getSaleValue, ConversionSale } from '@/utils/conversionRules';
+import { formatDateString } from '@/utils/csvParser';
+import { getDaysBetween } from '@/utils/cohortAnalysis';
 
 interface ConversionSummaryProps {
   newClientData: any[];
   salesData: any[];
   bookingsData: any[];
+  // Conversion rule and confirmed identity merges of the processing run shown
+  conversionRule: ConversionRuleConfig;
+  identityMerges: [string, string][];
 }
 
 interface ProcessedClient {
@@ -56,13 +64,21 @@ interface ProcessedClient {
 const ConversionSummaryTable: React.FC<ConversionSummaryProps> = ({
   newClientData,
   salesData,
-  bookingsData
+  bookingsData,
+  conversionRule,
+  identityMerges
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [sortColumn, setSortColumn] = useState<string>('firstVisitDate');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
 
+  // Resolve emails from the same files and merges as processData, so alternate emails link into the same clients
+  const identityMap = useMemo(() => buildIdentityMap(
+    { newClients: newClientData || [], bookings: bookingsData || [], sales: salesData || [] },
+    identityMerges
+  ), [newClientData, bookingsData, salesData, identityMerges]);
+
   // Data processing and validation
   const processedData = useMemo(() => {
     if (!newClientData || !Array.isArray(newClientData) || newClientData.length === 0) {
@@ -102,12 +118,10 @@ const ConversionSummaryTable: React.FC<ConversionSummaryProps> = ({
 
       // Find matching sales records
       const matchingSales = salesData.filter(sale => {
-        // Match by email or member ID
-        const emailMatch = (
-          sale['Customer email'] === email ||
-          sale['Paying Customer email'] === email ||
-          sale.email === email
-        );
+        // Match by resolved email or member ID
+        const clientIdentity = identityMap.resolveEmail(email);
+        const emailMatch = !!email && [sale['Customer email'], sale['Paying Customer email'], sale.email]
+          .some(saleEmail => saleEmail && identityMap.resolveEmail(saleEmail) === clientIdentity);
         
         const memberIDMatch = (
           sale['Member ID'] === memberID ||
@@ -117,28 +131,25 @@ const ConversionSummaryTable: React.FC<ConversionSummaryProps> = ({
         return emailMatch || memberIDMatch;
       });
 
-      // Filter and validate sales data
-      const validSales = matchingSales.filter(sale => {
-        const saleDate = new Date(sale['Date'] || sale.date || '');
-        const saleValue = parseFloat(String(sale['Sale value'] || sale.value || '0').replace(/[^0-9.-]+/g, ''));
-        const category = (sale['Category'] || sale.category || '').toLowerCase();
-        const product = (sale['Item'] || sale.item || sale.product || '').toLowerCase();
-        
-        // Apply filtering criteria
-        const validSaleValue = saleValue > 0;
-        const notTwoForOne = !product.includes('2 for 1');
-        const notRetail = category !== 'retail';
-        const saleDateValid = !isNaN(saleDate.getTime());
-        const saleDateAfterVisit = saleDateValid && saleDate >= visitDate;
-        const notRefunded = sale['Refunded'] !== 'YES';
+      // Judge each sale with the shared conversion rule
+      const saleChecks = matchingSales.map(sale => {
+        const conversionSale: ConversionSale = {
+          'Date': sale['Date'] || sale.date || '',
+          'Sale value': sale['Sale value'] || sale.value || '0',
+          'Category': sale['Category'] || sale.category || '',
+          'Item': sale['Item'] || sale.item || sale.product || '',
+          'Refunded': sale['Refunded']
+        };
+        const check = evaluateConversionSale(conversionSale, firstVisitDate, conversionRule);
 
         // Validate numerical values
-        if (saleValue < 0) {
+        if (check.saleValue < 0) {
           validationErrors.push('Negative sale value detected');
         }
 
-        return validSaleValue && notTwoForOne && notRetail && saleDateAfterVisit && notRefunded;
+        return { sale, check };
       });
+      const validSales = saleChecks.filter(({ check }) => check.isConverted).map(({ sale }) => sale);
 
       // Determine conversion status and details
       let conversionStatus: 'converted' | 'not_converted' = 'not_converted';
@@ -157,17 +168,14 @@ const ConversionSummaryTable: React.FC<ConversionSummaryProps> = ({
         });
 
         const firstSale = sortedSales[0];
-        const purchaseDate = new Date(firstSale['Date'] || firstSale.date || '');
         
         conversionStatus = 'converted';
         firstPurchaseDate = firstSale['Date'] || firstSale.date || '';
         firstPurchaseProduct = firstSale['Item'] || firstSale.item || firstSale.product || '';
-        firstPurchaseValue = parseFloat(String(firstSale['Sale value'] || firstSale.value || '0').replace(/[^0-9.-]+/g, ''));
+        firstPurchaseValue = getSaleValue({ 'Sale value': firstSale['Sale value'] || firstSale.value || '0' });
         
-        // Calculate days to conversion
-        if (!isNaN(purchaseDate.getTime()) && !isNaN(visitDate.getTime())) {
-          daysToConversion = Math.ceil((purchaseDate.getTime() - visitDate.getTime()) / (1000 * 60 * 60 * 24));
-        }
+        // Whole days between the calendar dates, as processData counts them
+        daysToConversion = getDaysBetween(formatDateString(firstVisitDate), formatDateString(firstPurchaseDate));
 
         conversionDetails = `Converted after ${daysToConversion || 0} days with "${firstPurchaseProduct}" for ${safeFormatCurrency(firstPurchaseValue || 0)}`;
       } else {
@@ -177,23 +185,10 @@ const ConversionSummaryTable: React.FC<ConversionSummaryProps> = ({
         if (allSalesForClient.length === 0) {
           conversionDetails = 'No purchase records found for this client';
         } else {
-          const reasons: string[] = [];
-          
-          allSalesForClient.forEach(sale => {
-            const saleDate = new Date(sale['Date'] || sale.date || '');
-            const saleValue = parseFloat(String(sale['Sale value'] || sale.value || '0').replace(/[^0-9.-]+/g, ''));
-            const category = (sale['Category'] || sale.category || '').toLowerCase();
-            const product = (sale['Item'] || sale.item || sale.product || '').toLowerCase();
-            
-            if (saleValue <= 0) reasons.push('Zero or negative sale value');
-            if (product.includes('2 for 1')) reasons.push('Excluded product (2 For 1)');
-            if (category === 'retail') reasons.push('Retail category excluded');
-            if (saleDate < visitDate) reasons.push('Purchase before first visit');
-            if (sale['Refunded'] === 'YES') reasons.push('Purchase was refunded');
-          });
+          const reasons = [...new Set(saleChecks.map(({ check }) => check.reason))];
 
           conversionDetails = reasons.length > 0 
-            ? `Not converted: ${reasons.join(', ')}` 
+            ? `Not converted: ${reasons.join('; ')}` 
             : 'Has purchases but none meet conversion criteria';
         }
       }
@@ -218,7 +213,7 @@ const ConversionSummaryTable: React.FC<ConversionSummaryProps> = ({
     });
 
     return processed;
-  }, [newClientData, salesData]);
+  }, [newClientData, salesData, conversionRule, identityMap]);
 
   // Filter and sort data
   const filteredAndSortedData = useMemo(() => {
@@ -345,6 +340,16 @@ const ConversionSummaryTable: React.FC<ConversionSummaryProps> = ({
             <CardTitle className="text-sm flex items-center gap-2 text-green-700">
               <Target className="h-4 w-4" />
               Conversion Rate
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="h-3.5 w-3.5 cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-sm">
+                    <p className="text-sm">Counts a {describeConversionRule(conversionRule)}</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
             </CardTitle>
           </CardHeader>
           <CardContent className="p-4">
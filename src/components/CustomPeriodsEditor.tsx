@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarRange, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { CustomPeriod, validateCustomPeriod } from '@/utils/periods';
+
+interface CustomPeriodsEditorProps {
+  customPeriods: CustomPeriod[];
+  onApply: (customPeriods: CustomPeriod[]) => void;
+}
+
+const CustomPeriodsEditor: React.FC<CustomPeriodsEditorProps> = ({ customPeriods, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<CustomPeriod[]>(customPeriods);
+
+  // Start from the saved ranges each time the editor opens
+  useEffect(() => {
+    if (isOpen) setDraft(customPeriods);
+  }, [isOpen, customPeriods]);
+
+  const updatePeriod = (index: number, changes: Partial<CustomPeriod>) => {
+    setDraft(prev => prev.map((period, i) => i === index ? { ...period, ...changes } : period));
+  };
+
+  const addPeriod = () => {
+    setDraft(prev => [...prev, { label: `Period ${prev.length + 1}`, start: '', end: '' }]);
+  };
+
+  const handleApply = () => {
+    const error = draft.map(validateCustomPeriod).find(Boolean);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (new Set(draft.map(period => period.label.trim())).size !== draft.length) {
+      toast.error('Custom periods need different names');
+      return;
+    }
+
+    onApply(draft.map(period => ({ ...period, label: period.label.trim() })));
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs">
+          <CalendarRange className="h-3 w-3 mr-1" />
+          Ranges ({customPeriods.length})
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[420px] space-y-3" align="start">
+        <div>
+          <div className="text-sm font-medium">Custom periods</div>
+          <p className="text-xs text-muted-foreground">
+            Dates are inclusive. Where ranges overlap the first one wins; dates outside every range are grouped as Unknown.
+          </p>
+        </div>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {draft.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No custom periods yet</p>
+          )}
+          {draft.map((period, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={period.label}
+                onChange={(e) => updatePeriod(index, { label: e.target.value })}
+                placeholder="Name"
+                className="h-8 text-xs"
+              />
+              <Input
+                type="date"
+                value={period.start}
+                onChange={(e) => updatePeriod(index, { start: e.target.value })}
+                className="h-8 text-xs w-[130px] shrink-0"
+              />
+              <Input
+                type="date"
+                value={period.end}
+                onChange={(e) => updatePeriod(index, { end: e.target.value })}
+                className="h-8 text-xs w-[130px] shrink-0"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                className="h-8 w-8 p-0 shrink-0"
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove period</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between">
+          <Button variant="outline" size="sm" onClick={addPeriod}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add range
+          </Button>
+          <Button size="sm" onClick={handleApply}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CustomPeriodsEditor;
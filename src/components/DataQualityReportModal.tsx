@@ -0,0 +1,132 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShieldCheck, ShieldAlert, Download } from 'lucide-react';
+import {
+  DataQualityReport,
+  IssueSeverity,
+  SEVERITY_ORDER,
+  SEVERITY_LABELS,
+  QUALITY_FILE_LABELS,
+  dataQualityReportToCSV,
+} from '@/utils/dataQuality';
+import { downloadFile } from '@/utils/download';
+
+interface DataQualityReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: DataQualityReport | null;
+}
+
+const SEVERITY_STYLES: Record<IssueSeverity, string> = {
+  critical: 'bg-red-100 text-red-800 border-red-200',
+  warning: 'bg-amber-100 text-amber-800 border-amber-200',
+  info: 'bg-slate-100 text-slate-700 border-slate-200',
+};
+
+// A few identifying values from an example row
+const summarizeRecord = (record: Record<string, unknown>): string => {
+  return Object.entries(record)
+    .filter(([, value]) => value !== null && value !== undefined && String(value).trim() !== '')
+    .slice(0, 4)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(' · ');
+};
+
+const DataQualityReportModal: React.FC<DataQualityReportModalProps> = ({ isOpen, onClose, report }) => {
+  if (!report) return null;
+
+  const fileStamp = report.checkedAt.slice(0, 10);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {report.blocked ? <ShieldAlert className="h-5 w-5 text-red-600" /> : <ShieldCheck className="h-5 w-5 text-green-600" />}
+            Data Quality Report
+          </DialogTitle>
+          <DialogDescription>
+            {report.blocked
+              ? 'Processing was stopped because some rows have critical problems. Fix them in the exports and upload the files again.'
+              : 'Every row was checked before processing. Warnings do not stop processing, but the affected rows may be skipped or miscounted.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {(Object.keys(report.rowCounts) as (keyof typeof report.rowCounts)[]).map(fileType => (
+            <Badge key={fileType} variant="outline">
+              {QUALITY_FILE_LABELS[fileType]}: {report.rowCounts[fileType].toLocaleString()} rows
+            </Badge>
+          ))}
+          <span className="flex-1" />
+          {SEVERITY_ORDER.map(severity => (
+            <Badge key={severity} variant="outline" className={SEVERITY_STYLES[severity]}>
+              {SEVERITY_LABELS[severity]}: {report.counts[severity].toLocaleString()}
+            </Badge>
+          ))}
+        </div>
+
+        <ScrollArea className="h-[50vh] pr-3">
+          {report.issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-10">No problems found</p>
+          ) : (
+            <div className="space-y-3">
+              {report.issues.map(issue => (
+                <div key={issue.checkId} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={SEVERITY_STYLES[issue.severity]}>
+                        {SEVERITY_LABELS[issue.severity]}
+                      </Badge>
+                      <span className="text-sm font-medium">{issue.label}</span>
+                      <span className="text-xs text-muted-foreground">{QUALITY_FILE_LABELS[issue.fileType]}</span>
+                    </div>
+                    <span className="text-sm font-medium">{issue.count.toLocaleString()} rows</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{issue.description}</p>
+                  <div className="rounded-md bg-slate-50 p-2 space-y-1">
+                    {issue.examples.map(example => (
+                      <div key={example.row} className="text-xs flex gap-2 min-w-0">
+                        <span className="text-muted-foreground shrink-0">Row {example.row}</span>
+                        <span className="font-mono shrink-0">{issue.field}: {example.value ? `"${example.value}"` : '(empty)'}</span>
+                        <span className="text-muted-foreground truncate">{summarizeRecord(example.record)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="pt-4 border-t">
+          <Button
+            variant="outline"
+            onClick={() => downloadFile(JSON.stringify(report, null, 2), `data-quality-${fileStamp}.json`, 'application/json')}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            JSON
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => downloadFile(dataQualityReportToCSV(report), `data-quality-${fileStamp}.csv`, 'text/csv')}
+            disabled={report.issues.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DataQualityReportModal;
@@ -0,0 +1,181 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle, XCircle, GraduationCap, RefreshCcw, Target, UserX, HelpCircle } from 'lucide-react';
+import { safeFormatCurrency, safeFormatDate } from '@/lib/utils';
+import { ClientDecisionTrace } from '@/utils/decisionTrace';
+import { TEACHER_MATCH_METHOD_LABELS } from '@/utils/teacherAttribution';
+
+interface DecisionTraceDialogProps {
+  // Traces for one client; the dialog is open while this isn't empty
+  traces: ClientDecisionTrace[];
+  onClose: () => void;
+}
+
+const Outcome: React.FC<{ passed: boolean; label: string }> = ({ passed, label }) => (
+  <Badge variant={passed ? 'default' : 'outline'} className="flex items-center gap-1 w-fit">
+    {passed ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+    {label}
+  </Badge>
+);
+
+const Section: React.FC<{ icon: React.ReactNode; title: string; children: React.ReactNode }> = ({ icon, title, children }) => (
+  <div className="space-y-2">
+    <h4 className="flex items-center gap-2 font-semibold text-slate-700">
+      {icon}
+      {title}
+    </h4>
+    {children}
+  </div>
+);
+
+const renderTrace = (trace: ClientDecisionTrace) => {
+  const countedVisits = trace.visits.filter(visit => visit.counted).length;
+
+  return (
+    <div className="space-y-6">
+      <Section icon={<GraduationCap className="h-4 w-4" />} title={`Attributed to ${trace.teacher}`}>
+        {trace.attribution ? (
+          <div className="text-sm text-slate-600 space-y-1">
+            <div>
+              First visit: {trace.firstVisit || 'N/A'} on {safeFormatDate(trace.firstVisitDate, 'medium')} at {trace.location}
+            </div>
+            <div>
+              {trace.attribution.matchedClass
+                ? `Matched booking: ${trace.attribution.matchedClass} on ${safeFormatDate(trace.attribution.matchedDate, 'medium')} at ${trace.attribution.matchedLocation}`
+                : 'No matching booking was found'}
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{TEACHER_MATCH_METHOD_LABELS[trace.attribution.method]}</Badge>
+              <span>{Math.round(trace.attribution.confidence * 100)}% confidence</span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No attribution record for this client</p>
+        )}
+      </Section>
+
+      {trace.exclusion ? (
+        <Section icon={<UserX className="h-4 w-4" />} title="Excluded">
+          <p className="text-sm text-red-600">{trace.exclusion}. Excluded clients are not counted for retention or conversion.</p>
+        </Section>
+      ) : (
+        <>
+          <Section icon={<RefreshCcw className="h-4 w-4" />} title="Retention">
+            {trace.retention && (
+              <div className="space-y-1 text-sm text-slate-600">
+                <Outcome passed={trace.retention.retained} label={trace.retention.retained ? 'Retained' : 'Not retained'} />
+                <div>{trace.retention.rule}</div>
+                <div>{trace.retention.reason}</div>
+              </div>
+            )}
+            {trace.visits.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No bookings found for this client</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class date</TableHead>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Teacher</TableHead>
+                    <TableHead>Decision ({countedVisits} counted)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trace.visits.map((visit, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{safeFormatDate(visit.date, 'medium')}</TableCell>
+                      <TableCell>
+                        <div>{visit.className}</div>
+                        <div className="text-xs text-slate-500">{visit.location}</div>
+                      </TableCell>
+                      <TableCell>{visit.teacher}</TableCell>
+                      <TableCell>
+                        <Outcome passed={visit.counted} label={visit.reason} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Section>
+
+          <Section icon={<Target className="h-4 w-4" />} title="Conversion">
+            {trace.conversion && (
+              <div className="space-y-1 text-sm text-slate-600">
+                <Outcome passed={trace.conversion.converted} label={trace.conversion.converted ? 'Converted' : 'Not converted'} />
+                <div>{trace.conversion.reason}</div>
+              </div>
+            )}
+            {trace.sales.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No sales found for this client</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Decision</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trace.sales.map((sale, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{safeFormatDate(sale.date, 'medium')}</TableCell>
+                      <TableCell>
+                        <div>{sale.item}</div>
+                        <div className="text-xs text-slate-500">{sale.category}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{safeFormatCurrency(sale.value)}</TableCell>
+                      <TableCell className="max-w-xs">
+                        <Outcome passed={sale.counted} label={sale.counted ? 'Counted' : 'Not counted'} />
+                        <div className="text-xs text-slate-500 mt-1 break-words">{sale.reason}</div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Section>
+        </>
+      )}
+    </div>
+  );
+};
+
+const DecisionTraceDialog: React.FC<DecisionTraceDialogProps> = ({ traces, onClose }) => {
+  const client = traces[0];
+
+  return (
+    <Dialog open={traces.length > 0} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HelpCircle className="h-5 w-5 text-primary" />
+            Why? {client?.name}
+          </DialogTitle>
+          <DialogDescription>
+            {client?.email} — how this client was attributed, and which visits and sales were counted
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-[70vh] pr-4">
+          <div className="space-y-8">
+            {traces.map((trace, index) => (
+              <div key={index} className="space-y-4">
+                {traces.length > 1 && (
+                  <Badge variant="secondary">{trace.teacher} • {trace.location} • {trace.period}</Badge>
+                )}
+                {renderTrace(trace)}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DecisionTraceDialog;
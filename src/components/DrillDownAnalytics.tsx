@@ -50,6 +50,9 @@ import {
 import RevenueChart from '@/components/charts/RevenueChart';
 import ConversionRatesChart from '@/components/charts/ConversionRatesChart';
 import ClientSourceChart from '@/components/charts/ClientSourceChart';
+import LifetimeValuePanel from '@/components/LifetimeValuePanel';
+import DecisionTraceDialog from '@/components/DecisionTraceDialog';
+import { ClientDecisionTrace, findClientTraces } from '@/utils/decisionTrace';
 import { safeToFixed, safeFormatCurrency, safeFormatDate, daysBetweenDates } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -66,6 +69,7 @@ interface DrillDownAnalyticsProps {
   data: ProcessedTeacherData | null;
   type: 'teacher' | 'studio' | 'location' | 'period' | 'totals';
   metricType?: 'conversion' | 'retention' | 'all';
+  decisionTraces?: ClientDecisionTrace[];
 }
 
 const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
@@ -73,12 +77,14 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
   onClose,
   data,
   type,
-  metricType = 'all'
+  metricType = 'all',
+  decisionTraces
 }) => {
   const [activeTab, setActiveTab] = React.useState('overview');
   const [sortColumn, setSortColumn] = React.useState<string | null>(null);
   const [sortDirection, setSortDirection] = React.useState<'asc' | 'desc'>('asc');
   const [isFullscreen, setIsFullscreen] = React.useState(false);
+  const [traceEmail, setTraceEmail] = React.useState<string | null>(null);
 
   // Use the useEffect hook to update the active tab based on metricType
   React.useEffect(() => {
@@ -189,6 +195,8 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
     }
   };
   
+  const hasTraces = Boolean(decisionTraces && decisionTraces.length > 0);
+
   const renderClientTable = (clients: any[], title: string) => {
     // Sort the data if a sort column is selected
     const sortedClients = sortData(clients);
@@ -311,6 +319,12 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                         Membership Used
                       </div>
                     </TableHead>
+                    <TableHead sortable sortDirection={sortColumn === 'retentionRule' ? sortDirection : undefined} onSort={() => handleSort('retentionRule')} className="text-white font-semibold">
+                      <div className="flex items-center gap-2">
+                        <Target className="h-4 w-4" />
+                        Retention Rule
+                      </div>
+                    </TableHead>
                     <TableHead className="text-white font-semibold">
                       <div className="flex items-center gap-2">
                         <Info className="h-4 w-4" />
@@ -318,6 +332,32 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                       </div>
                     </TableHead>
                   </>}
+                  {title.includes('Retention Rules') && <>
+                    <TableHead sortable sortDirection={sortColumn === 'retained' ? sortDirection : undefined} onSort={() => handleSort('retained')} className="text-white font-semibold">
+                      <div className="flex items-center gap-2">
+                        <Check className="h-4 w-4" />
+                        Status
+                      </div>
+                    </TableHead>
+                    <TableHead sortable sortDirection={sortColumn === 'retentionRule' ? sortDirection : undefined} onSort={() => handleSort('retentionRule')} className="text-white font-semibold">
+                      <div className="flex items-center gap-2">
+                        <Target className="h-4 w-4" />
+                        Rule Applied
+                      </div>
+                    </TableHead>
+                    <TableHead sortable sortDirection={sortColumn === 'visitsPostTrial' ? sortDirection : undefined} onSort={() => handleSort('visitsPostTrial')} className="text-white font-semibold">
+                      <div className="flex items-center gap-2">
+                        <Activity className="h-4 w-4" />
+                        Visits Counted
+                      </div>
+                    </TableHead>
+                    <TableHead className="text-white font-semibold">
+                      <div className="flex items-center gap-2">
+                        <Info className="h-4 w-4" />
+                        Details
+                      </div>
+                    </TableHead>
+                  </>}
                   {title.includes('Excluded') && (
                     <TableHead sortable sortDirection={sortColumn === 'reason' ? sortDirection : undefined} onSort={() => handleSort('reason')} className="text-white font-semibold">
                       <div className="flex items-center gap-2">
@@ -326,6 +366,7 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                       </div>
                     </TableHead>
                   )}
+                  {hasTraces && <TableHead className="text-white font-semibold" />}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -387,6 +428,7 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                         <TableCell className="text-slate-600">{client.visitsPostTrial || client.visitCount || client.totalVisitsPostTrial || '0'}</TableCell>
                         <TableCell className="text-slate-600">{safeFormatDate(client.firstVisitPostTrial || 'N/A')}</TableCell>
                         <TableCell className="text-slate-600">{client.membershipUsed || client.membershipType || 'N/A'}</TableCell>
+                        <TableCell className="text-slate-600">{client.retentionRule || 'N/A'}</TableCell>
                         <TableCell className="max-w-xs">
                           <div className="text-sm text-slate-600 break-words">
                             <div className="font-medium">{client.reason || 'Client returned after initial visit'}</div>
@@ -399,9 +441,27 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                           </div>
                         </TableCell>
                       </>}
+                      {title.includes('Retention Rules') && <>
+                        <TableCell>
+                          <Badge variant={client.retained ? 'default' : 'outline'}>
+                            {client.retained ? 'Retained' : 'Not Retained'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-slate-600">{client.retentionRule || 'N/A'}</TableCell>
+                        <TableCell className="text-slate-600">{client.visitsPostTrial ?? 0}</TableCell>
+                        <TableCell className="max-w-xs text-sm text-slate-600 break-words">{client.retentionReason || 'N/A'}</TableCell>
+                      </>}
                       {title.includes('Excluded') && (
                         <TableCell className="text-red-600 font-medium">{client.reason || 'No reason specified'}</TableCell>
                       )}
+                      {hasTraces && (
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => setTraceEmail(client.email)} disabled={!client.email}>
+                            <Info className="h-3.5 w-3.5 mr-1" />
+                            Why?
+                          </Button>
+                        </TableCell>
+                      )}
                     </TableRow>
                   );
                 })}
@@ -480,7 +540,7 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
         
         <div className="px-6 overflow-auto flex-1">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="pt-4 h-full">
-            <TabsList className="grid grid-cols-5 gap-2 mb-6 bg-slate-100/80 backdrop-blur-sm p-2 rounded-xl">
+            <TabsList className="grid grid-cols-6 gap-2 mb-6 bg-slate-100/80 backdrop-blur-sm p-2 rounded-xl">
               <TabsTrigger value="overview" className="flex items-center gap-2 animate-fade-in data-[state=active]:bg-white data-[state=active]:shadow-md transition-all duration-200" style={{ animationDelay: '100ms' }}>
                 <LayoutDashboard className="h-4 w-4" />
                 <span className="font-medium">Overview</span>
@@ -501,6 +561,10 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                 <BarChartIcon className="h-4 w-4" />
                 <span className="font-medium">Analytics</span>
               </TabsTrigger>
+              <TabsTrigger value="lifetime-value" className="flex items-center gap-2 animate-fade-in data-[state=active]:bg-white data-[state=active]:shadow-md transition-all duration-200" style={{ animationDelay: '600ms' }}>
+                <DollarSign className="h-4 w-4" />
+                <span className="font-medium">Lifetime Value</span>
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="overview" className="space-y-6 h-full overflow-auto">
@@ -684,6 +748,9 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                   
                   {data.retainedClientDetails && data.retainedClientDetails.length > 0 && 
                     renderClientTable(data.retainedClientDetails, "Retained Clients")}
+                  
+                  {data.newClientDetails && data.newClientDetails.some(client => client.retentionRule) && 
+                    renderClientTable(data.newClientDetails, "Retention Rules by Client")}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -835,6 +902,10 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
                 </CardContent>
               </Card>
             </TabsContent>
+            
+            <TabsContent value="lifetime-value" className="space-y-6 h-full overflow-auto">
+              <LifetimeValuePanel clients={data.newClientDetails || []} />
+            </TabsContent>
           </Tabs>
         </div>
         
@@ -844,6 +915,11 @@ const DrillDownAnalytics: React.FC<DrillDownAnalyticsProps> = ({
             Close Analysis
           </Button>
         </DialogFooter>
+        
+        <DecisionTraceDialog
+          traces={traceEmail ? findClientTraces(decisionTraces, traceEmail) : []}
+          onClose={() => setTraceEmail(null)}
+        />
       </DialogContent>
     </Dialog>
   );
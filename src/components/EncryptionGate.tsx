@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Lock, AlertTriangle } from 'lucide-react';
+import {
+  isEncryptionSupported,
+  isUnlocked,
+  unlock,
+  lock,
+  flushPendingWrites,
+  getEncryptionConfig,
+  eraseEncryptedSettings
+} from '@/utils/encryption';
+import { clearAllStorage } from '@/utils/persistentStorage';
+
+interface EncryptionGateProps {
+  children: React.ReactNode;
+}
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Lock and reload, so nothing decrypted stays in memory or on screen. Settings
+// saved just before are written first; their encryption already has the key
+const lockApp = async () => {
+  lock();
+  await flushPendingWrites();
+  window.location.reload();
+};
+
+/**
+ * Shows the app only once saved data can be read: straight away without
+ * encryption, otherwise after the passphrase is entered. Locks again after
+ * the configured time without activity.
+ */
+const EncryptionGate: React.FC<EncryptionGateProps> = ({ children }) => {
+  const [unlocked, setUnlocked] = useState(isUnlocked);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isConfirmingErase, setIsConfirmingErase] = useState(false);
+
+  useEffect(() => {
+    if (!unlocked) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      // Read each time, so a changed setting applies without reloading
+      const minutes = getEncryptionConfig()?.autoLockMinutes || 0;
+      if (minutes > 0) timer = setTimeout(lockApp, minutes * 60 * 1000);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [unlocked]);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (await unlock(passphrase)) {
+        setPassphrase('');
+        setUnlocked(true);
+      } else {
+        setError('Incorrect passphrase');
+      }
+    } catch (e) {
+      console.error('Error unlocking storage:', e);
+      setError('Could not unlock the saved data');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleErase = async () => {
+    await clearAllStorage();
+    eraseEncryptedSettings();
+    window.location.reload();
+  };
+
+  if (unlocked) return <>{children}</>;
+
+  const supported = isEncryptionSupported();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-gray-50 to-white p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-primary" />
+            Studio Analytics is locked
+          </CardTitle>
+          <CardDescription>
+            {supported
+              ? 'Saved client data on this computer is encrypted. Enter the passphrase to continue.'
+              : 'Saved data is encrypted, but this browser cannot decrypt it here. Open the app over HTTPS or from localhost.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {supported && (
+            <>
+              <div className="space-y-1">
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && passphrase && !isUnlocking && handleUnlock()}
+                  placeholder="Passphrase"
+                  autoFocus
+                />
+                {error && <p className="text-xs text-destructive">{error}</p>}
+              </div>
+              <Button className="w-full" onClick={handleUnlock} disabled={!passphrase || isUnlocking}>
+                {isUnlocking ? 'Unlocking…' : 'Unlock'}
+              </Button>
+            </>
+          )}
+
+          <div className="border-t pt-4">
+            {isConfirmingErase ? (
+              <div className="space-y-3">
+                <p className="text-sm text-destructive flex gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                  All workspaces, uploads, results and settings saved in this browser will be deleted. This cannot be undone.
+                </p>
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" size="sm" onClick={() => setIsConfirmingErase(false)}>
+                    Cancel
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={handleErase}>
+                    Erase everything
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <button onClick={() => setIsConfirmingErase(true)} className="text-sm text-muted-foreground hover:underline">
+                Forgot the passphrase? Erase saved data and start over
+              </button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default EncryptionGate;
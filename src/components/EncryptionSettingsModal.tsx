@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lock, LockOpen, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  MIN_PASSPHRASE_LENGTH,
+  isEncryptionEnabled,
+  isEncryptionSupported,
+  getEncryptionConfig,
+  prepareEncryption,
+  activateEncryption,
+  disableEncryption,
+  setAutoLockMinutes,
+  lock,
+  flushPendingWrites
+} from '@/utils/encryption';
+import { resealStorage } from '@/utils/persistentStorage';
+
+interface EncryptionSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+const EncryptionSettingsModal: React.FC<EncryptionSettingsModalProps> = ({ isOpen, onClose }) => {
+  const [enabled, setEnabled] = useState(isEncryptionEnabled);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEnabled(isEncryptionEnabled());
+    setAutoLockMinutesState(getEncryptionConfig()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES);
+    setPassphrase('');
+    setConfirmation('');
+  }, [isOpen]);
+
+  const passphraseError = passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : confirmation.length > 0 && confirmation !== passphrase
+      ? 'The passphrases do not match'
+      : null;
+  const canSavePassphrase = passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmation === passphrase;
+
+  // Turn encryption on, or set a new passphrase when it already is. Saved
+  // data is re-encrypted first; if that fails the old setting stays in use
+  const handleSavePassphrase = async () => {
+    setIsBusy(true);
+    try {
+      const prepared = await prepareEncryption(passphrase, autoLockMinutes);
+      if (!(await resealStorage(prepared.key))) {
+        toast.error(enabled
+          ? 'Could not re-encrypt the saved uploads and results. The passphrase was not changed'
+          : 'Could not encrypt the saved uploads and results. Encryption was not turned on');
+        return;
+      }
+      await activateEncryption(prepared);
+
+      toast.success(enabled ? 'Passphrase changed' : 'Saved data is now encrypted');
+      setEnabled(true);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (error) {
+      console.error('Error enabling encryption:', error);
+      toast.error('Could not encrypt the saved data');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsBusy(true);
+    try {
+      if (!(await resealStorage(null))) {
+        toast.error('Could not decrypt the saved uploads and results. Encryption is still on');
+        return;
+      }
+      disableEncryption();
+      setEnabled(false);
+      toast.success('Encryption turned off. Saved data is stored unencrypted');
+    } catch (error) {
+      console.error('Error disabling encryption:', error);
+      toast.error('Could not turn encryption off');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = Number(value);
+    setAutoLockMinutesState(minutes);
+    if (enabled) setAutoLockMinutes(minutes);
+  };
+
+  // Reloading drops the key and everything decrypted, once settings saved just before are written
+  const handleLockNow = async () => {
+    lock();
+    await flushPendingWrites();
+    window.location.reload();
+  };
+
+  const supported = isEncryptionSupported();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {enabled ? <Lock className="h-5 w-5 text-green-600" /> : <LockOpen className="h-5 w-5 text-muted-foreground" />}
+            Data Security
+          </DialogTitle>
+          <DialogDescription>
+            {enabled
+              ? 'Uploads, results, settings and the AI API key saved in this browser are encrypted. The passphrase is needed each time the app opens.'
+              : 'Uploads with client names, emails and phone numbers, results, settings and the AI API key are saved in this browser unencrypted. Set a passphrase to encrypt them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!supported ? (
+          <p className="text-sm text-destructive">
+            Encryption needs a secure connection. Open the app over HTTPS or from localhost to turn it on.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="encryption-passphrase">{enabled ? 'New passphrase' : 'Passphrase'}</Label>
+              <Input
+                id="encryption-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && canSavePassphrase && !isBusy && handleSavePassphrase()}
+                placeholder="Repeat the passphrase"
+                autoComplete="new-password"
+              />
+              {passphraseError && <p className="text-xs text-destructive">{passphraseError}</p>}
+              {!enabled && (
+                <p className="text-xs text-muted-foreground flex gap-2">
+                  <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5 text-amber-600" />
+                  A forgotten passphrase cannot be recovered; the saved data would have to be erased.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lock when inactive</Label>
+              <Select value={String(autoLockMinutes)} onValueChange={handleAutoLockChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(option => (
+                    <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {enabled ? (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleDisable} disabled={isBusy}>
+                Turn off
+              </Button>
+              <Button variant="outline" onClick={handleLockNow} disabled={isBusy}>
+                Lock now
+              </Button>
+            </div>
+          ) : <span />}
+          {supported && (
+            <Button onClick={handleSavePassphrase} disabled={isBusy || !canSavePassphrase}>
+              {enabled ? 'Change passphrase' : 'Encrypt saved data'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EncryptionSettingsModal;
@@ -3,8 +3,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { MultiSelect } from '@/components/ui/multi-select';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Filter, Users, Building2, Calendar, RefreshCw, Save, Settings } from 'lucide-react';
 import { ProcessedTeacherData } from '@/utils/dataProcessor';
+import { PeriodGranularity, PeriodSettings, DEFAULT_PERIOD_SETTINGS, PERIOD_GRANULARITY_LABELS, sortPeriods } from '@/utils/periods';
+import CustomPeriodsEditor from '@/components/CustomPeriodsEditor';
+import FiscalCalendarEditor from '@/components/FiscalCalendarEditor';
+import { workspaceKey } from '@/utils/workspaces';
+import { secureStorage } from '@/utils/encryption';
 
 interface EnhancedFilterBarProps {
   data: ProcessedTeacherData[];
@@ -19,6 +25,9 @@ interface EnhancedFilterBarProps {
     teacher: string[];
     location: string[];
   }) => void;
+  periodSettings?: PeriodSettings;
+  // Changing the granularity regroups the data, so the owner reprocesses it
+  onPeriodSettingsChange?: (settings: PeriodSettings) => void;
 }
 
 const STORAGE_KEY = 'analytics-filter-preferences';
@@ -27,18 +36,20 @@ const EnhancedFilterBar: React.FC<EnhancedFilterBarProps> = ({
   data, 
   onFilterChange, 
   selectedFilters, 
-  onFilterUpdate 
+  onFilterUpdate,
+  periodSettings = DEFAULT_PERIOD_SETTINGS,
+  onPeriodSettingsChange
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
   // Get unique values for filters with proper null checks
   const uniquePeriods = React.useMemo(() => {
     if (!data || !Array.isArray(data)) return [];
-    return [...new Set(data
+    return sortPeriods([...new Set(data
       .map(item => item && item.period ? item.period : null)
       .filter((period): period is string => period !== null && period.trim() !== '')
-    )].sort();
-  }, [data]);
+    )], periodSettings);
+  }, [data, periodSettings]);
   
   const uniqueTeachers = React.useMemo(() => {
     if (!data || !Array.isArray(data)) return [];
@@ -58,11 +69,12 @@ const EnhancedFilterBar: React.FC<EnhancedFilterBarProps> = ({
 
   // Set default filters on component mount
   useEffect(() => {
-    const savedFilters = localStorage.getItem(STORAGE_KEY);
+    const savedFilters = secureStorage.getItem(workspaceKey(STORAGE_KEY));
     if (savedFilters) {
       try {
         const parsed = JSON.parse(savedFilters);
-        onFilterUpdate(parsed);
+        // Saved periods may come from another granularity and no longer exist
+        onFilterUpdate({ ...parsed, period: (parsed.period || []).filter((period: string) => uniquePeriods.includes(period)) });
       } catch (error) {
         console.error('Error loading saved filters:', error);
         setDefaultFilters();
@@ -120,7 +132,7 @@ const EnhancedFilterBar: React.FC<EnhancedFilterBarProps> = ({
   };
 
   const saveFilters = () => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(selectedFilters));
+    secureStorage.setItem(workspaceKey(STORAGE_KEY), JSON.stringify(selectedFilters));
     // Show success feedback
     const button = document.getElementById('save-filters-btn');
     if (button) {
@@ -226,6 +238,36 @@ const EnhancedFilterBar: React.FC<EnhancedFilterBarProps> = ({
                   {selectedFilters.period?.length || 0} selected
                 </Badge>
               </div>
+              {onPeriodSettingsChange && (
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={periodSettings.granularity}
+                    onValueChange={(value) => onPeriodSettingsChange({ ...periodSettings, granularity: value as PeriodGranularity })}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder="Group by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PERIOD_GRANULARITY_LABELS) as PeriodGranularity[]).map(granularity => (
+                        <SelectItem key={granularity} value={granularity}>
+                          {PERIOD_GRANULARITY_LABELS[granularity]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {periodSettings.granularity === 'custom' ? (
+                    <CustomPeriodsEditor
+                      customPeriods={periodSettings.customPeriods}
+                      onApply={(customPeriods) => onPeriodSettingsChange({ ...periodSettings, customPeriods })}
+                    />
+                  ) : (
+                    <FiscalCalendarEditor
+                      fiscalCalendar={periodSettings.fiscalCalendar}
+                      onApply={(fiscalCalendar) => onPeriodSettingsChange({ ...periodSettings, fiscalCalendar })}
+                    />
+                  )}
+                </div>
+              )}
               <MultiSelect
                 options={uniquePeriods.map(period => ({ label: period, value: period }))}
                 selected={selectedFilters.period || []}
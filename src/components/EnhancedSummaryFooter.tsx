@@ -16,19 +16,23 @@ import {
   MapPin
 } from 'lucide-react';
 import { safeToFixed, safeFormatCurrency } from '@/lib/utils';
+import { PeriodSettings, DEFAULT_PERIOD_SETTINGS, getPeriodStart, getPeriodFiscalYear, describeFiscalCalendar } from '@/utils/periods';
 
 interface EnhancedSummaryFooterProps {
   data: any[];
   title: string;
   type: 'performance' | 'conversion' | 'retention' | 'general';
   additionalMetrics?: Record<string, any>;
+  // Fiscal calendar used for the fiscal-year-to-date totals of period data
+  periodSettings?: PeriodSettings;
 }
 
 const EnhancedSummaryFooter: React.FC<EnhancedSummaryFooterProps> = ({
   data,
   title,
   type,
-  additionalMetrics = {}
+  additionalMetrics = {},
+  periodSettings = DEFAULT_PERIOD_SETTINGS
 }) => {
   if (!data || data.length === 0) {
     return (
@@ -66,7 +70,7 @@ const EnhancedSummaryFooter: React.FC<EnhancedSummaryFooterProps> = ({
           avgRetentionRate,
           avgConversionRate,
           avgRevenuePerClient,
-          topPerformer: data.sort((a, b) => (b.conversionRate || 0) - (a.conversionRate || 0))[0]?.teacherName || 'N/A'
+          topPerformer: [...data].sort((a, b) => (b.conversionRate || 0) - (a.conversionRate || 0))[0]?.teacherName || 'N/A'
         };
 
       case 'conversion':
@@ -112,6 +116,42 @@ const EnhancedSummaryFooter: React.FC<EnhancedSummaryFooterProps> = ({
 
   const metrics = calculateSummaryMetrics();
 
+  // Totals for the latest fiscal year in the data, through its latest period
+  const calculateFiscalYearToDate = () => {
+    if (type !== 'performance') return null;
+
+    // Studio rows repeat the teacher totals and span every period, so only teacher rows count
+    const datedRows = data
+      .filter(item => item && item.period && item.teacherName !== 'All Teachers')
+      .map(item => ({
+        item,
+        start: getPeriodStart(item.period, periodSettings),
+        fiscalYear: getPeriodFiscalYear(item.period, periodSettings)
+      }))
+      .filter(row => row.start && row.fiscalYear);
+    if (datedRows.length === 0) return null;
+
+    const latest = datedRows.reduce((best, row) => (row.start as Date) > (best.start as Date) ? row : best);
+    const rows = datedRows.filter(row => row.fiscalYear === latest.fiscalYear).map(row => row.item);
+    const newClients = rows.reduce((sum, item) => sum + (item.newClients || 0), 0);
+    const retained = rows.reduce((sum, item) => sum + (item.retainedClients || 0), 0);
+    const converted = rows.reduce((sum, item) => sum + (item.convertedClients || 0), 0);
+
+    return {
+      fiscalYear: latest.fiscalYear,
+      throughPeriod: latest.item.period,
+      periodCount: new Set(rows.map(item => item.period)).size,
+      newClients,
+      retained,
+      converted,
+      revenue: rows.reduce((sum, item) => sum + (item.totalRevenue || 0), 0),
+      retentionRate: newClients > 0 ? (retained / newClients) * 100 : 0,
+      conversionRate: newClients > 0 ? (converted / newClients) * 100 : 0
+    };
+  };
+
+  const fiscalYearToDate = calculateFiscalYearToDate();
+
   const getPerformanceIndicator = (value: number, threshold: { good: number; average: number }) => {
     if (value >= threshold.good) {
       return { icon: <TrendingUp className="h-3 w-3" />, color: 'text-green-600', bg: 'bg-green-100', status: 'Excellent' };
@@ -189,6 +229,37 @@ const EnhancedSummaryFooter: React.FC<EnhancedSummaryFooterProps> = ({
     );
   };
 
+  const renderFiscalYearToDate = () => {
+    if (!fiscalYearToDate) return null;
+
+    const stats = [
+      { label: 'New Clients', value: fiscalYearToDate.newClients.toLocaleString() },
+      { label: 'Retained', value: `${fiscalYearToDate.retained.toLocaleString()} (${safeToFixed(fiscalYearToDate.retentionRate, 1)}%)` },
+      { label: 'Converted', value: `${fiscalYearToDate.converted.toLocaleString()} (${safeToFixed(fiscalYearToDate.conversionRate, 1)}%)` },
+      { label: 'Revenue', value: safeFormatCurrency(fiscalYearToDate.revenue) }
+    ];
+
+    return (
+      <div className="mt-6 rounded-xl border border-indigo-200/50 bg-gradient-to-r from-indigo-50 to-blue-50 p-4">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <Calendar className="h-4 w-4 text-indigo-600" />
+          <span className="text-sm font-semibold text-indigo-800">{fiscalYearToDate.fiscalYear} year to date</span>
+          <span className="text-xs text-indigo-600">
+            through {fiscalYearToDate.throughPeriod} • {fiscalYearToDate.periodCount} period{fiscalYearToDate.periodCount === 1 ? '' : 's'} • {describeFiscalCalendar(periodSettings.fiscalCalendar)}
+          </span>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label}>
+              <div className="text-xs font-medium text-indigo-700">{stat.label}</div>
+              <div className="text-lg font-bold text-indigo-900">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const renderConversionSummary = () => {
     const conversionIndicator = getPerformanceIndicator(metrics.conversionRate, { good: 20, average: 10 });
 
@@ -343,6 +414,7 @@ const EnhancedSummaryFooter: React.FC<EnhancedSummaryFooterProps> = ({
         </div>
 
         {renderSummaryContent()}
+        {renderFiscalYearToDate()}
 
         {/* Additional Insights */}
         <div className="mt-6 pt-6 border-t border-white/30">
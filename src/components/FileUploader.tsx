@@ -3,6 +3,11 @@ import { Upload, X, File, FilePlus, FileArchive, Check, Sparkles, TrendingUp, Up
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
+import ColumnMappingWizard from '@/components/ColumnMappingWizard';
+import { MergedImport } from '@/utils/fileMerge';
+import { isSpreadsheetFile } from '@/utils/spreadsheetParser';
+import { FileTypeDetection, DetectedFileType, getFileTypeMap } from '@/utils/fileDetection';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 // Utility function for combining class names
 const cnUtil = (...classes: (string | undefined | null | boolean)[]) => {
@@ -336,8 +341,10 @@ const Particles: React.FC<ParticlesProps> = ({
 
 interface FileUploaderProps {
   onFilesAdded: (files: File[]) => void;
-  onProcessFiles: () => void;
+  onProcessFiles: (mergedImport?: MergedImport) => void;
   files: File[];
+  fileDetections?: Map<File, FileTypeDetection>;
+  onFileTypeChange?: (file: File, fileType: DetectedFileType) => void;
   onRemoveFile: (index: number) => void;
   accept?: string;
   maxFiles?: number;
@@ -356,10 +363,25 @@ interface FileWithPreview {
 
 const COLORS_TOP = ['#13FFAA', '#1E67C6', '#CE84CF', '#DD335C'];
 
+const FILE_TYPE_OPTIONS: { value: DetectedFileType; label: string }[] = [
+  { value: 'new', label: 'New Clients' },
+  { value: 'bookings', label: 'Bookings' },
+  { value: 'payments', label: 'Payments' },
+  { value: 'unknown', label: 'Ignore' },
+];
+
+const getConfidenceClass = (confidence: number) => {
+  if (confidence >= 75) return 'text-green-400';
+  if (confidence >= 40) return 'text-amber-400';
+  return 'text-red-400';
+};
+
 const FileUploader: React.FC<FileUploaderProps> = ({
   onFilesAdded,
   onProcessFiles,
   files,
+  fileDetections,
+  onFileTypeChange,
   onRemoveFile,
   accept = '.csv',
   maxFiles = 10,
@@ -368,6 +390,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({
   const [internalFiles, setInternalFiles] = useState<FileWithPreview[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [colorIndex, setColorIndex] = useState(0);
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+
+  const fileTypes = React.useMemo(
+    () => fileDetections ? getFileTypeMap(fileDetections) : undefined,
+    [fileDetections]
+  );
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -421,19 +449,21 @@ const FileUploader: React.FC<FileUploaderProps> = ({
   };
 
   const handleFiles = (fileList: File[]) => {
-    const csvFiles = fileList.filter(file => file.type === 'text/csv' || file.name.endsWith('.csv'));
+    const dataFiles = fileList.filter(file =>
+      file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv') || isSpreadsheetFile(file)
+    );
     
-    if (csvFiles.length === 0) {
-      toast.error('Please upload CSV files only');
+    if (dataFiles.length === 0) {
+      toast.error('Please upload CSV or spreadsheet (.xlsx, .xls, .ods) files only');
       return;
     }
     
-    if (csvFiles.length > maxFiles) {
+    if (dataFiles.length > maxFiles) {
       toast.error(`You can only upload up to ${maxFiles} files at once`);
       return;
     }
 
-    onFilesAdded(csvFiles);
+    onFilesAdded(dataFiles);
   };
 
   const triggerFileInput = () => {
@@ -446,6 +476,11 @@ const FileUploader: React.FC<FileUploaderProps> = ({
     onRemoveFile(index);
   };
 
+  const handleMappingConfirm = (mergedImport: MergedImport) => {
+    setIsMappingOpen(false);
+    onProcessFiles(mergedImport);
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (!bytes) return '0 Bytes';
     const k = 1024;
@@ -496,7 +531,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({
 
           <p className="mb-12 max-w-3xl text-center text-lg leading-relaxed text-gray-300 md:text-xl md:leading-relaxed">
             Transform your studio data into actionable insights with our powerful analytics engine. 
-            Upload your CSV files and unlock comprehensive performance metrics, teacher comparisons, and growth opportunities.
+            Upload your CSV or Excel files and unlock comprehensive performance metrics, teacher comparisons, and growth opportunities.
           </p>
 
           {/* File Upload Section */}
@@ -538,10 +573,10 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                 <div className="space-y-4">
                   <h3 className="text-3xl font-bold text-white">
                     {isDragging
-                      ? 'Drop CSV files here'
+                      ? 'Drop files here'
                       : internalFiles.length
-                      ? 'Add more CSV files'
-                      : 'Upload your CSV files'}
+                      ? 'Add more files'
+                      : 'Upload your CSV or Excel files'}
                   </h3>
                   <p className="text-gray-300 text-lg max-w-md mx-auto">
                     {isDragging ? (
@@ -551,7 +586,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                       </span>
                     ) : (
                       <>
-                        Drag & drop CSV files here, or{' '}
+                        Drag & drop CSV, XLSX, XLS or ODS files here, or{' '}
                         <span className="text-blue-400 font-medium hover:text-blue-300 transition-colors">browse</span>
                       </>
                     )}
@@ -598,7 +633,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                     
                     {/* Process Files Button */}
                     <Button
-                      onClick={onProcessFiles}
+                      onClick={() => setIsMappingOpen(true)}
                       disabled={internalFiles.length === 0}
                       className="bg-gradient-to-r from-blue-600 to-indigo-700 hover:from-blue-700 hover:to-indigo-800 text-white font-semibold px-6 py-3 rounded-lg shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                     >
@@ -609,57 +644,100 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                 </div>
 
                 <div className="grid gap-4 max-h-96 overflow-y-auto pr-2">
-                  {internalFiles.map((file, index) => (
-                    <div
-                      key={file.id}
-                      className="px-6 py-4 flex items-center gap-4 rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 shadow-lg hover:shadow-xl transition-all duration-300 hover:bg-white/10"
-                      style={{
-                        animationDelay: `${index * 100}ms`,
-                        animation: 'fadeInUp 0.5s ease-out forwards'
-                      }}
-                    >
-                      <div className="relative flex-shrink-0">
-                        <div className="p-3 rounded-xl bg-gradient-to-br from-blue-500/20 to-purple-500/20 border border-blue-400/30">
-                          <File className="w-8 h-8 text-blue-400" />
-                        </div>
-                        {file.progress === 100 && (
-                          <div className="absolute -right-1 -bottom-1 bg-green-500 rounded-full p-1 shadow-lg">
-                            <CheckCircle className="w-4 h-4 text-white" />
+                  {internalFiles.map((file, index) => {
+                    const detection = file.file ? fileDetections?.get(file.file) : undefined;
+                    return (
+                      <div
+                        key={file.id}
+                        className="px-6 py-4 flex items-center gap-4 rounded-2xl bg-white/5 backdrop-blur-xl border border-white/10 shadow-lg hover:shadow-xl transition-all duration-300 hover:bg-white/10"
+                        style={{
+                          animationDelay: `${index * 100}ms`,
+                          animation: 'fadeInUp 0.5s ease-out forwards'
+                        }}
+                      >
+                        <div className="relative flex-shrink-0">
+                          <div className="p-3 rounded-xl bg-gradient-to-br from-blue-500/20 to-purple-500/20 border border-blue-400/30">
+                            <File className="w-8 h-8 text-blue-400" />
                           </div>
-                        )}
-                      </div>
+                          {file.progress === 100 && (
+                            <div className="absolute -right-1 -bottom-1 bg-green-500 rounded-full p-1 shadow-lg">
+                              <CheckCircle className="w-4 h-4 text-white" />
+                            </div>
+                          )}
+                        </div>
 
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between mb-2">
-                          <h4 className="font-semibold text-lg text-white truncate" title={file.name}>
-                            {file.name}
-                          </h4>
-                          <div className="flex items-center gap-3">
-                            <span className="text-sm text-gray-400">
-                              {formatFileSize(file.size)}
-                            </span>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                removeFile(index);
-                              }}
-                              className="p-1 rounded-lg hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors duration-200"
-                              aria-label="Remove file"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="font-semibold text-lg text-white truncate" title={file.name}>
+                              {file.name}
+                            </h4>
+                            <div className="flex items-center gap-3">
+                              <span className="text-sm text-gray-400">
+                                {formatFileSize(file.size)}
+                              </span>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  removeFile(index);
+                                }}
+                                className="p-1 rounded-lg hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors duration-200"
+                                aria-label="Remove file"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
                           </div>
-                        </div>
 
-                        <div className="w-full h-2 bg-gray-700/50 rounded-full overflow-hidden backdrop-blur-sm">
-                          <div
-                            className="h-full rounded-full transition-all duration-500 ease-out bg-gradient-to-r from-green-500 to-emerald-400"
-                            style={{ width: `${file.progress}%` }}
-                          />
+                          {file.file && (
+                            <div className="flex flex-wrap items-center gap-3 mb-2 text-sm">
+                              {detection ? (
+                                <>
+                                  <Select
+                                    value={detection.fileType}
+                                    onValueChange={(value) => onFileTypeChange?.(file.file, value as DetectedFileType)}
+                                  >
+                                    <SelectTrigger
+                                      className="h-8 w-40 bg-white/10 border-white/20 text-white"
+                                      onClick={(e) => e.stopPropagation()}
+                                    >
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {FILE_TYPE_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <span className={getConfidenceClass(detection.confidence)}>
+                                    {detection.method === 'manual'
+                                      ? 'Set manually'
+                                      : `${detection.confidence}% confidence`}
+                                  </span>
+                                  <span className="text-gray-500">
+                                    {detection.method === 'schema' && 'matched saved schema'}
+                                    {detection.method === 'headers' && `${detection.matchedColumns.length} signature columns`}
+                                    {detection.method === 'filename' && 'guessed from filename'}
+                                  </span>
+                                </>
+                              ) : (
+                                <span className="text-gray-400 flex items-center gap-2">
+                                  <Loader className="h-3 w-3 animate-spin" />
+                                  Detecting file type...
+                                </span>
+                              )}
+                            </div>
+                          )}
+
+                          <div className="w-full h-2 bg-gray-700/50 rounded-full overflow-hidden backdrop-blur-sm">
+                            <div
+                              className="h-full rounded-full transition-all duration-500 ease-out bg-gradient-to-r from-green-500 to-emerald-400"
+                              style={{ width: `${file.progress}%` }}
+                            />
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -679,6 +757,14 @@ const FileUploader: React.FC<FileUploaderProps> = ({
         </div>
       </footer>
 
+      <ColumnMappingWizard
+        isOpen={isMappingOpen}
+        files={files}
+        fileTypes={fileTypes}
+        onClose={() => setIsMappingOpen(false)}
+        onConfirm={handleMappingConfirm}
+      />
+
       <style>{`
         @keyframes fadeInUp {
           from {
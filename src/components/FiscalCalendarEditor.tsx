@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarCog } from 'lucide-react';
+import { FiscalCalendar, FiscalPattern, CALENDAR_YEAR, FISCAL_PATTERN_LABELS, MONTH_NAMES, describeFiscalCalendar } from '@/utils/periods';
+
+interface FiscalCalendarEditorProps {
+  fiscalCalendar: FiscalCalendar;
+  onApply: (fiscalCalendar: FiscalCalendar) => void;
+}
+
+const FiscalCalendarEditor: React.FC<FiscalCalendarEditorProps> = ({ fiscalCalendar, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<FiscalCalendar>(fiscalCalendar);
+
+  // Start from the saved calendar each time the editor opens
+  useEffect(() => {
+    if (isOpen) setDraft(fiscalCalendar);
+  }, [isOpen, fiscalCalendar]);
+
+  const handleApply = () => {
+    onApply(draft);
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs whitespace-nowrap">
+          <CalendarCog className="h-3 w-3 mr-1" />
+          {describeFiscalCalendar(fiscalCalendar)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[300px] space-y-3" align="start">
+        <div>
+          <div className="text-sm font-medium">Fiscal calendar</div>
+          <p className="text-xs text-muted-foreground">
+            Fiscal years are named after the year they end in. Week-based calendars start on the Monday nearest the
+            first of the start month and replace months with 12 periods.
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Year starts in</Label>
+          <Select
+            value={String(draft.startMonth)}
+            onValueChange={(value) => setDraft(prev => ({ ...prev, startMonth: Number(value) }))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_NAMES.map((month, index) => (
+                <SelectItem key={month} value={String(index)}>{month}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Periods</Label>
+          <Select
+            value={draft.pattern}
+            onValueChange={(value) => setDraft(prev => ({ ...prev, pattern: value as FiscalPattern }))}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FISCAL_PATTERN_LABELS) as FiscalPattern[]).map(pattern => (
+                <SelectItem key={pattern} value={pattern}>{FISCAL_PATTERN_LABELS[pattern]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex justify-between">
+          <Button variant="outline" size="sm" onClick={() => setDraft(CALENDAR_YEAR)}>
+            Calendar year
+          </Button>
+          <Button size="sm" onClick={handleApply}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FiscalCalendarEditor;
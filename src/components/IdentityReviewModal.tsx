@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Users, Merge, Split, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  IdentityProfile,
+  MergeDecision,
+  MergeSuggestion,
+  buildIdentityProfiles,
+  suggestMerges,
+  getMergeDecisions,
+  saveMergeDecisions,
+} from '@/utils/identityResolution';
+
+interface IdentityReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  newClientData: Record<string, unknown>[];
+  bookingsData: Record<string, unknown>[];
+  paymentsData: Record<string, unknown>[];
+  // Re-run processing with the saved decisions; omitted when there is no data loaded
+  onApply?: () => void;
+}
+
+type ReviewTab = 'pending' | MergeDecision;
+
+const SOURCE_LABELS: Record<IdentityProfile['sources'][number], string> = {
+  new: 'New clients',
+  bookings: 'Bookings',
+  payments: 'Payments',
+};
+
+const ProfileSummary: React.FC<{ profile?: IdentityProfile; email: string }> = ({ profile, email }) => (
+  <div className="flex-1 min-w-0 rounded-md bg-slate-50 p-3">
+    <div className="font-medium truncate">{profile?.displayEmail || email}</div>
+    <div className="text-sm text-muted-foreground truncate">{profile?.names.join(', ') || 'No name recorded'}</div>
+    <div className="flex flex-wrap gap-1 mt-2">
+      {profile?.sources.map(source => (
+        <Badge key={source} variant="outline" className="text-xs">{SOURCE_LABELS[source]}</Badge>
+      ))}
+      <span className="text-xs text-muted-foreground self-center">{profile?.recordCount || 0} records</span>
+    </div>
+  </div>
+);
+
+const IdentityReviewModal: React.FC<IdentityReviewModalProps> = ({
+  isOpen,
+  onClose,
+  newClientData,
+  bookingsData,
+  paymentsData,
+  onApply,
+}) => {
+  const [decisions, setDecisions] = useState<Record<string, MergeDecision>>({});
+  const [activeTab, setActiveTab] = useState<ReviewTab>('pending');
+
+  // Load the saved decisions each time the review opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDecisions(getMergeDecisions());
+    setActiveTab('pending');
+  }, [isOpen]);
+
+  const profiles = useMemo(() => {
+    if (!isOpen) return new Map<string, IdentityProfile>();
+    return buildIdentityProfiles({ newClients: newClientData, bookings: bookingsData, sales: paymentsData });
+  }, [isOpen, newClientData, bookingsData, paymentsData]);
+
+  const suggestions = useMemo(() => suggestMerges(profiles), [profiles]);
+
+  const suggestionsByTab = useMemo(() => {
+    const grouped: Record<ReviewTab, MergeSuggestion[]> = { pending: [], confirmed: [], split: [] };
+    suggestions.forEach(suggestion => grouped[decisions[suggestion.id] || 'pending'].push(suggestion));
+    return grouped;
+  }, [suggestions, decisions]);
+
+  const setDecision = (id: string, decision: MergeDecision | null) => {
+    setDecisions(prev => {
+      const next = { ...prev };
+      if (decision) {
+        next[id] = decision;
+      } else {
+        delete next[id];
+      }
+      return next;
+    });
+  };
+
+  const handleSave = (reprocess: boolean) => {
+    saveMergeDecisions(decisions);
+    toast.success('Client identity decisions saved');
+    onClose();
+
+    if (reprocess && onApply) {
+      onApply();
+    }
+  };
+
+  const renderSuggestions = (tab: ReviewTab) => {
+    const items = suggestionsByTab[tab];
+    if (items.length === 0) {
+      return (
+        <p className="text-sm text-muted-foreground text-center py-10">
+          {tab === 'pending' ? 'No merges waiting for review' : `No ${tab} merges`}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {items.map(suggestion => (
+          <div key={suggestion.id} className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm font-medium">{suggestion.reason}</div>
+              <Badge variant="outline">{Math.round(suggestion.confidence * 100)}% confidence</Badge>
+            </div>
+            <div className="flex gap-3">
+              <ProfileSummary profile={profiles.get(suggestion.emails[0])} email={suggestion.emails[0]} />
+              <ProfileSummary profile={profiles.get(suggestion.emails[1])} email={suggestion.emails[1]} />
+            </div>
+            <div className="flex justify-end gap-2">
+              {tab !== 'pending' && (
+                <Button variant="ghost" size="sm" onClick={() => setDecision(suggestion.id, null)} className="flex items-center gap-2">
+                  <Undo2 className="h-4 w-4" />
+                  Back to review
+                </Button>
+              )}
+              {tab !== 'split' && (
+                <Button variant="outline" size="sm" onClick={() => setDecision(suggestion.id, 'split')} className="flex items-center gap-2">
+                  <Split className="h-4 w-4" />
+                  Keep separate
+                </Button>
+              )}
+              {tab !== 'confirmed' && (
+                <Button size="sm" onClick={() => setDecision(suggestion.id, 'confirmed')} className="flex items-center gap-2">
+                  <Merge className="h-4 w-4" />
+                  Merge
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Client Identities
+          </DialogTitle>
+          <DialogDescription>
+            Emails that differ only in case or spacing are always merged. Review the suggested merges below,
+            found through shared phone numbers and similar names, before they affect the metrics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ReviewTab)} className="flex-1 overflow-hidden flex flex-col">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="pending">To review ({suggestionsByTab.pending.length})</TabsTrigger>
+            <TabsTrigger value="confirmed">Merged ({suggestionsByTab.confirmed.length})</TabsTrigger>
+            <TabsTrigger value="split">Kept separate ({suggestionsByTab.split.length})</TabsTrigger>
+          </TabsList>
+          {(['pending', 'confirmed', 'split'] as ReviewTab[]).map(tab => (
+            <TabsContent key={tab} value={tab} className="flex-1 overflow-hidden">
+              <ScrollArea className="h-[50vh] pr-3">
+                {renderSuggestions(tab)}
+              </ScrollArea>
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <DialogFooter className="pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {onApply && (
+            <Button variant="outline" onClick={() => handleSave(true)}>
+              Save & reprocess
+            </Button>
+          )}
+          <Button onClick={() => handleSave(false)}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IdentityReviewModal;
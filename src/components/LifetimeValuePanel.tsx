@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Gem, DollarSign, Users, ShoppingBag } from 'lucide-react';
+import { safeFormatCurrency } from '@/lib/utils';
+import {
+  LifetimeValueClient,
+  LifetimeValueDimension,
+  LIFETIME_VALUE_DIMENSION_LABELS,
+  summarizeLifetimeValue
+} from '@/utils/lifetimeValue';
+
+interface LifetimeValuePanelProps {
+  clients: LifetimeValueClient[];
+}
+
+const DIMENSIONS: LifetimeValueDimension[] = ['source', 'teacher', 'location', 'cohort'];
+
+const LifetimeValuePanel: React.FC<LifetimeValuePanelProps> = ({ clients }) => {
+  const segmentsByDimension = useMemo(() => {
+    return DIMENSIONS.map(dimension => ({
+      dimension,
+      segments: summarizeLifetimeValue(clients, dimension)
+    }));
+  }, [clients]);
+
+  const totals = useMemo(() => {
+    // Every dimension covers each client once, so any of them gives the overall totals
+    const segments = segmentsByDimension[0]?.segments || [];
+    const clientCount = segments.reduce((sum, segment) => sum + segment.clients, 0);
+    const payingClients = segments.reduce((sum, segment) => sum + segment.payingClients, 0);
+    const totalValue = segments.reduce((sum, segment) => sum + segment.totalValue, 0);
+    return {
+      clientCount,
+      payingClients,
+      totalValue,
+      averageValue: clientCount > 0 ? totalValue / clientCount : 0
+    };
+  }, [segmentsByDimension]);
+
+  return (
+    <Card className="shadow-lg border-white/40 animate-fade-in bg-white/90 backdrop-blur-xl rounded-2xl overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-slate-50/80 to-white/80 border-b border-white/20">
+        <CardTitle className="flex items-center gap-2">
+          <Gem className="h-5 w-5 text-primary" />
+          <span className="bg-gradient-to-r from-slate-700 to-slate-800 bg-clip-text text-transparent">Lifetime Value</span>
+        </CardTitle>
+        <CardDescription className="text-slate-600">
+          Everything these new clients have paid across the full sales history, excluding refunds. Averages are per new client.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 p-6">
+        {clients.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No client details available for this selection</p>
+        ) : (
+          <>
+            <div className="flex space-x-4">
+              <div className="flex-1 p-6 border border-white/40 rounded-xl text-center bg-gradient-to-br from-white/80 to-white/60 shadow-lg">
+                <h3 className="text-lg font-medium flex items-center justify-center gap-2 text-slate-700">
+                  <Gem className="h-5 w-5 text-slate-500" />
+                  Avg. Lifetime Value
+                </h3>
+                <p className="text-4xl font-bold text-primary mt-3">{safeFormatCurrency(totals.averageValue)}</p>
+                <p className="text-sm text-slate-600 mt-2 font-medium">per new client</p>
+              </div>
+              <div className="flex-1 p-6 border border-white/40 rounded-xl text-center bg-gradient-to-br from-white/80 to-white/60 shadow-lg">
+                <h3 className="text-lg font-medium flex items-center justify-center gap-2 text-slate-700">
+                  <DollarSign className="h-5 w-5 text-slate-500" />
+                  Total Lifetime Value
+                </h3>
+                <p className="text-4xl font-bold mt-3 text-slate-800">{safeFormatCurrency(totals.totalValue)}</p>
+                <p className="text-sm text-slate-600 mt-2 font-medium">from {totals.clientCount} new clients</p>
+              </div>
+              <div className="flex-1 p-6 border border-white/40 rounded-xl text-center bg-gradient-to-br from-white/80 to-white/60 shadow-lg">
+                <h3 className="text-lg font-medium flex items-center justify-center gap-2 text-slate-700">
+                  <ShoppingBag className="h-5 w-5 text-slate-500" />
+                  Paying Clients
+                </h3>
+                <p className="text-4xl font-bold mt-3 text-slate-800">{totals.payingClients}</p>
+                <p className="text-sm text-slate-600 mt-2 font-medium">made at least one paid purchase</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {segmentsByDimension.map(({ dimension, segments }) => (
+                <div key={dimension} className="rounded-xl border border-slate-200/60 overflow-hidden">
+                  <div className="flex items-center gap-2 px-4 py-3 bg-slate-50/80 border-b border-slate-200/60">
+                    <Users className="h-4 w-4 text-slate-500" />
+                    <span className="font-medium text-slate-700">By {LIFETIME_VALUE_DIMENSION_LABELS[dimension].toLowerCase()}</span>
+                  </div>
+                  <div className="max-h-72 overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{LIFETIME_VALUE_DIMENSION_LABELS[dimension]}</TableHead>
+                          <TableHead className="text-center">Paying / All</TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                          <TableHead className="text-right">Avg. LTV</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {segments.map(segment => (
+                          <TableRow key={segment.segment}>
+                            <TableCell className="font-medium">{segment.segment}</TableCell>
+                            <TableCell className="text-center">
+                              <Badge variant="outline">{segment.payingClients}/{segment.clients}</Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{safeFormatCurrency(segment.totalValue)}</TableCell>
+                            <TableCell className="text-right font-semibold">{safeFormatCurrency(segment.averageValue)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LifetimeValuePanel;
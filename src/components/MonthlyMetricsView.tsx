@@ -7,15 +7,29 @@ import { ProcessedTeacherData } from '@/utils/dataProcessor';
 import { TrendingUp, Users, Calendar, Target, Award, DollarSign, BarChart3, PieChart, Activity, Zap, Sparkles, Crown, Star } from 'lucide-react';
 import { safeToFixed, safeFormatCurrency } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import EnhancedSummaryFooter from '@/components/EnhancedSummaryFooter';
+import { PeriodGranularity, PeriodSettings, DEFAULT_PERIOD_SETTINGS, sortPeriods } from '@/utils/periods';
 interface MonthlyMetricsViewProps {
   data: ProcessedTeacherData[];
+  periodSettings?: PeriodSettings;
 }
+
+// Headings for the selected period granularity
+const PERIOD_HEADINGS: Record<PeriodGranularity, { title: string; comparison: string }> = {
+  week: { title: 'Weekly Metrics Analysis', comparison: 'Week-on-Week Analysis' },
+  month: { title: 'Monthly Metrics Analysis', comparison: 'Month-on-Month Analysis' },
+  quarter: { title: 'Quarterly Metrics Analysis', comparison: 'Quarter-on-Quarter Analysis' },
+  year: { title: 'Yearly Metrics Analysis', comparison: 'Year-on-Year Analysis' },
+  custom: { title: 'Period Metrics Analysis', comparison: 'Period-on-Period Analysis' }
+};
 const MonthlyMetricsView: React.FC<MonthlyMetricsViewProps> = ({
-  data
+  data,
+  periodSettings = DEFAULT_PERIOD_SETTINGS
 }) => {
   const [selectedMetric, setSelectedMetric] = useState('visits');
+  const headings = PERIOD_HEADINGS[periodSettings.granularity] || PERIOD_HEADINGS.month;
 
-  // Group data by teacher and month with proper null checks
+  // Group data by teacher and period with proper null checks
   const monthlyData = useMemo(() => {
     if (!data || !Array.isArray(data)) {
       return {};
@@ -62,7 +76,7 @@ const MonthlyMetricsView: React.FC<MonthlyMetricsViewProps> = ({
     return grouped;
   }, [data]);
 
-  // Get all unique months sorted with null checks
+  // Get all unique periods in chronological order with null checks
   const allMonths = useMemo(() => {
     const months = new Set<string>();
     if (monthlyData && typeof monthlyData === 'object') {
@@ -74,8 +88,8 @@ const MonthlyMetricsView: React.FC<MonthlyMetricsViewProps> = ({
         }
       });
     }
-    return Array.from(months).sort();
-  }, [monthlyData]);
+    return sortPeriods(Array.from(months), periodSettings);
+  }, [monthlyData, periodSettings]);
 
   // Get all teachers with null checks
   const teachers = useMemo(() => {
@@ -208,7 +222,7 @@ const MonthlyMetricsView: React.FC<MonthlyMetricsViewProps> = ({
                 {selectedMetricConfig.label}
                 <Sparkles className="h-5 w-5 text-blue-400 animate-pulse" />
               </div>
-              <div className="text-sm text-white/80 font-medium">Month-on-Month Analysis</div>
+              <div className="text-sm text-white/80 font-medium">{headings.comparison}</div>
             </div>
             <Badge className="ml-auto bg-white/20 text-white border-white/30 px-4 py-2 font-bold">
               <Crown className="h-4 w-4 mr-2" />
@@ -390,7 +404,7 @@ const MonthlyMetricsView: React.FC<MonthlyMetricsViewProps> = ({
               <BarChart3 className="h-5 w-5 text-primary" />
             </div>
             <span className="bg-gradient-to-r from-slate-700 to-slate-800 bg-clip-text text-transparent font-bold text-xl">
-              Monthly Metrics Analysis
+              {headings.title}
             </span>
             <Sparkles className="h-5 w-5 text-blue-500 animate-pulse" />
           </CardTitle>
@@ -411,6 +425,8 @@ const MonthlyMetricsView: React.FC<MonthlyMetricsViewProps> = ({
 
       {/* Monthly Metrics Table */}
       {renderMetricTable()}
+
+      <EnhancedSummaryFooter data={data} title="Period Performance" type="performance" periodSettings={periodSettings} />
     </div>;
 };
 export default MonthlyMetricsView;
\ No newline at end of file
@@ -1,18 +1,29 @@
-
 import React from 'react';
-import { Loader } from 'lucide-react';
+import { Loader, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
 
 interface ProcessingLoaderProps {
   isProcessing: boolean;
   progress: number;
   currentStep: string;
+  etaSeconds?: number;
+  onCancel?: () => void;
 }
 
+const formatEta = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return remainder > 0 ? `${minutes}m ${remainder}s` : `${minutes}m`;
+};
+
 const ProcessingLoader: React.FC<ProcessingLoaderProps> = ({
   isProcessing,
   progress,
   currentStep,
+  etaSeconds,
+  onCancel,
 }) => {
   if (!isProcessing) return null;
 
@@ -26,13 +37,23 @@ const ProcessingLoader: React.FC<ProcessingLoaderProps> = ({
 
           <div className="w-full mb-2">
             <div className="progress-bar h-2">
-              <div 
-                className="progress-value" 
-                style={{ width: `${progress}%` }} 
+              <div
+                className="progress-value"
+                style={{ width: `${progress}%` }}
               />
             </div>
           </div>
-          <p className="text-sm text-muted-foreground">{progress.toFixed(0)}% Complete</p>
+          <p className="text-sm text-muted-foreground">
+            {progress.toFixed(0)}% Complete
+            {etaSeconds !== undefined && progress < 100 && ` • About ${formatEta(etaSeconds)} remaining`}
+          </p>
+
+          {onCancel && progress < 100 && (
+            <Button variant="outline" size="sm" onClick={onCancel} className="mt-4 flex items-center gap-2">
+              <X className="h-4 w-4" />
+              Cancel
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -5,10 +5,13 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Search, FileText, Filter, AlertTriangle, Calendar, CalendarCheck, Clock, Users, UserCheck, UserPlus, UserX, ArrowUpDown, RefreshCcw, Activity, Sparkles, Crown, Star } from 'lucide-react';
+import { Search, FileText, Filter, AlertTriangle, Calendar, CalendarCheck, Clock, Users, UserCheck, UserPlus, UserX, ArrowUpDown, RefreshCcw, Activity, Sparkles, Crown, Star, GraduationCap, Info } from 'lucide-react';
 import { safeFormatCurrency, safeFormatDate, daysBetweenDates, sortDataByColumn, calculateConversionSpan, calculateRetentionSpan, formatClientName } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TeacherMatchRecord, LOW_CONFIDENCE_THRESHOLD, TEACHER_MATCH_METHOD_LABELS } from '@/utils/teacherAttribution';
+import { ClientDecisionTrace, findClientTraces } from '@/utils/decisionTrace';
+import DecisionTraceDialog from '@/components/DecisionTraceDialog';
 
 interface RawDataProps {
   newClientData: any[];
@@ -20,6 +23,8 @@ interface RawDataProps {
     newClients: any[];
     convertedClients: any[];
     retainedClients: any[];
+    teacherMatches?: TeacherMatchRecord[];
+    traces?: ClientDecisionTrace[];
   };
 }
 
@@ -37,6 +42,7 @@ const RawDataView: React.FC<RawDataProps> = ({
   const [currentTab, setCurrentTab] = useState('processing');
   const [clientRecordTab, setClientRecordTab] = useState('new');
   const [clientSearchTerm, setClientSearchTerm] = useState('');
+  const [traceEmail, setTraceEmail] = useState<string | null>(null);
 
   // Summary counts - using useMemo for performance
   const counts = useMemo(() => {
@@ -179,8 +185,25 @@ const RawDataView: React.FC<RawDataProps> = ({
   };
 
   const uniqueExcludedRecords = useMemo(() => deduplicateByEmail(processingResults.excluded || []), [processingResults.excluded]);
+  const lowConfidenceMatches = useMemo(() => {
+    return (processingResults.teacherMatches || [])
+      .filter(match => match.confidence < LOW_CONFIDENCE_THRESHOLD)
+      .sort((a, b) => a.confidence - b.confidence);
+  }, [processingResults.teacherMatches]);
   const hasProcessingData = useMemo(() => processingResults && (processingResults.included && processingResults.included.length > 0 || processingResults.excluded && processingResults.excluded.length > 0 || processingResults.newClients && processingResults.newClients.length > 0 || processingResults.convertedClients && processingResults.convertedClients.length > 0 || processingResults.retainedClients && processingResults.retainedClients.length > 0), [processingResults]);
 
+  const hasTraces = (processingResults.traces?.length || 0) > 0;
+
+  // Opens the decision trace for the client, when processing recorded one
+  const renderWhyCell = (email: string) => hasTraces && (
+    <TableCell>
+      <Button variant="ghost" size="sm" onClick={() => setTraceEmail(email)} disabled={!email}>
+        <Info className="h-3.5 w-3.5 mr-1" />
+        Why?
+      </Button>
+    </TableCell>
+  );
+
   const filteredClientRecords = useMemo(() => {
     switch (clientRecordTab) {
       case 'new':
@@ -191,10 +214,12 @@ const RawDataView: React.FC<RawDataProps> = ({
         return filterClientRecords(processingResults.retainedClients || []);
       case 'excluded':
         return filterClientRecords(uniqueExcludedRecords || []);
+      case 'teacher':
+        return filterClientRecords(lowConfidenceMatches);
       default:
         return [];
     }
-  }, [clientRecordTab, clientSearchTerm, processingResults, uniqueExcludedRecords]);
+  }, [clientRecordTab, clientSearchTerm, processingResults, uniqueExcludedRecords, lowConfidenceMatches]);
 
   const renderDataTable = (data: any[], type: string) => {
     if (!data || !Array.isArray(data) || data.length === 0) {
@@ -353,7 +378,7 @@ const RawDataView: React.FC<RawDataProps> = ({
         </div>
         
         <Tabs value={clientRecordTab} onValueChange={setClientRecordTab}>
-          <TabsList className="grid grid-cols-4 mb-6 bg-slate-100/80 backdrop-blur-sm p-2 rounded-xl">
+          <TabsList className="grid grid-cols-5 mb-6 bg-slate-100/80 backdrop-blur-sm p-2 rounded-xl">
             <TabsTrigger value="new" className="flex items-center gap-2 data-[state=active]:bg-white data-[state=active]:shadow-md transition-all duration-200 rounded-lg">
               <UserPlus className="h-4 w-4" /> 
               New Clients 
@@ -374,6 +399,11 @@ const RawDataView: React.FC<RawDataProps> = ({
               Excluded 
               <Badge variant="luxury" className="ml-1">{uniqueExcludedRecords?.length || 0}</Badge>
             </TabsTrigger>
+            <TabsTrigger value="teacher" className="flex items-center gap-2 data-[state=active]:bg-white data-[state=active]:shadow-md transition-all duration-200 rounded-lg">
+              <GraduationCap className="h-4 w-4" /> 
+              Teacher Review 
+              <Badge variant="luxury" className="ml-1">{lowConfidenceMatches.length}</Badge>
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="new">
@@ -390,6 +420,7 @@ const RawDataView: React.FC<RawDataProps> = ({
                         <TableHead className="text-white font-semibold">Teacher</TableHead>
                         <TableHead className="text-white font-semibold">Membership Used</TableHead>
                         <TableHead className="text-white font-semibold">Reason</TableHead>
+                        {hasTraces && <TableHead className="text-white font-semibold" />}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -406,10 +437,11 @@ const RawDataView: React.FC<RawDataProps> = ({
                               {client.reason || 'First time visitor'}
                             </Badge>
                           </TableCell>
+                          {renderWhyCell(getClientEmail(client))}
                         </TableRow>
                       )) : (
                         <TableRow>
-                          <TableCell colSpan={7} className="text-center py-4 text-slate-500">
+                          <TableCell colSpan={hasTraces ? 8 : 7} className="text-center py-4 text-slate-500">
                             {clientSearchTerm ? 'No clients matching your search.' : 'No new client records available.'}
                           </TableCell>
                         </TableRow>
@@ -435,6 +467,7 @@ const RawDataView: React.FC<RawDataProps> = ({
                         <TableHead className="text-white font-semibold">Item Purchased</TableHead>
                         <TableHead className="text-white font-semibold">Value</TableHead>
                         <TableHead className="text-white font-semibold">Conversion Span</TableHead>
+                        {hasTraces && <TableHead className="text-white font-semibold" />}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -456,11 +489,12 @@ const RawDataView: React.FC<RawDataProps> = ({
                                 {conversionSpan}
                               </Badge>
                             </TableCell>
+                            {renderWhyCell(getClientEmail(client))}
                           </TableRow>
                         );
                       }) : (
                         <TableRow>
-                          <TableCell colSpan={7} className="text-center py-4 text-slate-500">
+                          <TableCell colSpan={hasTraces ? 8 : 7} className="text-center py-4 text-slate-500">
                             {clientSearchTerm ? 'No clients matching your search.' : 'No converted client records available.'}
                           </TableCell>
                         </TableRow>
@@ -486,6 +520,7 @@ const RawDataView: React.FC<RawDataProps> = ({
                         <TableHead className="text-white font-semibold">Total Visits</TableHead>
                         <TableHead className="text-white font-semibold">Studio/Location</TableHead>
                         <TableHead className="text-white font-semibold">Retention Span</TableHead>
+                        {hasTraces && <TableHead className="text-white font-semibold" />}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -507,11 +542,12 @@ const RawDataView: React.FC<RawDataProps> = ({
                                 {retentionSpan}
                               </Badge>
                             </TableCell>
+                            {renderWhyCell(getClientEmail(client))}
                           </TableRow>
                         );
                       }) : (
                         <TableRow>
-                          <TableCell colSpan={7} className="text-center py-4 text-slate-500">
+                          <TableCell colSpan={hasTraces ? 8 : 7} className="text-center py-4 text-slate-500">
                             {clientSearchTerm ? 'No clients matching your search.' : 'No retained client records available.'}
                           </TableCell>
                         </TableRow>
@@ -536,6 +572,7 @@ const RawDataView: React.FC<RawDataProps> = ({
                         <TableHead className="text-white font-semibold">Studio/Location</TableHead>
                         <TableHead className="text-white font-semibold">Membership Used</TableHead>
                         <TableHead className="text-white font-semibold">Reason for Exclusion</TableHead>
+                        {hasTraces && <TableHead className="text-white font-semibold" />}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -552,10 +589,11 @@ const RawDataView: React.FC<RawDataProps> = ({
                               {client.reason || 'Unknown reason'}
                             </Badge>
                           </TableCell>
+                          {renderWhyCell(getClientEmail(client))}
                         </TableRow>
                       )) : (
                         <TableRow>
-                          <TableCell colSpan={6} className="text-center py-4 text-slate-500">
+                          <TableCell colSpan={hasTraces ? 7 : 6} className="text-center py-4 text-slate-500">
                             {clientSearchTerm ? 'No clients matching your search.' : 'No excluded client records available.'}
                           </TableCell>
                         </TableRow>
@@ -566,6 +604,69 @@ const RawDataView: React.FC<RawDataProps> = ({
               </CardContent>
             </Card>
           </TabsContent>
+          
+          <TabsContent value="teacher">
+            <Card className="bg-white/95 backdrop-blur-xl border border-white/20 shadow-lg rounded-2xl overflow-hidden">
+              <CardHeader className="py-3">
+                <CardDescription>
+                  Clients whose teacher was attributed with less than {Math.round(LOW_CONFIDENCE_THRESHOLD * 100)}% confidence, lowest first
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ScrollArea className="h-[320px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 border-b border-white/20">
+                        <TableHead className="text-white font-semibold">Client</TableHead>
+                        <TableHead className="text-white font-semibold">First Visit</TableHead>
+                        <TableHead className="text-white font-semibold">Matched Booking</TableHead>
+                        <TableHead className="text-white font-semibold">Teacher</TableHead>
+                        <TableHead className="text-white font-semibold">Method</TableHead>
+                        <TableHead className="text-white font-semibold">Confidence</TableHead>
+                        {hasTraces && <TableHead className="text-white font-semibold" />}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredClientRecords.length > 0 ? filteredClientRecords.map((match: TeacherMatchRecord, index) => (
+                        <TableRow key={index} className="animate-fade-in hover:bg-slate-50/80 transition-colors border-b border-slate-100/50">
+                          <TableCell>
+                            <div className="font-medium text-slate-800">{formatClientName(match)}</div>
+                            <div className="text-xs text-slate-500">{match.email}</div>
+                          </TableCell>
+                          <TableCell className="text-slate-600">
+                            <div>{match.firstVisit || 'N/A'}</div>
+                            <div className="text-xs text-slate-500">{safeFormatDate(match.firstVisitAt, 'medium')} • {match.firstVisitLocation}</div>
+                          </TableCell>
+                          <TableCell className="text-slate-600">
+                            {match.matchedClass ? (
+                              <>
+                                <div>{match.matchedClass}</div>
+                                <div className="text-xs text-slate-500">{safeFormatDate(match.matchedDate, 'medium')} • {match.matchedLocation}</div>
+                              </>
+                            ) : 'N/A'}
+                          </TableCell>
+                          <TableCell className="font-medium text-slate-800">{match.teacher}</TableCell>
+                          <TableCell className="text-slate-600">{TEACHER_MATCH_METHOD_LABELS[match.method]}</TableCell>
+                          <TableCell>
+                            <Badge variant={match.confidence === 0 ? 'excluded' : 'outline'} className="shadow-sm">
+                              {Math.round(match.confidence * 100)}%
+                            </Badge>
+                          </TableCell>
+                          {renderWhyCell(match.email)}
+                        </TableRow>
+                      )) : (
+                        <TableRow>
+                          <TableCell colSpan={hasTraces ? 7 : 6} className="text-center py-4 text-slate-500">
+                            {clientSearchTerm ? 'No clients matching your search.' : 'No low-confidence teacher matches.'}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     );
@@ -705,6 +806,11 @@ const RawDataView: React.FC<RawDataProps> = ({
           {renderDataTable(paymentsData || [], 'Payments')}
         </TabsContent>
       </Tabs>
+      
+      <DecisionTraceDialog
+        traces={traceEmail ? findClientTraces(processingResults.traces, traceEmail) : []}
+        onClose={() => setTraceEmail(null)}
+      />
     </div>
   );
 };
@@ -17,6 +17,9 @@ import RevenueChart from './charts/RevenueChart';
 import ConversionRatesChart from './charts/ConversionRatesChart';
 import ClientSourceChart from './charts/ClientSourceChart';
 import TableViewOptions from './TableViewOptions';
+import { ClientDecisionTrace } from '@/utils/decisionTrace';
+import { AttributionModel, ATTRIBUTION_MODELS, ATTRIBUTION_MODEL_LABELS, ATTRIBUTION_MODEL_DESCRIPTIONS, formatAttributedCount } from '@/utils/attributionModels';
+import { RevenueFigure, REVENUE_FIGURES, REVENUE_FIGURE_LABELS, REVENUE_FIGURE_DESCRIPTIONS, getRevenueFigure, sumRowRevenue } from '@/utils/revenueModel';
 
 interface ResultsTableProps {
   data: ProcessedTeacherData[];
@@ -25,6 +28,9 @@ interface ResultsTableProps {
   viewMode: 'table' | 'cards' | 'detailed';
   dataMode: 'teacher' | 'studio';
   onFilterChange: (filters: any) => void;
+  attributionModel?: AttributionModel;
+  onAttributionModelChange?: (model: AttributionModel) => void;
+  decisionTraces?: ClientDecisionTrace[];
 }
 
 const ResultsTable: React.FC<ResultsTableProps> = ({
@@ -33,7 +39,10 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
   isLoading,
   viewMode,
   dataMode,
-  onFilterChange
+  onFilterChange,
+  attributionModel = 'first-touch',
+  onAttributionModelChange,
+  decisionTraces
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedLocation, setSelectedLocation] = useState('');
@@ -53,6 +62,11 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
   ]);
   const [groupBy, setGroupBy] = useState<string>('none');
   const [activeView, setActiveView] = useState('table');
+  // Which revenue figure the revenue column, footer and summary card show
+  const [revenueFigure, setRevenueFigure] = useState<RevenueFigure>('gross');
+  const getRowRevenue = useCallback((row: ProcessedTeacherData) => {
+    return getRevenueFigure(row.revenueBreakdown, revenueFigure, row.totalRevenue);
+  }, [revenueFigure]);
 
   // Filter out "All Trainers" rows from the data
   const filteredData = useMemo(() => {
@@ -86,8 +100,8 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
     // Sort data
     if (sortColumn) {
       filtered.sort((a, b) => {
-        const aValue = a[sortColumn as keyof ProcessedTeacherData] as number;
-        const bValue = b[sortColumn as keyof ProcessedTeacherData] as number;
+        const aValue = sortColumn === 'totalRevenue' ? getRowRevenue(a) : a[sortColumn as keyof ProcessedTeacherData] as number;
+        const bValue = sortColumn === 'totalRevenue' ? getRowRevenue(b) : b[sortColumn as keyof ProcessedTeacherData] as number;
         if (typeof aValue === 'number' && typeof bValue === 'number') {
           return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
         }
@@ -97,7 +111,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
       });
     }
     return filtered;
-  }, [filteredData, searchTerm, selectedLocation, selectedTeacher, selectedPeriod, sortColumn, sortDirection]);
+  }, [filteredData, searchTerm, selectedLocation, selectedTeacher, selectedPeriod, sortColumn, sortDirection, getRowRevenue]);
 
   // Group data if needed
   const groupedData = useMemo(() => {
@@ -118,12 +132,16 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
         retainedClients: items.reduce((sum, item) => sum + item.retainedClients, 0),
         convertedClients: items.reduce((sum, item) => sum + item.convertedClients, 0),
         totalRevenue: items.reduce((sum, item) => sum + item.totalRevenue, 0),
+        revenueBreakdown: sumRowRevenue(items),
         trials: items.reduce((sum, item) => sum + (item.trials || 0), 0),
         referrals: items.reduce((sum, item) => sum + (item.referrals || 0), 0),
         hosted: items.reduce((sum, item) => sum + (item.hosted || 0), 0),
         influencerSignups: items.reduce((sum, item) => sum + (item.influencerSignups || 0), 0),
         others: items.reduce((sum, item) => sum + (item.others || 0), 0),
         averageRevenuePerClient: items.reduce((sum, item) => sum + (item.averageRevenuePerClient || 0), 0) / items.length,
+        lifetimeValue: items.reduce((sum, item) => sum + (item.lifetimeValue || 0), 0),
+        averageLifetimeValue: items.reduce((sum, item) => sum + item.newClients, 0) > 0 ?
+          items.reduce((sum, item) => sum + (item.lifetimeValue || 0), 0) / items.reduce((sum, item) => sum + item.newClients, 0) : 0,
         noShowRate: items.reduce((sum, item) => sum + (item.noShowRate || 0), 0) / items.length,
         lateCancellationRate: items.reduce((sum, item) => sum + (item.lateCancellationRate || 0), 0) / items.length,
         retentionRate: items.reduce((sum, item) => sum + item.newClients, 0) > 0 ? 
@@ -154,6 +172,8 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
     const totalHosted = filteredAndSortedData.reduce((sum, item) => sum + (item.hosted || 0), 0);
     const totalInfluencerSignups = filteredAndSortedData.reduce((sum, item) => sum + (item.influencerSignups || 0), 0);
     const totalOthers = filteredAndSortedData.reduce((sum, item) => sum + (item.others || 0), 0);
+    const totalLifetimeValue = filteredAndSortedData.reduce((sum, item) => sum + (item.lifetimeValue || 0), 0);
+    const revenueBreakdown = sumRowRevenue(filteredAndSortedData);
     
     return {
       totalNewClients,
@@ -166,9 +186,12 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
       totalHosted,
       totalInfluencerSignups,
       totalOthers,
+      totalLifetimeValue,
+      revenueBreakdown,
       avgRetentionRate: totalNewClients > 0 ? totalRetained / totalNewClients * 100 : 0,
       avgConversionRate: totalNewClients > 0 ? totalConverted / totalNewClients * 100 : 0,
       avgRevenuePerClient: totalConverted > 0 ? totalRevenue / totalConverted : 0,
+      avgLifetimeValue: totalNewClients > 0 ? totalLifetimeValue / totalNewClients : 0,
       avgNoShowRate: totalNewClients > 0 ? totalNoShows / totalNewClients * 100 : 0,
       avgLateCancellationRate: filteredAndSortedData.length > 0 ? 
         filteredAndSortedData.reduce((sum, item) => sum + (item.lateCancellationRate || 0), 0) / filteredAndSortedData.length : 0
@@ -251,7 +274,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
     'teacherName', 'location', 'period', 'newClients', 'retainedClients', 
     'retentionRate', 'convertedClients', 'conversionRate', 'totalRevenue',
     'trials', 'referrals', 'hosted', 'influencerSignups', 'others',
-    'averageRevenuePerClient', 'noShowRate', 'lateCancellationRate'
+    'averageRevenuePerClient', 'averageLifetimeValue', 'noShowRate', 'lateCancellationRate'
   ];
 
   if (isLoading) {
@@ -266,7 +289,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
         <PerformanceMetricCard title="Total New Clients" value={summaryMetrics.totalNewClients.toLocaleString()} icon={<Users className="h-5 w-5" />} status="neutral" tooltip="Total number of new clients across all filtered data" />
         <PerformanceMetricCard title="Avg Retention Rate" value={`${safeToFixed(summaryMetrics.avgRetentionRate, 1)}%`} icon={<TrendingUp className="h-5 w-5" />} status={summaryMetrics.avgRetentionRate >= 50 ? "positive" : summaryMetrics.avgRetentionRate >= 30 ? "neutral" : "negative"} tooltip="Average retention rate across all filtered data" />
         <PerformanceMetricCard title="Avg Conversion Rate" value={`${safeToFixed(summaryMetrics.avgConversionRate, 1)}%`} icon={<Target className="h-5 w-5" />} status={summaryMetrics.avgConversionRate >= 15 ? "positive" : summaryMetrics.avgConversionRate >= 8 ? "neutral" : "negative"} tooltip="Average conversion rate across all filtered data" />
-        <PerformanceMetricCard title="Total Revenue" value={safeFormatCurrency(summaryMetrics.totalRevenue)} icon={<DollarSign className="h-5 w-5" />} status="positive" tooltip="Total revenue generated across all filtered data" />
+        <PerformanceMetricCard title={REVENUE_FIGURE_LABELS[revenueFigure]} value={safeFormatCurrency(getRevenueFigure(summaryMetrics.revenueBreakdown, revenueFigure))} icon={<DollarSign className="h-5 w-5" />} status="positive" tooltip={`${REVENUE_FIGURE_DESCRIPTIONS[revenueFigure]}, across all filtered data`} />
       </div>
 
       {/* Table View Options */}
@@ -347,10 +370,32 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
               </div>
               <span className="font-bold text-white text-4xl">Performance Analytics</span>
             </div>
-            <Badge className="bg-white/20 text-white border-white/30 px-4 py-2 font-semibold">
-              <Activity className="h-4 w-4 mr-2" />
-              {filteredAndSortedData.length} records
-            </Badge>
+            <div className="flex items-center gap-3">
+              {onAttributionModelChange && <Select value={attributionModel} onValueChange={value => onAttributionModelChange(value as AttributionModel)}>
+                  <SelectTrigger className="w-[200px] bg-white/20 text-white border-white/30 rounded-xl" title={ATTRIBUTION_MODEL_DESCRIPTIONS[attributionModel]}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ATTRIBUTION_MODELS.map(model => <SelectItem key={model} value={model} title={ATTRIBUTION_MODEL_DESCRIPTIONS[model]}>
+                        {ATTRIBUTION_MODEL_LABELS[model]} attribution
+                      </SelectItem>)}
+                  </SelectContent>
+                </Select>}
+              <Select value={revenueFigure} onValueChange={value => setRevenueFigure(value as RevenueFigure)}>
+                <SelectTrigger className="w-[180px] bg-white/20 text-white border-white/30 rounded-xl" title={REVENUE_FIGURE_DESCRIPTIONS[revenueFigure]}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REVENUE_FIGURES.map(figure => <SelectItem key={figure} value={figure} title={REVENUE_FIGURE_DESCRIPTIONS[figure]}>
+                      {REVENUE_FIGURE_LABELS[figure]}
+                    </SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Badge className="bg-white/20 text-white border-white/30 px-4 py-2 font-semibold">
+                <Activity className="h-4 w-4 mr-2" />
+                {filteredAndSortedData.length} records
+              </Badge>
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent className="p-0">
@@ -409,7 +454,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
                   {visibleColumns.includes('totalRevenue') && <TableHead sortable sortDirection={sortColumn === 'totalRevenue' ? sortDirection : undefined} onSort={() => handleSort('totalRevenue')} className="text-white font-semibold text-right">
                       <div className="flex items-center justify-end gap-2">
                         <DollarSign className="h-4 w-4" />
-                        Total Revenue
+                        {REVENUE_FIGURE_LABELS[revenueFigure]}
                       </div>
                     </TableHead>}
                   {visibleColumns.includes('trials') && <TableHead sortable sortDirection={sortColumn === 'trials' ? sortDirection : undefined} onSort={() => handleSort('trials')} className="text-white font-semibold text-center">
@@ -448,6 +493,12 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
                         Avg Revenue/Client
                       </div>
                     </TableHead>}
+                  {visibleColumns.includes('averageLifetimeValue') && <TableHead sortable sortDirection={sortColumn === 'averageLifetimeValue' ? sortDirection : undefined} onSort={() => handleSort('averageLifetimeValue')} className="text-white font-semibold text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <DollarSign className="h-4 w-4" />
+                        Avg Lifetime Value
+                      </div>
+                    </TableHead>}
                   {visibleColumns.includes('noShowRate') && <TableHead sortable sortDirection={sortColumn === 'noShowRate' ? sortDirection : undefined} onSort={() => handleSort('noShowRate')} className="text-white font-semibold text-center">
                       <div className="flex items-center justify-center gap-2">
                         <TrendingDown className="h-4 w-4" />
@@ -499,14 +550,14 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
                         </TableCell>}
                       {visibleColumns.includes('convertedClients') && <TableCell className="text-center">
                           <Badge className="bg-purple-100 text-purple-800 border-purple-200 font-semibold px-3 py-1 rounded-lg">
-                            {row.convertedClients}
+                            {formatAttributedCount(row.convertedClients)}
                           </Badge>
                         </TableCell>}
                       {visibleColumns.includes('conversionRate') && <TableCell className="text-center">
                           {getConversionBadge(row.conversionRate)}
                         </TableCell>}
                       {visibleColumns.includes('totalRevenue') && <TableCell className="text-right font-semibold text-slate-800">
-                          {safeFormatCurrency(row.totalRevenue)}
+                          {safeFormatCurrency(getRowRevenue(row))}
                         </TableCell>}
                       {visibleColumns.includes('trials') && <TableCell className="text-center font-medium text-slate-800">
                           {row.trials || 0}
@@ -526,6 +577,9 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
                       {visibleColumns.includes('averageRevenuePerClient') && <TableCell className="text-right font-semibold text-slate-800">
                           {safeFormatCurrency(row.averageRevenuePerClient)}
                         </TableCell>}
+                      {visibleColumns.includes('averageLifetimeValue') && <TableCell className="text-right font-semibold text-slate-800">
+                          {safeFormatCurrency(row.averageLifetimeValue || 0)}
+                        </TableCell>}
                       {visibleColumns.includes('noShowRate') && <TableCell className="text-center">
                           <Badge className={`${(row.noShowRate || 0) > 10 ? 'bg-red-100 text-red-800 border-red-200' : 'bg-green-100 text-green-800 border-green-200'} font-semibold px-3 py-1 rounded-lg`}>
                             {safeToFixed(row.noShowRate || 0, 1)}%
@@ -564,6 +618,9 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
                     conversionRate: summaryMetrics.avgConversionRate,
                     totalRevenue: summaryMetrics.totalRevenue,
                     averageRevenuePerClient: summaryMetrics.avgRevenuePerClient,
+                    revenueBreakdown: summaryMetrics.revenueBreakdown,
+                    lifetimeValue: summaryMetrics.totalLifetimeValue,
+                    averageLifetimeValue: summaryMetrics.avgLifetimeValue,
                     trials: summaryMetrics.totalTrials,
                     referrals: summaryMetrics.totalReferrals,
                     hosted: summaryMetrics.totalHosted,
@@ -598,15 +655,16 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
                   {visibleColumns.includes('newClients') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalNewClients}</TableCell>}
                   {visibleColumns.includes('retainedClients') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalRetained}</TableCell>}
                   {visibleColumns.includes('retentionRate') && <TableCell className="text-center font-bold text-white">{safeToFixed(summaryMetrics.avgRetentionRate, 1)}%</TableCell>}
-                  {visibleColumns.includes('convertedClients') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalConverted}</TableCell>}
+                  {visibleColumns.includes('convertedClients') && <TableCell className="text-center font-bold text-white">{formatAttributedCount(summaryMetrics.totalConverted)}</TableCell>}
                   {visibleColumns.includes('conversionRate') && <TableCell className="text-center font-bold text-white">{safeToFixed(summaryMetrics.avgConversionRate, 1)}%</TableCell>}
-                  {visibleColumns.includes('totalRevenue') && <TableCell className="text-right font-bold text-white">{safeFormatCurrency(summaryMetrics.totalRevenue)}</TableCell>}
+                  {visibleColumns.includes('totalRevenue') && <TableCell className="text-right font-bold text-white">{safeFormatCurrency(getRevenueFigure(summaryMetrics.revenueBreakdown, revenueFigure))}</TableCell>}
                   {visibleColumns.includes('trials') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalTrials}</TableCell>}
                   {visibleColumns.includes('referrals') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalReferrals}</TableCell>}
                   {visibleColumns.includes('hosted') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalHosted}</TableCell>}
                   {visibleColumns.includes('influencerSignups') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalInfluencerSignups}</TableCell>}
                   {visibleColumns.includes('others') && <TableCell className="text-center font-bold text-white">{summaryMetrics.totalOthers}</TableCell>}
                   {visibleColumns.includes('averageRevenuePerClient') && <TableCell className="text-right font-bold text-white">{safeFormatCurrency(summaryMetrics.avgRevenuePerClient)}</TableCell>}
+                  {visibleColumns.includes('averageLifetimeValue') && <TableCell className="text-right font-bold text-white">{safeFormatCurrency(summaryMetrics.avgLifetimeValue)}</TableCell>}
                   {visibleColumns.includes('noShowRate') && <TableCell className="text-center font-bold text-white">{safeToFixed(summaryMetrics.avgNoShowRate, 1)}%</TableCell>}
                   {visibleColumns.includes('lateCancellationRate') && <TableCell className="text-center font-bold text-white">{safeToFixed(summaryMetrics.avgLateCancellationRate, 1)}%</TableCell>}
                   <TableCell className="text-center font-bold text-white">
@@ -635,7 +693,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({
       </Card>
 
       {/* Drill Down Modal */}
-      <DrillDownAnalytics isOpen={isDrillDownOpen} onClose={() => setIsDrillDownOpen(false)} data={drillDownData} type={drillDownType} metricType={drillDownMetricType} />
+      <DrillDownAnalytics isOpen={isDrillDownOpen} onClose={() => setIsDrillDownOpen(false)} data={drillDownData} type={drillDownType} metricType={drillDownMetricType} decisionTraces={decisionTraces} />
     </div>;
 };
 
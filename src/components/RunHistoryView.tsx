@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { History, ArrowRight } from 'lucide-react';
+import { safeToFixed, safeFormatCurrency } from '@/lib/utils';
+import { ATTRIBUTION_MODEL_LABELS } from '@/utils/attributionModels';
+import {
+  ProcessingRun,
+  RunMetric,
+  ClientChangeField,
+  CLIENT_CHANGE_LABELS,
+  RUN_METRIC_LABELS,
+  diffRuns
+} from '@/utils/runHistory';
+
+interface RunHistoryViewProps {
+  // Newest first; null while the history is loading
+  runs: ProcessingRun[] | null;
+}
+
+type DiffTab = 'clients' | 'teachers';
+
+// Rows shown per table; the counts above cover everything
+const MAX_ROWS = 300;
+
+const RATE_METRICS: RunMetric[] = ['retentionRate', 'conversionRate', 'noShowRate', 'lateCancellationRate'];
+const REVENUE_METRICS: RunMetric[] = ['totalRevenue', 'averageRevenuePerClient'];
+
+const formatMetric = (metric: RunMetric, value: number): string => {
+  if (RATE_METRICS.includes(metric)) return `${safeToFixed(value, 1)}%`;
+  if (REVENUE_METRICS.includes(metric)) return safeFormatCurrency(value);
+  return String(Math.round(value * 100) / 100);
+};
+
+const formatDelta = (metric: RunMetric, from: number, to: number): string => {
+  const delta = to - from;
+  const sign = delta > 0 ? '+' : '−';
+  return `${sign}${formatMetric(metric, Math.abs(delta))}`;
+};
+
+const getRunLabel = (run: ProcessingRun): string => {
+  const when = new Date(run.completedAt).toLocaleString();
+  return `${when} · ${run.trigger === 'upload' ? 'New upload' : 'Reprocessed'} · rules v${run.rulesVersion}`;
+};
+
+const TEACHER_STATUS_STYLES: Record<'added' | 'removed' | 'changed', string> = {
+  added: 'bg-green-100 text-green-800 border-green-200',
+  removed: 'bg-red-100 text-red-800 border-red-200',
+  changed: 'bg-slate-100 text-slate-700 border-slate-200',
+};
+
+const RunHistoryView: React.FC<RunHistoryViewProps> = ({ runs }) => {
+  const [baseRunId, setBaseRunId] = useState<string | null>(null);
+  const [compareRunId, setCompareRunId] = useState<string | null>(null);
+  const [diffTab, setDiffTab] = useState<DiffTab>('clients');
+  const [changeFilter, setChangeFilter] = useState<ClientChangeField | 'all'>('all');
+
+  // Compare the two latest runs unless others are picked
+  const baseRun = runs?.find(run => run.id === baseRunId) || runs?.[1];
+  const compareRun = runs?.find(run => run.id === compareRunId) || runs?.[0];
+
+  const diff = useMemo(() => {
+    if (!baseRun || !compareRun) return null;
+    return diffRuns(baseRun, compareRun);
+  }, [baseRun, compareRun]);
+
+  const visibleClientChanges = useMemo(() => {
+    if (!diff) return [];
+    if (changeFilter === 'all') return diff.clientChanges;
+    return diff.clientChanges.filter(change => change.changes.some(item => item.field === changeFilter));
+  }, [diff, changeFilter]);
+
+  const renderRunSelect = (value: ProcessingRun | undefined, onChange: (id: string) => void) => (
+    <Select value={value?.id} onValueChange={onChange}>
+      <SelectTrigger className="w-[340px] bg-white">
+        <SelectValue placeholder="Choose a run" />
+      </SelectTrigger>
+      <SelectContent>
+        {runs?.map(run => (
+          <SelectItem key={run.id} value={run.id}>{getRunLabel(run)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (!runs || runs.length < 2) {
+    return (
+      <Card className="bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-2xl">
+        <CardContent className="p-8 text-center">
+          <p className="text-muted-foreground">
+            {!runs
+              ? 'Loading run history…'
+              : 'Runs are recorded each time files are processed or reprocessed. Change a rule or upload corrected files and reprocess to compare two runs.'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-xl border border-white/20 shadow-2xl rounded-2xl overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-slate-50/80 to-white/80 border-b border-white/20 space-y-4">
+        <CardTitle className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-gradient-to-br from-blue-500/20 to-indigo-500/20 border border-blue-400/30">
+            <History className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <span className="bg-gradient-to-r from-slate-700 to-slate-800 bg-clip-text text-transparent font-bold text-xl">
+              Run History
+            </span>
+            <p className="text-xs font-normal text-muted-foreground">
+              What moved between two processing runs of this workspace: client outcomes and each teacher's metrics.
+            </p>
+          </div>
+        </CardTitle>
+        <div className="flex flex-wrap items-center gap-3">
+          {renderRunSelect(baseRun, setBaseRunId)}
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          {renderRunSelect(compareRun, setCompareRunId)}
+        </div>
+        {baseRun && compareRun && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-muted-foreground">
+            {[baseRun, compareRun].map((run, index) => (
+              <div key={index}>
+                {index === 0 ? 'Before' : 'After'}: {run.rowCounts.new} new client rows, {run.rowCounts.bookings} bookings,{' '}
+                {run.rowCounts.payments} payments · {ATTRIBUTION_MODEL_LABELS[run.attributionModel] || run.attributionModel} attribution
+              </div>
+            ))}
+          </div>
+        )}
+        {diff && (
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(CLIENT_CHANGE_LABELS) as ClientChangeField[]).map(field => (
+              <Badge key={field} variant="outline">
+                {CLIENT_CHANGE_LABELS[field]}: {diff.changeCounts[field]}
+              </Badge>
+            ))}
+            <Badge variant="outline">Teacher rows changed: {diff.teacherChanges.length}</Badge>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {baseRun?.id === compareRun?.id ? (
+          <p className="text-sm text-muted-foreground text-center py-10">Choose two different runs to compare</p>
+        ) : diff && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <Tabs value={diffTab} onValueChange={(value) => setDiffTab(value as DiffTab)}>
+                <TabsList>
+                  <TabsTrigger value="clients">Clients ({diff.clientChanges.length})</TabsTrigger>
+                  <TabsTrigger value="teachers">Teachers ({diff.teacherChanges.length})</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {diffTab === 'clients' && (
+                <Select value={changeFilter} onValueChange={(value) => setChangeFilter(value as ClientChangeField | 'all')}>
+                  <SelectTrigger className="w-[220px] bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All changes</SelectItem>
+                    {(Object.keys(CLIENT_CHANGE_LABELS) as ClientChangeField[]).map(field => (
+                      <SelectItem key={field} value={field}>{CLIENT_CHANGE_LABELS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {diffTab === 'clients' ? (
+              visibleClientChanges.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-10">No client outcomes changed</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Client</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleClientChanges.slice(0, MAX_ROWS).map(change => (
+                      <TableRow key={change.email}>
+                        <TableCell className="align-top">
+                          <div className="font-medium">{change.name}</div>
+                          <div className="text-xs text-muted-foreground">{change.email}</div>
+                        </TableCell>
+                        <TableCell className="space-y-1">
+                          {change.changes.map(item => (
+                            <div key={item.field} className="text-sm flex flex-wrap items-center gap-2">
+                              <span className="text-muted-foreground">{CLIENT_CHANGE_LABELS[item.field]}</span>
+                              {item.from && <span>{item.from}</span>}
+                              {item.from && item.to && <ArrowRight className="h-3 w-3 text-muted-foreground" />}
+                              {item.to && <span className="font-medium">{item.to}</span>}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )
+            ) : diff.teacherChanges.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-10">No teacher metrics changed</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Teacher</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Metric changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.teacherChanges.slice(0, MAX_ROWS).map(change => (
+                    <TableRow key={`${change.teacherName}-${change.location}-${change.period}`}>
+                      <TableCell className="align-top font-medium">
+                        {change.teacherName}
+                        {change.status !== 'changed' && (
+                          <Badge variant="outline" className={`ml-2 ${TEACHER_STATUS_STYLES[change.status]}`}>
+                            {change.status === 'added' ? 'New row' : 'Row gone'}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top">{change.location}</TableCell>
+                      <TableCell className="align-top">{change.period}</TableCell>
+                      <TableCell className="space-y-1">
+                        {change.metrics.map(({ metric, from, to }) => (
+                          <div key={metric} className="text-sm flex flex-wrap items-center gap-2">
+                            <span className="text-muted-foreground">{RUN_METRIC_LABELS[metric]}</span>
+                            <span>{formatMetric(metric, from)}</span>
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            <span className="font-medium">{formatMetric(metric, to)}</span>
+                            <span className={to > from ? 'text-green-600' : 'text-red-600'}>({formatDelta(metric, from, to)})</span>
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {(diffTab === 'clients' ? visibleClientChanges.length : diff.teacherChanges.length) > MAX_ROWS && (
+              <p className="text-xs text-muted-foreground text-center">
+                Showing the first {MAX_ROWS} rows
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RunHistoryView;
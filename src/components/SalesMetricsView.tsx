@@ -4,6 +4,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFoo
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ProcessedTeacherData } from '@/utils/dataProcessor';
 import { safeFormatCurrency, safeToFixed } from '@/lib/utils';
 import { 
@@ -25,6 +26,7 @@ import {
   Zap
 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { RevenueFigure, SALE_REVENUE_FIGURES, REVENUE_FIGURE_LABELS, REVENUE_FIGURE_DESCRIPTIONS, getSaleRevenue } from '@/utils/revenueModel';
 
 interface SalesMetricsViewProps {
   data: ProcessedTeacherData[];
@@ -63,6 +65,8 @@ interface LocationSales {
 
 const SalesMetricsView: React.FC<SalesMetricsViewProps> = ({ data, paymentsData }) => {
   const [activeTab, setActiveTab] = useState('overview');
+  // Revenue figure every revenue column and average is calculated from
+  const [revenueFigure, setRevenueFigure] = useState<RevenueFigure>('gross');
 
   // Clean and normalize product names
   const cleanProductName = (product: string): string => {
@@ -104,10 +108,16 @@ const SalesMetricsView: React.FC<SalesMetricsViewProps> = ({ data, paymentsData
       const product = cleanProductName(payment.Product || payment.Item || payment['Product Name'] || 'Unknown');
       const category = extractCategory(product);
       const location = payment.Location || payment.Studio || payment['Studio Location'] || 'Unknown';
-      const revenue = parseFloat(payment.Price || payment.Amount || payment.Revenue || payment.Value || payment['Sale value'] || 0);
+      const saleValue = parseFloat(payment.Price || payment.Amount || payment.Revenue || payment.Value || payment['Sale value'] || 0);
       const quantity = parseInt(payment.Quantity || payment.Units || payment.Qty || 1);
 
-      if (!date || revenue <= 0) return;
+      if (!date || !(saleValue > 0)) return;
+
+      const revenue = getSaleRevenue({
+        'Sale value': saleValue,
+        'Tax': payment.Tax || payment['Sales tax'] || 0,
+        'Refunded': payment.Refunded
+      })[revenueFigure];
 
       const month = new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
 
@@ -224,7 +234,7 @@ const SalesMetricsView: React.FC<SalesMetricsViewProps> = ({ data, paymentsData
     });
 
     return monthlyData;
-  }, [paymentsData]);
+  }, [paymentsData, revenueFigure]);
 
   // Get all months sorted
   const allMonths = useMemo(() => {
@@ -434,13 +444,27 @@ const SalesMetricsView: React.FC<SalesMetricsViewProps> = ({ data, paymentsData
 
   return (
     <div className="space-y-6">
+      <div className="flex items-center justify-end gap-3">
+        <span className="text-sm text-slate-600">{REVENUE_FIGURE_DESCRIPTIONS[revenueFigure]}</span>
+        <Select value={revenueFigure} onValueChange={value => setRevenueFigure(value as RevenueFigure)}>
+          <SelectTrigger className="w-[180px] bg-white/80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SALE_REVENUE_FIGURES.map(figure => (
+              <SelectItem key={figure} value={figure}>{REVENUE_FIGURE_LABELS[figure]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Overall Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="bg-gradient-to-br from-green-50 to-emerald-100 border-green-200 shadow-luxury animate-fade-in">
           <CardHeader className="pb-3">
             <CardTitle className="text-sm flex items-center gap-2 text-green-700">
               <DollarSign className="h-4 w-4" />
-              Total Revenue
+              {REVENUE_FIGURE_LABELS[revenueFigure]}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -541,7 +565,7 @@ const SalesMetricsView: React.FC<SalesMetricsViewProps> = ({ data, paymentsData
                       <div className="bg-gradient-to-br from-green-50 to-green-100 rounded-lg p-4 border border-green-200">
                         <div className="text-sm text-green-700 flex items-center gap-2 font-medium">
                           <DollarSign className="h-4 w-4" />
-                          Total Revenue
+                          {REVENUE_FIGURE_LABELS[revenueFigure]}
                         </div>
                         <div className="text-2xl font-bold text-green-800 mt-1">
                           {safeFormatCurrency(monthData.totals.totalRevenue)}
@@ -8,6 +8,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Settings, Palette, Layout, Type, Save, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
+import { workspaceKey } from '@/utils/workspaces';
+import { secureStorage } from '@/utils/encryption';
 
 interface TableCustomizationProps {
   isOpen: boolean;
@@ -85,7 +87,7 @@ const TableCustomization: React.FC<TableCustomizationProps> = ({
 
   // Load saved settings
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
+    const saved = secureStorage.getItem(workspaceKey(STORAGE_KEY));
     if (saved) {
       try {
         const parsed = JSON.parse(saved);
@@ -102,13 +104,13 @@ const TableCustomization: React.FC<TableCustomizationProps> = ({
   }, [settings, onSettingsChange]);
 
   const saveSettings = () => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    secureStorage.setItem(workspaceKey(STORAGE_KEY), JSON.stringify(settings));
     toast.success('Table settings saved successfully');
   };
 
   const resetToDefaults = () => {
     setSettings(DEFAULT_SETTINGS);
-    localStorage.removeItem(STORAGE_KEY);
+    secureStorage.removeItem(workspaceKey(STORAGE_KEY));
     toast.success('Settings reset to defaults');
   };
 
@@ -0,0 +1,218 @@
+import React, { useState, useRef } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FolderOpen, ChevronDown, Plus, Pencil, Copy, Trash2, Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Workspace,
+  getWorkspaces,
+  createWorkspace,
+  renameWorkspace,
+  duplicateWorkspace,
+  deleteWorkspace
+} from '@/utils/workspaces';
+import { exportWorkspaceBundle, getBundleFileName, importWorkspaceBundle, parseWorkspaceBundle } from '@/utils/workspaceBundle';
+import { downloadFile } from '@/utils/download';
+
+interface WorkspaceSwitcherProps {
+  activeWorkspaceId: string;
+  // Open a workspace; the dashboard reloads from its saved session
+  onSwitch: (workspaceId: string) => void;
+  // Filters on screen, exported with the workspace
+  currentFilters?: Record<string, string[]>;
+}
+
+type WorkspaceAction = 'create' | 'rename' | 'duplicate' | 'delete';
+
+const ACTION_TITLES: Record<WorkspaceAction, string> = {
+  create: 'New workspace',
+  rename: 'Rename workspace',
+  duplicate: 'Duplicate workspace',
+  delete: 'Delete workspace',
+};
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ activeWorkspaceId, onSwitch, currentFilters }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(getWorkspaces);
+  const [action, setAction] = useState<WorkspaceAction | null>(null);
+  const [name, setName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId) || workspaces[0];
+  const isNameTaken = workspaces.some(workspace => (
+    workspace.name.toLowerCase() === name.trim().toLowerCase() && !(action === 'rename' && workspace.id === activeWorkspace.id)
+  ));
+
+  const openAction = (next: WorkspaceAction) => {
+    setAction(next);
+    setName(next === 'rename' ? activeWorkspace.name : next === 'duplicate' ? `${activeWorkspace.name} (copy)` : '');
+  };
+
+  const handleConfirm = async () => {
+    setIsBusy(true);
+    try {
+      if (action === 'create') {
+        const workspace = createWorkspace(name);
+        toast.success(`Created workspace "${workspace.name}"`);
+        onSwitch(workspace.id);
+      } else if (action === 'rename') {
+        renameWorkspace(activeWorkspace.id, name);
+        toast.success(`Renamed workspace to "${name.trim()}"`);
+      } else if (action === 'duplicate') {
+        const workspace = await duplicateWorkspace(activeWorkspace.id, name);
+        toast.success(`Duplicated "${activeWorkspace.name}" as "${workspace.name}"`);
+        onSwitch(workspace.id);
+      } else if (action === 'delete') {
+        const next = workspaces.find(workspace => workspace.id !== activeWorkspace.id);
+        onSwitch(next.id);
+        await deleteWorkspace(activeWorkspace.id);
+        toast.success(`Deleted workspace "${activeWorkspace.name}"`);
+      }
+      setWorkspaces(getWorkspaces());
+      setAction(null);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const bundle = await exportWorkspaceBundle(activeWorkspace.id, currentFilters);
+      downloadFile(JSON.stringify(bundle), getBundleFileName(bundle), 'application/json');
+      toast.success(`Exported workspace "${activeWorkspace.name}"`);
+    } catch (error) {
+      console.error('Error exporting workspace:', error);
+      toast.error('Could not export the workspace');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const workspace = await importWorkspaceBundle(parseWorkspaceBundle(await file.text()));
+      toast.success(`Imported workspace "${workspace.name}"`);
+      onSwitch(workspace.id);
+    } catch (error) {
+      console.error('Error importing workspace:', error);
+      toast.error(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={bundleInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleImport}
+      />
+      <DropdownMenu onOpenChange={(open) => open && setWorkspaces(getWorkspaces())}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2 max-w-[220px]">
+            <FolderOpen className="h-4 w-4 shrink-0" />
+            <span className="truncate">{activeWorkspace.name}</span>
+            <ChevronDown className="h-4 w-4 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={activeWorkspace.id} onValueChange={(id) => id !== activeWorkspace.id && onSwitch(id)}>
+            {workspaces.map(workspace => (
+              <DropdownMenuRadioItem key={workspace.id} value={workspace.id}>
+                <span className="truncate">{workspace.name}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => openAction('create')}>
+            <Plus className="h-4 w-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openAction('rename')}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openAction('duplicate')}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export bundle
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => bundleInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import bundle…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={() => openAction('delete')}
+            disabled={workspaces.length <= 1}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && !isBusy && setAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action && ACTION_TITLES[action]}</DialogTitle>
+            <DialogDescription>
+              {action === 'create' && 'A workspace keeps its own uploads, rules, filters and results.'}
+              {action === 'rename' && `Choose a new name for "${activeWorkspace.name}".`}
+              {action === 'duplicate' && `Copies the uploads, rules, filters and results of "${activeWorkspace.name}".`}
+              {action === 'delete' && `"${activeWorkspace.name}" and all of its uploads, rules, filters and results will be removed. This cannot be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {action !== 'delete' && (
+            <div className="space-y-1">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && name.trim() && !isNameTaken && handleConfirm()}
+                placeholder="Workspace name"
+                autoFocus
+              />
+              {isNameTaken && <p className="text-xs text-destructive">A workspace with this name already exists</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button
+              variant={action === 'delete' ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              disabled={isBusy || (action !== 'delete' && (!name.trim() || isNameTaken))}
+            >
+              {action === 'delete' ? 'Delete' : action === 'rename' ? 'Rename' : action === 'duplicate' ? 'Duplicate' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
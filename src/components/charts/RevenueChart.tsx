@@ -1,14 +1,20 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LabelList } from 'recharts';
 import { ChevronUp, CreditCard } from 'lucide-react';
+import { RevenueBreakdown, RevenueFigure, REVENUE_FIGURES, REVENUE_FIGURE_LABELS, REVENUE_FIGURE_DESCRIPTIONS, getRevenueFigure } from '@/utils/revenueModel';
 
 interface RevenueChartProps {
-  data: { week: string; revenue: number }[];
+  data: { week: string; revenue: number; breakdown?: RevenueBreakdown }[];
 }
 
 const RevenueChart: React.FC<RevenueChartProps> = ({ data }) => {
+  const [figure, setFigure] = useState<RevenueFigure>('gross');
+  // Data processed before the revenue breakdown existed can only show gross revenue
+  const hasBreakdown = Boolean(data?.some(item => item.breakdown));
+
   useEffect(() => {
     // Debug log the chart data
     console.log("Revenue chart received data:", data);
@@ -33,11 +39,12 @@ const RevenueChart: React.FC<RevenueChartProps> = ({ data }) => {
 
   // Format dates to be more readable and sort them
   const formattedData = data.map(item => {
-    console.log(`Formatting date: ${item.week} with revenue: ${item.revenue}`);
+    const revenue = getRevenueFigure(item.breakdown, figure, item.revenue);
+    console.log(`Formatting date: ${item.week} with revenue: ${revenue}`);
     
     // Ensure revenue is a valid number
-    const safeRevenue = typeof item.revenue === 'number' && !isNaN(item.revenue) 
-      ? item.revenue 
+    const safeRevenue = typeof revenue === 'number' && !isNaN(revenue) 
+      ? revenue 
       : 0;
       
     return {
@@ -45,7 +52,7 @@ const RevenueChart: React.FC<RevenueChartProps> = ({ data }) => {
       revenue: safeRevenue,
       weekLabel: item.week ? new Date(item.week).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : 'Unknown'
     };
-  });
+  }).filter(item => item.revenue !== 0); // Weeks with only fees have no sales revenue, and vice versa
 
   // Sort data by date
   const sortedData = [...formattedData].sort((a, b) => {
@@ -101,9 +108,23 @@ const RevenueChart: React.FC<RevenueChartProps> = ({ data }) => {
         <div className="flex justify-between items-center">
           <CardTitle className="text-lg font-medium flex items-center">
             <CreditCard className="h-5 w-5 mr-2 text-blue-500" />
-            Revenue by Week
+            {hasBreakdown ? `${REVENUE_FIGURE_LABELS[figure]} by Week` : 'Revenue by Week'}
           </CardTitle>
           <div className="flex items-center">
+            {hasBreakdown && (
+              <Select value={figure} onValueChange={value => setFigure(value as RevenueFigure)}>
+                <SelectTrigger className="w-[170px] h-8 mr-3" title={REVENUE_FIGURE_DESCRIPTIONS[figure]}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REVENUE_FIGURES.map(option => (
+                    <SelectItem key={option} value={option} title={REVENUE_FIGURE_DESCRIPTIONS[option]}>
+                      {REVENUE_FIGURE_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <span className="text-2xl font-bold mr-2 bg-gradient-to-r from-blue-600 to-indigo-700 bg-clip-text text-transparent">
               ₹{totalRevenue.toLocaleString()}
             </span>
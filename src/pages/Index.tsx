@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { toast } from 'sonner';
 import FileUploader from '@/components/FileUploader';
 import ProcessingLoader from '@/components/ProcessingLoader';
@@ -10,81 +10,84 @@ import SalesMetricsView from '@/components/SalesMetricsView';
 import PerformanceInsightsView from '@/components/PerformanceInsightsView';
 import KanbanView from '@/components/KanbanView';
 import ConversionSummaryTable from '@/components/ConversionSummaryTable';
+import CohortAnalysisView from '@/components/CohortAnalysisView';
+import RunHistoryView from '@/components/RunHistoryView';
 import AISettingsModal from '@/components/AISettingsModal';
+import EncryptionSettingsModal from '@/components/EncryptionSettingsModal';
 import TableCustomization, { TableSettings } from '@/components/TableCustomization';
-import { parseCSV, categorizeFiles, getFileTypes } from '@/utils/csvParser';
-import { processData, ProcessedTeacherData, ProcessingProgress } from '@/utils/dataProcessor';
+import BusinessRulesEditor from '@/components/BusinessRulesEditor';
+import IdentityReviewModal from '@/components/IdentityReviewModal';
+import DataQualityReportModal from '@/components/DataQualityReportModal';
+import { categorizeFiles } from '@/utils/csvParser';
+import { ProcessedTeacherData, ProcessingProgress, ProcessDataResult } from '@/utils/dataProcessor';
+import { runProcessDataInWorker, isProcessingCancelled, ProcessingJob } from '@/utils/processingWorkerClient';
+import { getBusinessRules, DEFAULT_BUSINESS_RULES, ConversionRuleConfig } from '@/utils/businessRules';
+import { getConfirmedMerges } from '@/utils/identityResolution';
+import { createRunSnapshot, getRunHistory, recordRun, ProcessingRun, RunTrigger } from '@/utils/runHistory';
+import { checkDataQuality, DataQualityReport } from '@/utils/dataQuality';
+import { PeriodSettings, getPeriodSettings, savePeriodSettings } from '@/utils/periods';
+import { AttributionModel, applyAttributionModel, getAttributionModel, saveAttributionModel } from '@/utils/attributionModels';
 import { deduplicateClientsByEmail } from '@/utils/deduplication';
+import { loadAndMergeFiles, MergedImport } from '@/utils/fileMerge';
+import { STORAGE_KEYS, loadFromStorage, saveToStorage, clearStorage, migrateLocalStorage } from '@/utils/persistentStorage';
+import { getActiveWorkspaceId, setActiveWorkspaceId, workspaceKey } from '@/utils/workspaces';
+import { expandSpreadsheetFiles, isSpreadsheetFile } from '@/utils/spreadsheetParser';
+import { detectFileType, getFileTypeMap, FileTypeDetection, DetectedFileType } from '@/utils/fileDetection';
 import Logo from '@/components/Logo';
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher';
 import AIInsights from '@/components/AIInsights';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, ChevronUp, FileText, Table, BarChart, TrendingUp, Target, DollarSign, Filter, ClipboardList, Brain, Settings, Palette } from 'lucide-react';
+import { ChevronDown, ChevronUp, FileText, Table, BarChart, TrendingUp, Target, DollarSign, Filter, ClipboardList, Brain, Settings, Palette, SlidersHorizontal, Users, LayoutGrid, ShieldCheck, ShieldAlert, History, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
-// Local storage keys
-const STORAGE_KEYS = {
-  PROCESSED_DATA: 'studio-stats-processed-data',
-  FILTERED_DATA: 'studio-stats-filtered-data',
-  LOCATIONS: 'studio-stats-locations',
-  TEACHERS: 'studio-stats-teachers',
-  PERIODS: 'studio-stats-periods',
-  RAW_DATA: 'studio-stats-raw-data',
-  PROCESSING_RESULTS: 'studio-stats-processing-results'
+// Tabs that show the uploaded rows, which are only read from storage once needed
+const RAW_DATA_TABS = ['conversion-summary', 'sales-metrics', 'raw-data'];
+
+type RawFiles = Pick<MergedImport, 'newClientData' | 'bookingsData' | 'paymentsData'>;
+
+// Results of the last run kept for the detail views, with the rules that produced them
+interface ProcessingResults {
+  included: ProcessDataResult['includedRecords'];
+  excluded: ProcessDataResult['excludedRecords'];
+  newClients: ProcessDataResult['newClientRecords'];
+  convertedClients: ProcessDataResult['convertedClientRecords'];
+  retainedClients: ProcessDataResult['retainedClientRecords'];
+  teacherMatches: ProcessDataResult['teacherMatchRecords'];
+  cohorts: ProcessDataResult['cohortData'];
+  attribution: ProcessDataResult['attributedConversions'];
+  traces: ProcessDataResult['decisionTraces'];
+  conversionRule: ConversionRuleConfig;
+  identityMerges: [string, string][];
+}
+
+// Save to the active workspace in the background, telling the user once if the browser refuses
+const persist = (key: string, data: unknown) => {
+  saveToStorage(workspaceKey(key), data).then(saved => {
+    if (!saved) {
+      toast.error('Could not save data for your next visit. Browser storage may be full or disabled.', { id: 'storage-error' });
+    }
+  });
 };
 
-// Storage utilities with size management
-const storageUtils = {
-  // Save data to localStorage with error handling and size management
-  saveToStorage: (key: string, data: any) => {
-    try {
-      const dataStr = JSON.stringify(data);
-      const sizeInMB = new Blob([dataStr]).size / (1024 * 1024);
-      
-      // If data is too large (>2MB), don't store raw data in localStorage
-      if (sizeInMB > 2 && key.includes('raw')) {
-        console.warn(`Data too large for localStorage (${sizeInMB.toFixed(2)}MB), skipping storage for ${key}`);
-        return false;
-      }
-      
-      localStorage.setItem(key, dataStr);
-      return true;
-    } catch (error) {
-      console.error(`Error saving to storage for key ${key}:`, error);
-      // If it's a QuotaExceededError, notify the user
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        toast.error('Storage limit exceeded. Some data might not be saved between sessions.');
-      }
-      return false;
-    }
-  },
-  // Load data from localStorage with error handling
-  loadFromStorage: (key: string) => {
-    try {
-      const data = localStorage.getItem(key);
-      return data ? JSON.parse(data) : null;
-    } catch (error) {
-      console.error(`Error loading from storage for key ${key}:`, error);
-      return null;
-    }
-  },
-  // Clear specific localStorage keys
-  clearStorage: (keys: string[]) => {
-    keys.forEach(key => {
-      try {
-        localStorage.removeItem(key);
-      } catch (error) {
-        console.error(`Error clearing storage for key ${key}:`, error);
-      }
-    });
-  }
+// Saved session keys of the active workspace, leaving out any that should be kept
+const getWorkspaceStorageKeys = (keep: string[] = []) => {
+  return Object.values(STORAGE_KEYS).filter(key => !keep.includes(key)).map(key => workspaceKey(key));
 };
 
-const Index = () => {
+interface DashboardProps {
+  workspaceId: string;
+  onSwitchWorkspace: (workspaceId: string) => void;
+}
+
+const Dashboard: React.FC<DashboardProps> = ({ workspaceId, onSwitchWorkspace }) => {
   const [files, setFiles] = useState<File[]>([]);
+  const [fileDetections, setFileDetections] = useState<Map<File, FileTypeDetection>>(new Map());
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [currentStep, setCurrentStep] = useState('');
+  const [etaSeconds, setEtaSeconds] = useState<number | undefined>(undefined);
+  const processingJobRef = useRef<ProcessingJob | null>(null);
   const [processedData, setProcessedData] = useState<ProcessedTeacherData[]>([]);
   const [locations, setLocations] = useState<string[]>([]);
   const [teachers, setTeachers] = useState<string[]>([]);
@@ -96,8 +99,17 @@ const Index = () => {
   const [activeTab, setActiveTab] = useState('analytics');
   const [isInsightsOpen, setIsInsightsOpen] = useState(false);
   const [isAISettingsOpen, setIsAISettingsOpen] = useState(false);
+  const [isSecurityOpen, setIsSecurityOpen] = useState(false);
   const [isTableCustomizationOpen, setIsTableCustomizationOpen] = useState(false);
+  const [isRulesEditorOpen, setIsRulesEditorOpen] = useState(false);
+  const [isIdentityReviewOpen, setIsIdentityReviewOpen] = useState(false);
+  const [qualityReport, setQualityReport] = useState<DataQualityReport | null>(null);
+  const [isQualityReportOpen, setIsQualityReportOpen] = useState(false);
+  // Loaded the first time the Run History tab opens
+  const [runHistory, setRunHistory] = useState<ProcessingRun[] | null>(null);
   const [tableSettings, setTableSettings] = useState<TableSettings | null>(null);
+  const [periodSettings, setPeriodSettings] = useState<PeriodSettings>(getPeriodSettings);
+  const [attributionModel, setAttributionModel] = useState<AttributionModel>(getAttributionModel);
   const [rawData, setRawData] = useState({
     newClientData: [],
     bookingsData: [],
@@ -107,7 +119,13 @@ const Index = () => {
       excluded: [],
       newClients: [],
       convertedClients: [],
-      retainedClients: []
+      retainedClients: [],
+      teacherMatches: [],
+      cohorts: { clients: [], observedUntil: '' },
+      attribution: [],
+      traces: [],
+      conversionRule: DEFAULT_BUSINESS_RULES.conversion,
+      identityMerges: [] as [string, string][]
     }
   });
 
@@ -127,135 +145,173 @@ const Index = () => {
   // Add state for filter collapse
   const [isFiltersCollapsed, setIsFiltersCollapsed] = useState(false);
 
-  // Load saved data from localStorage on component mount
+  // The saved session is read asynchronously; hold the upload screen until it is
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  // Pending or finished read of the saved raw files; null until something needs them
+  const rawDataLoadRef = useRef<Promise<RawFiles | null> | null>(null);
+
+  // Restore the saved session on mount. Raw files are the largest part and
+  // are left in storage until a view needs them
   useEffect(() => {
-    const savedProcessedData = storageUtils.loadFromStorage(STORAGE_KEYS.PROCESSED_DATA);
-    const savedFilteredData = storageUtils.loadFromStorage(STORAGE_KEYS.FILTERED_DATA);
-    const savedLocations = storageUtils.loadFromStorage(STORAGE_KEYS.LOCATIONS);
-    const savedTeachers = storageUtils.loadFromStorage(STORAGE_KEYS.TEACHERS);
-    const savedPeriods = storageUtils.loadFromStorage(STORAGE_KEYS.PERIODS);
-    const savedRawData = storageUtils.loadFromStorage(STORAGE_KEYS.RAW_DATA);
-    const savedProcessingResults = storageUtils.loadFromStorage(STORAGE_KEYS.PROCESSING_RESULTS);
-    
-    if (savedProcessedData) {
-      setProcessedData(savedProcessedData);
-      setResultsVisible(true);
-    }
-    if (savedFilteredData) {
-      setFilteredData(savedFilteredData);
-    }
-    if (savedLocations) {
-      setLocations(savedLocations);
-    }
-    if (savedTeachers) {
-      setTeachers(savedTeachers);
-    }
-    if (savedPeriods) {
-      setPeriods(savedPeriods);
-    }
-    if (savedRawData) {
-      setRawData(prev => ({ ...prev, ...savedRawData }));
+    const restoreSession = async () => {
+      // Sessions saved in localStorage predate workspaces and become the default workspace
+      await migrateLocalStorage(Object.values(STORAGE_KEYS));
+      const [
+        savedProcessedData,
+        savedFilteredData,
+        savedLocations,
+        savedTeachers,
+        savedPeriods,
+        savedProcessingResults
+      ] = await Promise.all([
+        loadFromStorage<ProcessedTeacherData[]>(workspaceKey(STORAGE_KEYS.PROCESSED_DATA)),
+        loadFromStorage<ProcessedTeacherData[]>(workspaceKey(STORAGE_KEYS.FILTERED_DATA)),
+        loadFromStorage<string[]>(workspaceKey(STORAGE_KEYS.LOCATIONS)),
+        loadFromStorage<string[]>(workspaceKey(STORAGE_KEYS.TEACHERS)),
+        loadFromStorage<string[]>(workspaceKey(STORAGE_KEYS.PERIODS)),
+        loadFromStorage<ProcessingResults>(workspaceKey(STORAGE_KEYS.PROCESSING_RESULTS))
+      ]);
+
+      if (savedProcessedData) {
+        setProcessedData(savedProcessedData);
+      }
+      if (savedFilteredData) {
+        setFilteredData(savedFilteredData);
+      }
+      if (savedLocations) {
+        setLocations(savedLocations);
+      }
+      if (savedTeachers) {
+        setTeachers(savedTeachers);
+      }
+      if (savedPeriods) {
+        setPeriods(savedPeriods);
+      }
+      if (savedProcessingResults) {
+        // Results saved before the rules were kept with them fall back to the current rules
+        setRawData(prev => ({
+          ...prev,
+          processingResults: {
+            conversionRule: getBusinessRules().conversion,
+            identityMerges: getConfirmedMerges(),
+            ...savedProcessingResults
+          }
+        }));
+      }
+
+      // Set results visible if we have processed data
+      if (savedProcessedData && savedProcessedData.length > 0) {
+        setResultsVisible(true);
+        // Show a toast to inform user that previous data was loaded
+        toast.success('Previous session data loaded successfully');
+      }
+      setIsRestoringSession(false);
+    };
+
+    restoreSession();
+  }, []);
+
+  // Read the saved raw files once, the first time they are needed
+  const loadSavedRawData = useCallback((): Promise<RawFiles | null> => {
+    if (!rawDataLoadRef.current) {
+      const load = loadFromStorage<RawFiles>(workspaceKey(STORAGE_KEYS.RAW_DATA)).then(saved => {
+        // A run that finished in the meantime has newer data
+        if (saved && rawDataLoadRef.current === load) {
+          setRawData(prev => ({ ...prev, ...saved }));
+        }
+        return saved;
+      });
+      rawDataLoadRef.current = load;
     }
-    if (savedProcessingResults) {
-      setRawData(prev => ({ ...prev, processingResults: savedProcessingResults }));
+    return rawDataLoadRef.current;
+  }, []);
+
+  useEffect(() => {
+    if (resultsVisible && (RAW_DATA_TABS.includes(activeTab) || isRulesEditorOpen || isIdentityReviewOpen)) {
+      loadSavedRawData();
     }
+  }, [resultsVisible, activeTab, isRulesEditorOpen, isIdentityReviewOpen, loadSavedRawData]);
 
-    // Set results visible if we have processed data
-    if (savedProcessedData && savedProcessedData.length > 0) {
-      setResultsVisible(true);
-      // Show a toast to inform user that previous data was loaded
-      toast.success('Previous session data loaded successfully');
+  useEffect(() => {
+    if (activeTab === 'run-history' && runHistory === null) {
+      getRunHistory().then(setRunHistory);
     }
-  }, []);
+  }, [activeTab, runHistory]);
 
-  // Save processed data, filtered data, and metadata to localStorage when they change
+  // Save processed data, filtered data, and metadata when they change
   useEffect(() => {
     if (processedData.length > 0) {
-      storageUtils.saveToStorage(STORAGE_KEYS.PROCESSED_DATA, processedData);
+      persist(STORAGE_KEYS.PROCESSED_DATA, processedData);
     }
     if (filteredData.length > 0) {
-      storageUtils.saveToStorage(STORAGE_KEYS.FILTERED_DATA, filteredData);
+      persist(STORAGE_KEYS.FILTERED_DATA, filteredData);
     }
     if (locations.length > 0) {
-      storageUtils.saveToStorage(STORAGE_KEYS.LOCATIONS, locations);
+      persist(STORAGE_KEYS.LOCATIONS, locations);
     }
     if (teachers.length > 0) {
-      storageUtils.saveToStorage(STORAGE_KEYS.TEACHERS, teachers);
+      persist(STORAGE_KEYS.TEACHERS, teachers);
     }
     if (periods.length > 0) {
-      storageUtils.saveToStorage(STORAGE_KEYS.PERIODS, periods);
+      persist(STORAGE_KEYS.PERIODS, periods);
     }
   }, [processedData, filteredData, locations, teachers, periods]);
 
-  // Save raw data separately (with size check)
-  useEffect(() => {
-    if (rawData.newClientData.length > 0 || rawData.bookingsData.length > 0 || rawData.paymentsData.length > 0) {
-      storageUtils.saveToStorage(STORAGE_KEYS.RAW_DATA, {
-        newClientData: rawData.newClientData,
-        bookingsData: rawData.bookingsData,
-        paymentsData: rawData.paymentsData
-      });
-    }
-    if (rawData.processingResults.included.length > 0 || rawData.processingResults.excluded.length > 0) {
-      storageUtils.saveToStorage(STORAGE_KEYS.PROCESSING_RESULTS, rawData.processingResults);
-    }
-  }, [rawData]);
-
   // Update progress
   const updateProgress = useCallback((progressData: ProcessingProgress) => {
     setProgress(progressData.progress);
     setCurrentStep(progressData.currentStep);
+    setEtaSeconds(progressData.etaSeconds);
   }, []);
 
   // Handle file upload
-  const handleFilesAdded = useCallback((newFiles: File[]) => {
-    setFiles(prevFiles => [...prevFiles, ...newFiles]);
+  const handleFilesAdded = useCallback(async (newFiles: File[]) => {
+    // Workbooks are split into one file per sheet so each sheet can be assigned a type
+    const expandedFiles = await expandSpreadsheetFiles(newFiles);
+    const workbookCount = newFiles.filter(isSpreadsheetFile).length;
+    if (workbookCount > 0) {
+      const sheetCount = expandedFiles.length - (newFiles.length - workbookCount);
+      if (sheetCount > 0) {
+        toast.success(`Loaded ${sheetCount} sheet${sheetCount === 1 ? '' : 's'} from ${workbookCount} workbook${workbookCount === 1 ? '' : 's'}. Choose a data type for each sheet.`);
+      } else {
+        toast.error('No readable sheets found in the uploaded workbook');
+      }
+    }
+
+    setFiles(prevFiles => [...prevFiles, ...expandedFiles]);
+
+    // Classify each file from its header row
+    expandedFiles.forEach(file => {
+      detectFileType(file).then(detection => {
+        setFileDetections(prev => new Map(prev).set(file, detection));
+      });
+    });
   }, []);
 
   // Remove a file
   const handleRemoveFile = useCallback((index: number) => {
+    const removedFile = files[index];
     setFiles(prevFiles => prevFiles.filter((_, i) => i !== index));
-  }, []);
-
-  // Process files
-  const handleProcessFiles = useCallback(async () => {
-    if (files.length === 0) {
-      toast.error('Please upload files first');
-      return;
-    }
-
-    // Categorize files
-    const categorized = categorizeFiles(files);
-    if (!categorized.new) {
-      toast.error('Missing New client file. Please upload a file with "new" in the name');
-      return;
-    }
-    if (!categorized.bookings) {
-      toast.error('Missing Bookings file. Please upload a file with "bookings" in the name');
-      return;
-    }
-
-    // Clear previous data before processing new files
-    setProcessedData([]);
-    setFilteredData([]);
-    setLocations([]);
-    setTeachers([]);
-    setPeriods([]);
-    setRawData({
-      newClientData: [],
-      bookingsData: [],
-      paymentsData: [],
-      processingResults: {
-        included: [],
-        excluded: [],
-        newClients: [],
-        convertedClients: [],
-        retainedClients: []
-      }
+    setFileDetections(prev => {
+      const next = new Map(prev);
+      next.delete(removedFile);
+      return next;
     });
+  }, [files]);
+
+  // Override the detected type of a file
+  const handleFileTypeChange = useCallback((file: File, fileType: DetectedFileType) => {
+    setFileDetections(prev => new Map(prev).set(file, {
+      ...(prev.get(file) || { matchedColumns: [] }),
+      fileType,
+      confidence: 100,
+      method: 'manual'
+    }));
+  }, []);
 
-    // Clear localStorage when processing new files
-    storageUtils.clearStorage(Object.values(STORAGE_KEYS));
+  // Run the processing pipeline on an import loaded by the given function
+  const runProcessing = useCallback(async (loadImport: () => Promise<MergedImport>, trigger: RunTrigger) => {
+    // Previous results stay in place until the new run completes, so a cancelled run loses nothing
     setIsProcessing(true);
     updateProgress({
       progress: 0,
@@ -263,43 +319,75 @@ const Index = () => {
     });
     
     try {
-      // Parse CSV files
       updateProgress({
         progress: 10,
         currentStep: 'Parsing CSV files...'
       });
-      const newFileResult = await parseCSV(categorized.new);
-      const bookingsFileResult = await parseCSV(categorized.bookings);
+      const mergedImport = await loadImport();
 
-      // Check if payments file exists
-      let salesFileResult = {
-        data: []
-      };
-      if (categorized.payments) {
-        salesFileResult = await parseCSV(categorized.payments);
-      }
-
-      // Save raw data for the Raw Data View
-      const initialRawData = {
-        newClientData: newFileResult.data || [],
-        bookingsData: bookingsFileResult.data || [],
-        paymentsData: salesFileResult.data || [],
-        processingResults: {
-          included: [],
-          excluded: [],
-          newClients: [],
-          convertedClients: [],
-          retainedClients: []
+      // Check every row first; critical problems would make the results wrong
+      updateProgress({
+        progress: 20,
+        currentStep: 'Checking data quality...'
+      });
+      const report = checkDataQuality(mergedImport);
+      setQualityReport(report);
+      if (report.blocked) {
+        setIsProcessing(false);
+        if (processedData.length > 0) {
+          setResultsVisible(true);
         }
-      };
-      setRawData(initialRawData);
+        setIsQualityReportOpen(true);
+        toast.error(`Processing stopped: ${report.counts.critical} rows have critical data problems`);
+        return;
+      }
+      if (report.issues.length > 0) {
+        toast.warning(`${report.counts.warning + report.counts.info} data quality issues found`, {
+          action: { label: 'View report', onClick: () => setIsQualityReportOpen(true) }
+        });
+      }
 
-      // Process data
+      // Process data in a worker so the page stays responsive
       updateProgress({
         progress: 30,
         currentStep: 'Processing data...'
       });
-      const result = await processData(newFileResult.data || [], bookingsFileResult.data || [], salesFileResult.data || [], updateProgress);
+      const businessRules = getBusinessRules();
+      const identityMerges = getConfirmedMerges();
+      const job = runProcessDataInWorker({
+        newData: mergedImport.newClientData,
+        bookingsData: mergedImport.bookingsData,
+        salesData: mergedImport.paymentsData,
+        // Open the app with ?benchmark to time each processing stage
+        options: {
+          benchmark: new URLSearchParams(window.location.search).has('benchmark'),
+          businessRules,
+          identityMerges,
+          periodSettings: getPeriodSettings()
+        }
+      }, updateProgress);
+      processingJobRef.current = job;
+      const result = await job.promise;
+      processingJobRef.current = null;
+
+      if (result.stageTimings) {
+        console.table(result.stageTimings);
+        const totalMs = result.stageTimings.reduce((sum, timing) => sum + timing.durationMs, 0);
+        toast.info(`Benchmark: ${result.stageTimings.map(t => `${t.stage} ${t.durationMs.toFixed(0)}ms`).join(' • ')} (total ${totalMs.toFixed(0)}ms)`);
+      }
+
+      // Replace previous data in storage now that the new run succeeded; the run history outlives each run
+      await clearStorage(getWorkspaceStorageKeys([STORAGE_KEYS.RUN_HISTORY]));
+      recordRun(createRunSnapshot(result, {
+        trigger,
+        rulesVersion: businessRules.version,
+        attributionModel,
+        rowCounts: {
+          new: mergedImport.newClientData.length,
+          bookings: mergedImport.bookingsData.length,
+          payments: mergedImport.paymentsData.length
+        }
+      })).then(setRunHistory);
 
       // Update state with processed data
       setProcessedData(result.processedData || []);
@@ -308,17 +396,30 @@ const Index = () => {
       setTeachers(result.teachers || []);
       setPeriods(result.periods || []);
 
-      // Update raw data processing results with the results from processing
-      setRawData(prev => ({
-        ...prev,
-        processingResults: {
-          included: result.includedRecords || [],
-          excluded: result.excludedRecords || [],
-          newClients: result.newClientRecords || [],
-          convertedClients: result.convertedClientRecords || [],
-          retainedClients: result.retainedClientRecords || []
-        }
-      }));
+      // Keep raw data for the Raw Data View along with the processing results
+      const rawFiles: RawFiles = {
+        newClientData: mergedImport.newClientData,
+        bookingsData: mergedImport.bookingsData,
+        paymentsData: mergedImport.paymentsData
+      };
+      const processingResults: ProcessingResults = {
+        included: result.includedRecords || [],
+        excluded: result.excludedRecords || [],
+        newClients: result.newClientRecords || [],
+        convertedClients: result.convertedClientRecords || [],
+        retainedClients: result.retainedClientRecords || [],
+        teacherMatches: result.teacherMatchRecords || [],
+        cohorts: result.cohortData || { clients: [], observedUntil: '' },
+        attribution: result.attributedConversions || [],
+        traces: result.decisionTraces || [],
+        // Views that re-evaluate conversions use the rules of this run
+        conversionRule: businessRules.conversion,
+        identityMerges
+      };
+      rawDataLoadRef.current = Promise.resolve(rawFiles);
+      setRawData({ ...rawFiles, processingResults });
+      persist(STORAGE_KEYS.RAW_DATA, rawFiles);
+      persist(STORAGE_KEYS.PROCESSING_RESULTS, processingResults);
 
       // Show success and finish processing
       updateProgress({
@@ -334,11 +435,82 @@ const Index = () => {
       }, 1000);
       
     } catch (error) {
-      console.error('Error processing files:', error);
+      processingJobRef.current = null;
       setIsProcessing(false);
+
+      if (isProcessingCancelled(error)) {
+        if (processedData.length > 0) {
+          setResultsVisible(true);
+        }
+        toast.info('Processing cancelled. Previous results were kept.');
+        return;
+      }
+
+      console.error('Error processing files:', error);
       toast.error('Error processing files. Please check your file format and try again');
     }
-  }, [files, updateProgress]);
+  }, [processedData, attributionModel, updateProgress]);
+
+  // Process files
+  const handleProcessFiles = useCallback(async (preparedImport?: MergedImport) => {
+    if (files.length === 0) {
+      toast.error('Please upload files first');
+      return;
+    }
+
+    // Categorize files
+    const categorized = categorizeFiles(files, getFileTypeMap(fileDetections));
+    if (categorized.new.length === 0) {
+      toast.error('Missing New client file. Please mark one of the uploaded files as New Clients');
+      return;
+    }
+    if (categorized.bookings.length === 0) {
+      toast.error('Missing Bookings file. Please mark one of the uploaded files as Bookings');
+      return;
+    }
+
+    // Parse and merge the files, unless the uploader already did
+    await runProcessing(async () => preparedImport || loadAndMergeFiles(categorized), 'upload');
+  }, [files, fileDetections, runProcessing]);
+
+  // Re-run processing on the data already loaded, e.g. after changing rules
+  const handleReprocess = useCallback(async () => {
+    const rawFiles = rawData.newClientData.length > 0 ? rawData : await loadSavedRawData();
+    if (!rawFiles || rawFiles.newClientData.length === 0 || rawFiles.bookingsData.length === 0) {
+      toast.error('No saved data to reprocess. Please upload files first');
+      return;
+    }
+
+    await runProcessing(async () => ({
+      newClientData: rawFiles.newClientData,
+      bookingsData: rawFiles.bookingsData,
+      paymentsData: rawFiles.paymentsData,
+      summaries: []
+    }), 'reprocess');
+  }, [rawData, loadSavedRawData, runProcessing]);
+
+  // Regroup the loaded data into periods at the new granularity
+  const handlePeriodSettingsChange = useCallback((settings: PeriodSettings) => {
+    savePeriodSettings(settings);
+    setPeriodSettings(settings);
+    setSelectedFilters(prev => ({ ...prev, period: [] }));
+    handleReprocess();
+  }, [handleReprocess]);
+
+  const handleAttributionModelChange = useCallback((model: AttributionModel) => {
+    saveAttributionModel(model);
+    setAttributionModel(model);
+  }, []);
+
+  // Teacher conversions and revenue credited under the selected attribution model
+  const attributedData = useMemo(() => {
+    return applyAttributionModel(processedData, rawData.processingResults.attribution || [], attributionModel);
+  }, [processedData, rawData.processingResults.attribution, attributionModel]);
+
+  // Cancel a running processing job
+  const handleCancelProcessing = useCallback(() => {
+    processingJobRef.current?.cancel();
+  }, []);
 
   // Handle filter changes from the new FilterBar component
   const handleFilteredDataChange = useCallback((newFilteredData: ProcessedTeacherData[]) => {
@@ -368,7 +540,7 @@ const Index = () => {
       search: filters.search || ''
     };
     setActiveFilters(newFilters);
-    let filtered = [...processedData];
+    let filtered = [...attributedData];
 
     // Filter by location
     if (newFilters.location && newFilters.location !== 'all-locations') {
@@ -391,7 +563,7 @@ const Index = () => {
       filtered = filtered.filter(item => item.teacherName && item.teacherName.toLowerCase().includes(searchLower) || item.location && item.location.toLowerCase().includes(searchLower));
     }
     setFilteredData(filtered);
-  }, [processedData]);
+  }, [attributedData]);
 
   // Apply fade-in animation on mount
   useEffect(() => {
@@ -406,8 +578,9 @@ const Index = () => {
 
   // Clear saved data and reset to upload screen
   const handleResetApp = useCallback(() => {
-    // Clear localStorage
-    storageUtils.clearStorage(Object.values(STORAGE_KEYS));
+    // Clear the workspace's saved data
+    clearStorage(getWorkspaceStorageKeys());
+    rawDataLoadRef.current = Promise.resolve(null);
 
     // Reset state
     setResultsVisible(false);
@@ -417,6 +590,9 @@ const Index = () => {
     setTeachers([]);
     setPeriods([]);
     setFiles([]);
+    setFileDetections(new Map());
+    setQualityReport(null);
+    setRunHistory(null);
     setSelectedFilters({
       period: [],
       teacher: [],
@@ -431,7 +607,13 @@ const Index = () => {
         excluded: [],
         newClients: [],
         convertedClients: [],
-        retainedClients: []
+        retainedClients: [],
+        teacherMatches: [],
+        cohorts: { clients: [], observedUntil: '' },
+        attribution: [],
+        traces: [],
+        conversionRule: DEFAULT_BUSINESS_RULES.conversion,
+        identityMerges: []
       }
     });
     toast.success('Application reset. You can upload new files');
@@ -443,14 +625,27 @@ const Index = () => {
 
   return (
     <div className="min-h-screen">
-      {!resultsVisible ? (
+      {isRestoringSession ? (
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : !resultsVisible ? (
         <div className="min-h-screen">
+          <div className="container flex justify-end gap-3 pt-4">
+            <Button variant="outline" size="sm" onClick={() => setIsSecurityOpen(true)} className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Security
+            </Button>
+            <WorkspaceSwitcher activeWorkspaceId={workspaceId} onSwitch={onSwitchWorkspace} />
+          </div>
           <FileUploader 
             onFilesAdded={handleFilesAdded} 
             onProcessFiles={handleProcessFiles}
             files={files}
+            fileDetections={fileDetections}
+            onFileTypeChange={handleFileTypeChange}
             onRemoveFile={handleRemoveFile}
-            accept=".csv" 
+            accept=".csv,.xlsx,.xls,.ods" 
             maxFiles={10} 
           />
         </div>
@@ -458,7 +653,14 @@ const Index = () => {
         <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
           <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
             <div className="container flex justify-between items-center py-3 bg-neutral-50">
-              <Logo size="md" />
+              <div className="flex items-center gap-3">
+                <Logo size="md" />
+                <WorkspaceSwitcher
+                  activeWorkspaceId={workspaceId}
+                  onSwitch={onSwitchWorkspace}
+                  currentFilters={selectedFilters}
+                />
+              </div>
               <div className="flex items-center gap-3">
                 <Button
                   variant="outline"
@@ -469,6 +671,35 @@ const Index = () => {
                   <Palette className="h-4 w-4" />
                   Customize Tables
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsRulesEditorOpen(true)}
+                  className="flex items-center gap-2"
+                >
+                  <SlidersHorizontal className="h-4 w-4" />
+                  Business Rules
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsIdentityReviewOpen(true)}
+                  className="flex items-center gap-2"
+                >
+                  <Users className="h-4 w-4" />
+                  Client Identities
+                </Button>
+                {qualityReport && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsQualityReportOpen(true)}
+                    className="flex items-center gap-2"
+                  >
+                    {qualityReport.blocked ? <ShieldAlert className="h-4 w-4" /> : <ShieldCheck className="h-4 w-4" />}
+                    Data Quality
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
@@ -478,6 +709,15 @@ const Index = () => {
                   <Brain className="h-4 w-4" />
                   AI Settings
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsSecurityOpen(true)}
+                  className="flex items-center gap-2"
+                >
+                  <Lock className="h-4 w-4" />
+                  Security
+                </Button>
               </div>
             </div>
           </header>
@@ -514,10 +754,12 @@ const Index = () => {
 
               {/* Enhanced Filter Bar */}
               <EnhancedFilterBar 
-                data={processedData} 
+                data={attributedData} 
                 onFilterChange={handleFilteredDataChange} 
                 selectedFilters={selectedFilters} 
                 onFilterUpdate={handleFilterUpdate} 
+                periodSettings={periodSettings}
+                onPeriodSettingsChange={handlePeriodSettingsChange}
               />
               
               <Tabs defaultValue="analytics" value={activeTab} onValueChange={setActiveTab}>
@@ -534,6 +776,10 @@ const Index = () => {
                     <TrendingUp className="h-4 w-4" />
                     <span>Monthly Metrics</span>
                   </TabsTrigger>
+                  <TabsTrigger value="cohorts" className="flex items-center gap-2">
+                    <LayoutGrid className="h-4 w-4" />
+                    <span>Cohorts</span>
+                  </TabsTrigger>
                   <TabsTrigger value="sales-metrics" className="flex items-center gap-2">
                     <DollarSign className="h-4 w-4" />
                     <span>Sales Metrics</span>
@@ -551,6 +797,10 @@ const Index = () => {
                     </div>
                     <span>Kanban View</span>
                   </TabsTrigger>
+                  <TabsTrigger value="run-history" className="flex items-center gap-2">
+                    <History className="h-4 w-4" />
+                    <span>Run History</span>
+                  </TabsTrigger>
                   <TabsTrigger value="raw-data" className="flex items-center gap-2">
                     <FileText className="h-4 w-4" />
                     <span>Raw Data & Processing</span>
@@ -566,6 +816,9 @@ const Index = () => {
                       viewMode={viewMode} 
                       dataMode={dataMode} 
                       onFilterChange={handleFilterChange}
+                      attributionModel={attributionModel}
+                      onAttributionModelChange={handleAttributionModelChange}
+                      decisionTraces={rawData.processingResults.traces}
                       tableSettings={tableSettings}
                     />
                   </div>
@@ -576,12 +829,22 @@ const Index = () => {
                     newClientData={rawData.newClientData || []} 
                     salesData={rawData.paymentsData || []} 
                     bookingsData={rawData.bookingsData || []}
+                    conversionRule={rawData.processingResults.conversionRule}
+                    identityMerges={rawData.processingResults.identityMerges}
                     tableSettings={tableSettings}
                   />
                 </TabsContent>
 
                 <TabsContent value="monthly-metrics" className="mt-0">
-                  <MonthlyMetricsView data={filteredData} />
+                  <MonthlyMetricsView data={filteredData} periodSettings={periodSettings} />
+                </TabsContent>
+
+                <TabsContent value="run-history" className="mt-0">
+                  <RunHistoryView runs={runHistory} />
+                </TabsContent>
+
+                <TabsContent value="cohorts" className="mt-0">
+                  <CohortAnalysisView cohortData={rawData.processingResults.cohorts} />
                 </TabsContent>
 
                 <TabsContent value="sales-metrics" className="mt-0">
@@ -606,7 +869,9 @@ const Index = () => {
                       excluded: [],
                       newClients: [],
                       convertedClients: [],
-                      retainedClients: []
+                      retainedClients: [],
+                      teacherMatches: [],
+                      traces: []
                     }}
                     tableSettings={tableSettings}
                   />
@@ -624,11 +889,45 @@ const Index = () => {
       )}
 
       {/* Processing Loader */}
-      <ProcessingLoader isProcessing={isProcessing} progress={progress} currentStep={currentStep} />
+      <ProcessingLoader
+        isProcessing={isProcessing}
+        progress={progress}
+        currentStep={currentStep}
+        etaSeconds={etaSeconds}
+        onCancel={handleCancelProcessing}
+      />
       
       {/* AI Settings Modal */}
       <AISettingsModal isOpen={isAISettingsOpen} onClose={() => setIsAISettingsOpen(false)} />
       
+      {/* Data Security */}
+      <EncryptionSettingsModal isOpen={isSecurityOpen} onClose={() => setIsSecurityOpen(false)} />
+      
+      {/* Business Rules Editor */}
+      <BusinessRulesEditor
+        isOpen={isRulesEditorOpen}
+        onClose={() => setIsRulesEditorOpen(false)}
+        newClientData={rawData.newClientData}
+        onApply={rawData.newClientData.length > 0 ? handleReprocess : undefined}
+      />
+      
+      {/* Client Identity Review */}
+      <IdentityReviewModal
+        isOpen={isIdentityReviewOpen}
+        onClose={() => setIsIdentityReviewOpen(false)}
+        newClientData={rawData.newClientData}
+        bookingsData={rawData.bookingsData}
+        paymentsData={rawData.paymentsData}
+        onApply={rawData.newClientData.length > 0 ? handleReprocess : undefined}
+      />
+      
+      {/* Data Quality Report */}
+      <DataQualityReportModal
+        isOpen={isQualityReportOpen}
+        onClose={() => setIsQualityReportOpen(false)}
+        report={qualityReport}
+      />
+      
       {/* Table Customization Modal */}
       <TableCustomization 
         isOpen={isTableCustomizationOpen} 
@@ -639,4 +938,19 @@ const Index = () => {
   );
 };
 
+/**
+ * One dashboard per workspace. Switching remounts it, so every view and
+ * setting is restored from the new workspace's saved session.
+ */
+const Index = () => {
+  const [workspaceId, setWorkspaceId] = useState(getActiveWorkspaceId);
+
+  const handleSwitchWorkspace = useCallback((id: string) => {
+    setActiveWorkspaceId(id);
+    setWorkspaceId(id);
+  }, []);
+
+  return <Dashboard key={workspaceId} workspaceId={workspaceId} onSwitchWorkspace={handleSwitchWorkspace} />;
+};
+
 export default Index;
\ No newline at end of file
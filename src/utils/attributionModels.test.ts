@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { applyAttributionModel, getTouchCredits, ATTRIBUTION_MODELS, AttributedConversion } from './attributionModels';
+import { EMPTY_REVENUE_BREAKDOWN } from './revenueModel';
+import type { ProcessedTeacherData } from './dataProcessor';
+
+const conversion = (overrides: Partial<AttributedConversion> = {}): AttributedConversion => ({
+  email: 'alice@example.com',
+  teacher: 'Ana',
+  location: 'Studio',
+  period: 'Mar 25',
+  purchaseDate: '2025-03-15',
+  revenue: 6000,
+  revenueBreakdown: { ...EMPTY_REVENUE_BREAKDOWN, gross: 6000, net: 6000 },
+  touches: [
+    { teacher: 'Ana', date: '2025-03-01' },
+    { teacher: 'Ben', date: '2025-03-05' },
+    { teacher: 'Ana', date: '2025-03-08' },
+    { teacher: 'Cy', date: '2025-03-15' },
+  ],
+  ...overrides,
+});
+
+const sumCredits = (credits: Map<string, number>) => [...credits.values()].reduce((sum, credit) => sum + credit, 0);
+
+const row = (overrides: Partial<ProcessedTeacherData>): ProcessedTeacherData => ({
+  teacherName: 'Ana',
+  location: 'Studio',
+  period: 'Mar 25',
+  newClients: 2,
+  convertedClients: 2,
+  conversionRate: 100,
+  totalRevenue: 9000,
+  averageRevenuePerClient: 4500,
+  revenueBreakdown: { ...EMPTY_REVENUE_BREAKDOWN, gross: 9000, net: 9000, lateCancelFees: 500 },
+  ...overrides,
+} as ProcessedTeacherData);
+
+describe('getTouchCredits', () => {
+  it('always hands out exactly one conversion', () => {
+    ATTRIBUTION_MODELS.forEach(model => {
+      expect(sumCredits(getTouchCredits(conversion(), model))).toBeCloseTo(1, 10);
+    });
+  });
+
+  it('credits the first or last class in full', () => {
+    expect([...getTouchCredits(conversion(), 'first-touch')]).toEqual([['Ana', 1]]);
+    expect([...getTouchCredits(conversion(), 'last-touch')]).toEqual([['Cy', 1]]);
+  });
+
+  it('sums the shares of a teacher who taught several classes', () => {
+    const credits = getTouchCredits(conversion(), 'linear');
+
+    expect(credits.get('Ana')).toBeCloseTo(0.5);
+    expect(credits.get('Ben')).toBeCloseTo(0.25);
+    expect(credits.get('Cy')).toBeCloseTo(0.25);
+  });
+
+  it('halves the time-decay weight every half-life before the purchase', () => {
+    const credits = getTouchCredits(conversion({
+      touches: [{ teacher: 'Ana', date: '2025-03-08' }, { teacher: 'Cy', date: '2025-03-15' }],
+    }), 'time-decay');
+
+    expect(credits.get('Ana')).toBeCloseTo(1 / 3);
+    expect(credits.get('Cy')).toBeCloseTo(2 / 3);
+  });
+
+  it('falls back to the first-touch teacher without recorded classes', () => {
+    expect([...getTouchCredits(conversion({ touches: [] }), 'linear')]).toEqual([['Ana', 1]]);
+  });
+});
+
+describe('applyAttributionModel', () => {
+  const studioRow = row({ teacherName: 'All Teachers' });
+  const data = [row({}), studioRow];
+  const conversions = [
+    conversion(),
+    conversion({ email: 'bob@example.com', revenue: 3000, revenueBreakdown: { ...EMPTY_REVENUE_BREAKDOWN, gross: 3000, net: 3000 }, touches: [{ teacher: 'Ana', date: '2025-03-02' }] }),
+    conversion({
+      email: 'carol@example.com',
+      revenue: 0,
+      revenueBreakdown: { ...EMPTY_REVENUE_BREAKDOWN, gross: 2000, refunds: 2000 },
+      converted: false,
+      touches: [{ teacher: 'Ana', date: '2025-03-01' }, { teacher: 'Ben', date: '2025-03-15' }],
+    }),
+  ];
+
+  it('leaves first-touch results as processed', () => {
+    expect(applyAttributionModel(data, conversions, 'first-touch')).toBe(data);
+  });
+
+  it('keeps conversion, revenue and refund totals while moving credit between teachers', () => {
+    const rows = applyAttributionModel(data, conversions, 'linear');
+    const teacherRows = rows.filter(result => result.teacherName !== 'All Teachers');
+    const total = (pick: (result: ProcessedTeacherData) => number) => teacherRows.reduce((sum, result) => sum + pick(result), 0);
+
+    expect(teacherRows.map(result => result.teacherName)).toEqual(['Ana', 'Ben', 'Cy']);
+    expect(total(result => result.convertedClients)).toBeCloseTo(2);
+    expect(total(result => result.totalRevenue)).toBeCloseTo(9000);
+    expect(total(result => result.revenueBreakdown.refunds)).toBeCloseTo(2000);
+    expect(teacherRows[0]).toMatchObject({ convertedClients: 1.5, totalRevenue: 6000 });
+    expect(teacherRows[0].revenueBreakdown.lateCancelFees).toBe(500);
+    expect(teacherRows[1]).toMatchObject({ newClients: 0, convertedClients: 0.25 });
+    expect(teacherRows[1].revenueBreakdown.refunds).toBeCloseTo(1000);
+    expect(rows).toContain(studioRow);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Multi-touch teacher attribution. Each converted client records every
+ * teacher who taught them between their first visit and their first
+ * qualifying purchase; a model then decides how the conversion (and its
+ * revenue) is split between those teachers. First-touch credits the
+ * teacher of the first class, which is how processData counts conversions.
+ */
+import type { ProcessedTeacherData } from './dataProcessor';
+import { getDaysBetween } from './cohortAnalysis';
+import { getGroupKey } from './dataIndex';
+import { RevenueBreakdown, EMPTY_REVENUE_BREAKDOWN, addRevenue, scaleRevenue } from './revenueModel';
+import { workspaceKey } from './workspaces';
+import { secureStorage } from './encryption';
+
+export type AttributionModel = 'first-touch' | 'last-touch' | 'linear' | 'time-decay';
+
+const STORAGE_KEY = 'studio-stats-attribution-model';
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = ['first-touch', 'last-touch', 'linear', 'time-decay'];
+
+export const ATTRIBUTION_MODEL_LABELS: Record<AttributionModel, string> = {
+  'first-touch': 'First touch',
+  'last-touch': 'Last touch',
+  'linear': 'Linear',
+  'time-decay': 'Time decay',
+};
+
+// Days for a class's time-decay weight to halve
+export const TIME_DECAY_HALF_LIFE_DAYS = 7;
+
+export const ATTRIBUTION_MODEL_DESCRIPTIONS: Record<AttributionModel, string> = {
+  'first-touch': 'All credit to the teacher of the first class',
+  'last-touch': 'All credit to the teacher of the last class before the purchase',
+  'linear': 'Credit split equally across every class before the purchase',
+  'time-decay': `Classes closer to the purchase earn more credit, halving every ${TIME_DECAY_HALF_LIFE_DAYS} days`,
+};
+
+// A class taken by a converted client, in date order
+export interface AttributionTouch {
+  teacher: string;
+  date: string;
+}
+
+export interface AttributedConversion {
+  email: string;
+  // Row the conversion is counted in under first-touch
+  teacher: string;
+  location: string;
+  period: string;
+  purchaseDate: string;
+  // Converting sales revenue, split the same way as the conversion
+  revenue: number;
+  // The same sales split into tax, refunds and net; missing in older saved data
+  revenueBreakdown?: RevenueBreakdown;
+  // False when every sale was refunded: the refunds are credited but not a conversion. Missing in older saved data
+  converted?: boolean;
+  // First visit first, then later classes up to the purchase date
+  touches: AttributionTouch[];
+}
+
+/**
+ * Share of one conversion earned by each teacher under the model. Shares
+ * always add up to 1; a teacher who taught several classes gets the sum.
+ */
+export const getTouchCredits = (conversion: AttributedConversion, model: AttributionModel): Map<string, number> => {
+  const credits = new Map<string, number>();
+  const touches = conversion.touches.length > 0
+    ? conversion.touches
+    : [{ teacher: conversion.teacher, date: conversion.purchaseDate }];
+
+  const addCredit = (teacher: string, credit: number) => {
+    credits.set(teacher, (credits.get(teacher) || 0) + credit);
+  };
+
+  switch (model) {
+    case 'first-touch':
+      addCredit(touches[0].teacher, 1);
+      break;
+    case 'last-touch':
+      addCredit(touches[touches.length - 1].teacher, 1);
+      break;
+    case 'linear':
+      touches.forEach(touch => addCredit(touch.teacher, 1 / touches.length));
+      break;
+    case 'time-decay': {
+      const weights = touches.map(touch => {
+        const daysBeforePurchase = Math.max(0, getDaysBetween(touch.date, conversion.purchaseDate) ?? 0);
+        return Math.pow(0.5, daysBeforePurchase / TIME_DECAY_HALF_LIFE_DAYS);
+      });
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      touches.forEach((touch, index) => addCredit(touch.teacher, weights[index] / totalWeight));
+      break;
+    }
+  }
+
+  return credits;
+};
+
+const createAttributedRow = (teacherName: string, location: string, period: string): ProcessedTeacherData => ({
+  teacherName,
+  location,
+  period,
+  newClients: 0,
+  trials: 0,
+  referrals: 0,
+  hosted: 0,
+  influencerSignups: 0,
+  others: 0,
+  retainedClients: 0,
+  retentionRate: 0,
+  convertedClients: 0,
+  conversionRate: 0,
+  totalRevenue: 0,
+  averageRevenuePerClient: 0,
+  noShowRate: 0,
+  lateCancellationRate: 0,
+  firstTimeBuyerRate: 0,
+  influencerConversionRate: 0,
+  referralConversionRate: 0,
+  trialToMembershipConversion: 0,
+  totalVisits: 0,
+  cancellations: 0,
+  lateCancellations: 0,
+  noShows: 0,
+  totalClasses: 0,
+  uniqueClients: 0,
+  newClientDetails: [],
+  retainedClientDetails: [],
+  convertedClientDetails: [],
+  revenueBreakdown: EMPTY_REVENUE_BREAKDOWN,
+});
+
+/**
+ * Teacher rows with conversions and revenue re-credited under the model.
+ * Credit stays in the location and period of the client's first visit, so
+ * studio and period totals don't change. Teachers who earn credit without
+ * a row of their own there get one with no new clients. Studio rows pass
+ * through untouched.
+ */
+export const applyAttributionModel = (
+  data: ProcessedTeacherData[],
+  conversions: AttributedConversion[],
+  model: AttributionModel
+): ProcessedTeacherData[] => {
+  if (model === 'first-touch' || conversions.length === 0) return data;
+
+  const credited = new Map<string, {
+    teacher: string;
+    location: string;
+    period: string;
+    conversions: number;
+    revenue: number;
+    breakdown: RevenueBreakdown;
+  }>();
+  conversions.forEach(conversion => {
+    getTouchCredits(conversion, model).forEach((credit, teacher) => {
+      const key = getGroupKey(teacher, conversion.location, conversion.period);
+      const entry = credited.get(key) || {
+        teacher,
+        location: conversion.location,
+        period: conversion.period,
+        conversions: 0,
+        revenue: 0,
+        breakdown: EMPTY_REVENUE_BREAKDOWN
+      };
+      if (conversion.converted !== false) entry.conversions += credit;
+      entry.revenue += conversion.revenue * credit;
+      entry.breakdown = addRevenue(entry.breakdown, scaleRevenue(conversion.revenueBreakdown || EMPTY_REVENUE_BREAKDOWN, credit));
+      credited.set(key, entry);
+    });
+  });
+
+  const applyCredit = (row: ProcessedTeacherData): ProcessedTeacherData => {
+    const credit = credited.get(getGroupKey(row.teacherName, row.location, row.period));
+    const convertedClients = credit?.conversions || 0;
+    const totalRevenue = credit?.revenue || 0;
+    // Booking fees stay with the teacher who taught the class
+    const revenueBreakdown = row.revenueBreakdown && {
+      ...(credit?.breakdown || EMPTY_REVENUE_BREAKDOWN),
+      lateCancelFees: row.revenueBreakdown.lateCancelFees,
+      noShowFees: row.revenueBreakdown.noShowFees,
+    };
+    return {
+      ...row,
+      convertedClients,
+      conversionRate: row.newClients > 0 ? (convertedClients / row.newClients) * 100 : 0,
+      totalRevenue,
+      averageRevenuePerClient: convertedClients > 0 ? totalRevenue / convertedClients : 0,
+      revenueBreakdown,
+    };
+  };
+
+  const rowKeys = new Set<string>();
+  const rows = data.map(row => {
+    if (row.teacherName === 'All Teachers') return row;
+    rowKeys.add(getGroupKey(row.teacherName, row.location, row.period));
+    return applyCredit(row);
+  });
+
+  credited.forEach((entry, key) => {
+    if (!rowKeys.has(key)) {
+      rows.push(applyCredit(createAttributedRow(entry.teacher, entry.location, entry.period)));
+    }
+  });
+
+  return rows;
+};
+
+export const getAttributionModel = (): AttributionModel => {
+  try {
+    const saved = secureStorage.getItem(workspaceKey(STORAGE_KEY)) as AttributionModel | null;
+    return saved && ATTRIBUTION_MODELS.includes(saved) ? saved : 'first-touch';
+  } catch (e) {
+    console.error("Error retrieving attribution model:", e);
+    return 'first-touch';
+  }
+};
+
+export const saveAttributionModel = (model: AttributionModel): void => {
+  try {
+    secureStorage.setItem(workspaceKey(STORAGE_KEY), model);
+  } catch (e) {
+    console.error("Error saving attribution model:", e);
+  }
+};
+
+// Credited conversions for display; whole numbers unless a model split them
+export const formatAttributedCount = (value: number): string => {
+  return Math.abs(value - Math.round(value)) < 0.005 ? String(Math.round(value)) : value.toFixed(2);
+};
@@ -0,0 +1,253 @@
+/**
+ * Environment-agnostic processing pipeline behind the process-exports
+ * command: CSV text in, processed teacher data and client record lists
+ * out. Nothing here reads files or browser storage, so rules, settings and
+ * import schemas are passed in as a config object rather than loaded.
+ */
+import Papa from 'papaparse';
+import { parseCSV, categorizeFiles, DataFileType } from './csvParser';
+import { detectFileTypeFromHeaders, FileTypeDetection } from './fileDetection';
+import { suggestColumnMapping, getMissingRequiredFields, applyColumnMapping, findSchemaForHeaders, ImportSchema } from './columnMapping';
+import { mergeParsedFiles, MergedImport, ParsedFile } from './fileMerge';
+import { processData, ProcessingOptions, ProcessingProgress, ProcessDataResult } from './dataProcessor';
+import {
+  BusinessRulesConfig,
+  DEFAULT_BUSINESS_RULES,
+  RULE_IDS,
+  validateRule,
+  validateRetentionRule,
+  validateConversionRule
+} from './businessRules';
+import { PeriodSettings, DEFAULT_PERIOD_SETTINGS, PERIOD_GRANULARITY_LABELS, validateCustomPeriod } from './periods';
+
+// A named CSV export, already read into memory
+export interface CsvSource {
+  name: string;
+  content: string;
+}
+
+// Rules config for a headless run; every section falls back to the app defaults
+export interface BatchRulesConfig {
+  businessRules?: Partial<Pick<BusinessRulesConfig, 'rules' | 'retention' | 'conversion'>>;
+  periodSettings?: Partial<PeriodSettings>;
+  // Email pairs to treat as the same client, as confirmed in the identity review
+  identityMerges?: [string, string][];
+  // Column mappings for files whose headers match, in the format the import wizard saves them
+  importSchemas?: ImportSchema[];
+}
+
+export interface BatchFileReport {
+  fileName: string;
+  detection: FileTypeDetection;
+  rowCount: number;
+  // Required columns no header could be mapped to
+  missingFields: string[];
+}
+
+export interface BatchImport extends MergedImport {
+  files: BatchFileReport[];
+  // Problems that make the run meaningless; processing should not start
+  errors: string[];
+  warnings: string[];
+}
+
+const FILE_TYPE_LABELS: Record<DataFileType, string> = {
+  new: 'New clients',
+  bookings: 'Bookings',
+  payments: 'Payments',
+};
+
+// Validators read their fields as the types they expect; a hand-written file may not match
+const runValidator = (name: string, validate: () => string | null): string | null => {
+  try {
+    return validate();
+  } catch (e) {
+    return `${name}: a setting has the wrong type`;
+  }
+};
+
+/**
+ * Processing options from a rules config, merged field by field over the
+ * defaults, together with every validation error found in it. A section of
+ * the wrong shape is reported and left at its default.
+ */
+export const resolveRulesConfig = (config: BatchRulesConfig = {}): { options: ProcessingOptions; errors: string[] } => {
+  const shapeErrors: string[] = [];
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const asObject = <T>(value: T, name: string): T | undefined => {
+    if (value === undefined || isObject(value)) return value;
+    shapeErrors.push(`${name} must be an object`);
+    return undefined;
+  };
+  const asList = <T>(value: T, name: string, itemType: 'object' | 'string'): T | undefined => {
+    const isItem = itemType === 'object' ? isObject : (item: unknown) => typeof item === 'string';
+    if (value === undefined || (Array.isArray(value) && value.every(isItem))) return value;
+    shapeErrors.push(`${name} must be a list of ${itemType === 'object' ? 'objects' : 'text values'}`);
+    return undefined;
+  };
+
+  const businessRulesConfig = asObject(config.businessRules, 'businessRules') || {};
+  const rules = asObject(businessRulesConfig.rules, 'businessRules.rules');
+  const retention = asObject(businessRulesConfig.retention, 'businessRules.retention');
+  const conversion = asObject(businessRulesConfig.conversion, 'businessRules.conversion');
+  const periodSettingsConfig = asObject(config.periodSettings, 'periodSettings') || {};
+
+  const businessRules: BusinessRulesConfig = {
+    ...DEFAULT_BUSINESS_RULES,
+    rules: Object.fromEntries(RULE_IDS.map(id => [
+      id,
+      { ...DEFAULT_BUSINESS_RULES.rules[id], ...asObject(rules?.[id], `businessRules.rules.${id}`), id }
+    ])) as BusinessRulesConfig['rules'],
+    retention: {
+      offers: asList(retention?.offers, 'businessRules.retention.offers', 'object') || DEFAULT_BUSINESS_RULES.retention.offers,
+      fallback: { ...DEFAULT_BUSINESS_RULES.retention.fallback, ...asObject(retention?.fallback, 'businessRules.retention.fallback') },
+    },
+    conversion: {
+      ...DEFAULT_BUSINESS_RULES.conversion,
+      ...conversion,
+      excludedCategories: asList(conversion?.excludedCategories, 'businessRules.conversion.excludedCategories', 'string')
+        || DEFAULT_BUSINESS_RULES.conversion.excludedCategories,
+      excludedItems: asList(conversion?.excludedItems, 'businessRules.conversion.excludedItems', 'string')
+        || DEFAULT_BUSINESS_RULES.conversion.excludedItems,
+    },
+  };
+  const periodSettings: PeriodSettings = {
+    ...DEFAULT_PERIOD_SETTINGS,
+    ...periodSettingsConfig,
+    customPeriods: asList(periodSettingsConfig.customPeriods, 'periodSettings.customPeriods', 'object')
+      || DEFAULT_PERIOD_SETTINGS.customPeriods,
+    fiscalCalendar: asObject(periodSettingsConfig.fiscalCalendar, 'periodSettings.fiscalCalendar')
+      || DEFAULT_PERIOD_SETTINGS.fiscalCalendar,
+  };
+  const identityMerges = config.identityMerges || [];
+  asList(config.importSchemas, 'importSchemas', 'object');
+
+  const errors = [
+    ...shapeErrors,
+    ...RULE_IDS.map(id => runValidator(`businessRules.rules.${id}`, () => validateRule(businessRules.rules[id]))),
+    ...businessRules.retention.offers.map((rule, index) => (
+      runValidator(`businessRules.retention.offers[${index}]`, () => validateRetentionRule(rule))
+    )),
+    runValidator('businessRules.retention.fallback', () => validateRetentionRule(businessRules.retention.fallback, true)),
+    runValidator('businessRules.conversion', () => validateConversionRule(businessRules.conversion)),
+    PERIOD_GRANULARITY_LABELS[periodSettings.granularity] ? null : `Unknown period granularity: "${periodSettings.granularity}"`,
+    ...periodSettings.customPeriods.map((period, index) => (
+      runValidator(`periodSettings.customPeriods[${index}]`, () => validateCustomPeriod(period))
+    )),
+    Array.isArray(identityMerges) && identityMerges.every(pair => Array.isArray(pair) && pair.length === 2)
+      ? null
+      : 'Identity merges must be a list of [email, email] pairs',
+  ].filter((error): error is string => Boolean(error));
+
+  return {
+    options: { businessRules, periodSettings, identityMerges },
+    errors,
+  };
+};
+
+/**
+ * Detect, map and merge CSV sources the way the upload screen does, taking
+ * the mapping of a matching import schema or else the suggested one. A run
+ * without new client or bookings data, or with a required column missing,
+ * fails validation.
+ */
+export const prepareBatchImport = async (sources: CsvSource[], schemas: ImportSchema[] = []): Promise<BatchImport> => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const parsed = new Map<CsvSource, { headers: string[]; rows: Record<string, unknown>[] }>();
+  const detections = new Map<CsvSource, FileTypeDetection>();
+
+  for (const source of sources) {
+    const result = await parseCSV(source.content);
+    const headers = (result.meta.fields || []).filter(Boolean);
+    parsed.set(source, { headers, rows: result.data || [] });
+    detections.set(source, detectFileTypeFromHeaders(headers, source.name, schemas));
+  }
+
+  const fileTypes = new Map([...detections].map(([source, detection]) => [source, detection.fileType]));
+  const categorized = categorizeFiles(sources, fileTypes);
+  const files: BatchFileReport[] = [];
+  const parsedFiles: ParsedFile[] = [];
+
+  categorized.unknown.forEach(source => {
+    warnings.push(`${source.name}: not recognised as a new clients, bookings or payments export, skipped`);
+    files.push({ fileName: source.name, detection: detections.get(source), rowCount: parsed.get(source).rows.length, missingFields: [] });
+  });
+
+  (['new', 'bookings', 'payments'] as DataFileType[]).forEach(fileType => {
+    categorized[fileType].forEach(source => {
+      const { headers, rows } = parsed.get(source);
+      const mapping = findSchemaForHeaders(headers, fileType, schemas)?.mapping || suggestColumnMapping(headers, fileType);
+      const missingFields = getMissingRequiredFields(mapping, fileType).map(field => field.label);
+
+      if (missingFields.length > 0) {
+        errors.push(`${source.name}: missing required ${FILE_TYPE_LABELS[fileType].toLowerCase()} columns: ${missingFields.join(', ')}`);
+      }
+      files.push({ fileName: source.name, detection: detections.get(source), rowCount: rows.length, missingFields });
+      parsedFiles.push({ fileName: source.name, fileType, rows: applyColumnMapping(rows, mapping) });
+    });
+  });
+
+  if (categorized.new.length === 0) errors.push('Missing New client file');
+  if (categorized.bookings.length === 0) errors.push('Missing Bookings file');
+  if (categorized.payments.length === 0) warnings.push('No Payments file; conversions and revenue will be zero');
+
+  const merged = mergeParsedFiles(parsedFiles);
+  if (categorized.new.length > 0 && merged.newClientData.length === 0) errors.push('New client files contain no rows');
+
+  return { ...merged, files, errors, warnings };
+};
+
+// Run processData on a validated import
+export const processBatchImport = (
+  batchImport: BatchImport,
+  options: ProcessingOptions,
+  updateProgress: (progress: ProcessingProgress) => void = () => {}
+): Promise<ProcessDataResult> => {
+  return processData(
+    batchImport.newClientData,
+    batchImport.bookingsData,
+    batchImport.paymentsData,
+    updateProgress,
+    options
+  );
+};
+
+export type BatchOutputName = 'teacher-data' | 'new-clients' | 'converted-clients' | 'retained-clients' | 'excluded-clients';
+
+/**
+ * Result tables written by a batch run. Teacher rows drop their per-client
+ * detail lists, which the client tables already cover.
+ */
+export const getBatchOutputs = (result: ProcessDataResult): Record<BatchOutputName, Record<string, unknown>[]> => ({
+  'teacher-data': result.processedData.map(row => {
+    const { newClientDetails, retainedClientDetails, convertedClientDetails, excludedClientDetails, ...summary } = row;
+    return summary;
+  }),
+  'new-clients': result.newClientRecords,
+  'converted-clients': result.convertedClientRecords,
+  'retained-clients': result.retainedClientRecords,
+  'excluded-clients': result.excludedRecords,
+});
+
+// Nested objects become dotted columns and lists are kept as JSON
+const flattenRow = (row: Record<string, unknown>, prefix = ''): Record<string, unknown> => {
+  return Object.entries(row).reduce((flat, [key, value]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return { ...flat, ...flattenRow(value as Record<string, unknown>, column) };
+    }
+    flat[column] = Array.isArray(value) ? JSON.stringify(value) : value;
+    return flat;
+  }, {} as Record<string, unknown>);
+};
+
+// CSV with a column for every field found in any row
+export const toCSV = (rows: Record<string, unknown>[]): string => {
+  const flatRows = rows.map(row => flattenRow(row));
+  const columns = [...new Set(flatRows.flatMap(row => Object.keys(row)))];
+  return Papa.unparse({
+    fields: columns,
+    data: flatRows.map(row => columns.map(column => row[column] ?? '')),
+  });
+};
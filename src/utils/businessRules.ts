@@ -0,0 +1,326 @@
+/**
+ * Client source classification rules (trials, referrals, hosted,
+ * influencer sign-ups and friends/family/staff exclusions), retention
+ * definitions and the conversion rule, stored as versioned configuration so they can change
+ * without a deploy.
+ */
+import { matchesPattern, cleanFirstVisitValue } from './csvParser';
+import { workspaceKey } from './workspaces';
+import { secureStorage } from './encryption';
+
+export type RuleId = 'trial' | 'referral' | 'hosted' | 'influencer' | 'exclusion';
+export type RuleField = 'Membership used' | 'First visit';
+
+export interface ClassificationRule {
+  id: RuleId;
+  label: string;
+  description: string;
+  pattern: string;
+  matchType: 'regex' | 'exact';
+  fields: RuleField[];
+}
+
+/**
+ * A client is retained after `minVisits` non-cancelled visits following
+ * their first visit, counting only visits within `windowDays` of it.
+ */
+export interface RetentionRule {
+  id: string;
+  label: string;
+  // Regex matched against the intro offer of the first visit
+  pattern: string;
+  minVisits: number;
+  // null counts visits at any time after the first visit
+  windowDays: number | null;
+}
+
+export interface RetentionConfig {
+  // Checked in order, the first rule matching the intro offer applies
+  offers: RetentionRule[];
+  // Applies to intro offers that match no rule
+  fallback: RetentionRule;
+}
+
+/**
+ * A sale converts a client when it is not refunded, its value is above
+ * `minSaleValue` and its category and item contain none of the excluded
+ * terms (case insensitive), made on or after the first visit and within
+ * `windowDays` of it.
+ */
+export interface ConversionRuleConfig {
+  excludedCategories: string[];
+  excludedItems: string[];
+  minSaleValue: number;
+  // null allows purchases at any time after the first visit
+  windowDays: number | null;
+}
+
+export interface BusinessRulesConfig {
+  version: number;
+  updatedAt: string;
+  note?: string;
+  rules: Record<RuleId, ClassificationRule>;
+  retention: RetentionConfig;
+  conversion: ConversionRuleConfig;
+}
+
+type RuleRecord = Partial<Record<RuleField, string>>;
+
+const STORAGE_KEY = 'studio-stats-business-rules';
+const MAX_HISTORY = 20;
+
+export const RULE_IDS: RuleId[] = ['trial', 'referral', 'hosted', 'influencer', 'exclusion'];
+export const RULE_FIELDS: RuleField[] = ['Membership used', 'First visit'];
+
+export const DEFAULT_BUSINESS_RULES: BusinessRulesConfig = {
+  version: 1,
+  updatedAt: '1970-01-01T00:00:00.000Z',
+  note: 'Default rules',
+  rules: {
+    trial: {
+      id: 'trial',
+      label: 'Trials',
+      description: 'Intro offers counted as trials',
+      pattern: 'Studio Open Barre Class|Newcomers 2 For 1',
+      matchType: 'regex',
+      fields: ['Membership used'],
+    },
+    referral: {
+      id: 'referral',
+      label: 'Referrals',
+      description: 'Complimentary referral classes',
+      pattern: 'Studio Complimentary Referral Class',
+      matchType: 'exact',
+      fields: ['Membership used'],
+    },
+    hosted: {
+      id: 'hosted',
+      label: 'Hosted',
+      description: 'Hosted, partner and event classes',
+      pattern: 'hosted|x|p57|physique|weword|rugby|outdoor|birthday|bridal|shower',
+      matchType: 'regex',
+      fields: ['First visit'],
+    },
+    influencer: {
+      id: 'influencer',
+      label: 'Influencer sign-ups',
+      description: 'Sign-up links, influencer and partner memberships',
+      pattern: 'sign-up|link|influencer|twain|ooo|lrs|x|p57|physique|complimentary',
+      matchType: 'regex',
+      fields: ['Membership used'],
+    },
+    exclusion: {
+      id: 'exclusion',
+      label: 'Friends, family & staff',
+      description: 'Excluded from all metrics',
+      pattern: 'friends|family|staff',
+      matchType: 'regex',
+      fields: ['Membership used', 'First visit'],
+    },
+  },
+  retention: {
+    offers: [
+      {
+        id: '2-for-1',
+        label: '2 For 1',
+        pattern: '2 for 1',
+        minVisits: 2,
+        windowDays: null,
+      },
+    ],
+    fallback: {
+      id: 'default',
+      label: 'Other intro offers',
+      pattern: '',
+      minVisits: 1,
+      windowDays: null,
+    },
+  },
+  conversion: {
+    excludedCategories: ['product', 'money credits'],
+    excludedItems: ['2 for 1'],
+    minSaleValue: 0,
+    windowDays: null,
+  },
+};
+
+interface StoredBusinessRules {
+  current: BusinessRulesConfig;
+  history: BusinessRulesConfig[];
+}
+
+const loadStoredRules = (): StoredBusinessRules | null => {
+  try {
+    const saved = secureStorage.getItem(workspaceKey(STORAGE_KEY));
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Error retrieving business rules:", e);
+    return null;
+  }
+};
+
+// Fill in any rule added since a configuration was saved
+export const withDefaults = (config: BusinessRulesConfig): BusinessRulesConfig => ({
+  ...config,
+  rules: { ...DEFAULT_BUSINESS_RULES.rules, ...config.rules },
+  retention: config.retention || DEFAULT_BUSINESS_RULES.retention,
+  conversion: config.conversion || DEFAULT_BUSINESS_RULES.conversion,
+});
+
+// The active rules configuration
+export const getBusinessRules = (): BusinessRulesConfig => {
+  const stored = loadStoredRules();
+  if (!stored?.current) return DEFAULT_BUSINESS_RULES;
+
+  return withDefaults(stored.current);
+};
+
+// Previous versions, newest first
+export const getBusinessRulesHistory = (): BusinessRulesConfig[] => {
+  return (loadStoredRules()?.history || []).map(withDefaults);
+};
+
+/**
+ * Save rules as a new version. The previous configuration is kept in the
+ * history so it can be restored later.
+ */
+export const saveBusinessRules = (
+  { rules, retention, conversion }: Pick<BusinessRulesConfig, 'rules' | 'retention' | 'conversion'>,
+  note?: string
+): BusinessRulesConfig => {
+  const current = getBusinessRules();
+  const next: BusinessRulesConfig = {
+    version: current.version + 1,
+    updatedAt: new Date().toISOString(),
+    note,
+    rules,
+    retention,
+    conversion,
+  };
+
+  try {
+    secureStorage.setItem(workspaceKey(STORAGE_KEY), JSON.stringify({
+      current: next,
+      history: [current, ...getBusinessRulesHistory()].slice(0, MAX_HISTORY),
+    }));
+  } catch (e) {
+    console.error("Error saving business rules:", e);
+  }
+
+  return next;
+};
+
+// Return an error message if a rule's pattern cannot be used
+export const validateRule = (rule: ClassificationRule): string | null => {
+  if (!rule.pattern.trim()) return `${rule.label}: pattern cannot be empty`;
+  if (rule.fields.length === 0) return `${rule.label}: choose at least one field to match`;
+  if (rule.matchType === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (e) {
+      return `${rule.label}: invalid pattern (${(e as Error).message})`;
+    }
+  }
+  return null;
+};
+
+export const validateRetentionRule = (rule: RetentionRule, isFallback = false): string | null => {
+  if (!rule.label.trim()) return 'Retention rules need a name';
+  if (!isFallback) {
+    if (!rule.pattern.trim()) return `${rule.label}: intro offer pattern cannot be empty`;
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (e) {
+      return `${rule.label}: invalid pattern (${(e as Error).message})`;
+    }
+  }
+  if (!Number.isInteger(rule.minVisits) || rule.minVisits < 1) return `${rule.label}: visits must be a whole number of at least 1`;
+  if (rule.windowDays !== null && (!Number.isInteger(rule.windowDays) || rule.windowDays < 1)) {
+    return `${rule.label}: window must be a whole number of days, or empty for no limit`;
+  }
+  return null;
+};
+
+export const validateConversionRule = (config: ConversionRuleConfig): string | null => {
+  if (!Number.isFinite(config.minSaleValue) || config.minSaleValue < 0) return 'Conversion: minimum sale value must be zero or more';
+  if (config.windowDays !== null && (!Number.isInteger(config.windowDays) || config.windowDays < 1)) {
+    return 'Conversion: window must be a whole number of days, or empty for no limit';
+  }
+  return null;
+};
+
+const matchesRuleValue = (value: string, rule: ClassificationRule): boolean => {
+  return rule.matchType === 'exact' ? value === rule.pattern : matchesPattern(value, rule.pattern);
+};
+
+// First field of the record that satisfies the rule, if any
+export const getMatchingRuleField = (record: RuleRecord, rule: ClassificationRule): RuleField | undefined => {
+  return rule.fields.find(field => matchesRuleValue(record[field] || '', rule));
+};
+
+export const matchesRule = (record: RuleRecord, rule: ClassificationRule): boolean => {
+  return getMatchingRuleField(record, rule) !== undefined;
+};
+
+// Retention rule that applies to a client's first visit (intro offer)
+export const getRetentionRule = (firstVisit: string, retention: RetentionConfig): RetentionRule => {
+  return retention.offers.find(rule => matchesPattern(firstVisit, rule.pattern)) || retention.fallback;
+};
+
+// Short summary of a retention rule, e.g. "2 visits within 30 days"
+export const describeRetentionRule = (rule: RetentionRule): string => {
+  const visits = `${rule.minVisits} ${rule.minVisits === 1 ? 'visit' : 'visits'}`;
+  return rule.windowDays === null ? `${visits}, no time limit` : `${visits} within ${rule.windowDays} days`;
+};
+
+/**
+ * Count how many new clients each rule matches. Class names are cleaned
+ * the same way processData cleans them; source rules only count clients
+ * that are not excluded.
+ */
+export const previewRuleMatches = (
+  newClientData: RuleRecord[],
+  rules: Record<RuleId, ClassificationRule>
+): Record<RuleId, number> & { total: number } => {
+  const counts = { trial: 0, referral: 0, hosted: 0, influencer: 0, exclusion: 0, total: newClientData.length };
+
+  newClientData.forEach(record => {
+    const cleaned: RuleRecord = {
+      'Membership used': record['Membership used'],
+      'First visit': cleanFirstVisitValue(record['First visit'] || ''),
+    };
+
+    if (matchesRule(cleaned, rules.exclusion)) {
+      counts.exclusion++;
+      return;
+    }
+
+    RULE_IDS.filter(id => id !== 'exclusion').forEach(id => {
+      if (matchesRule(cleaned, rules[id])) counts[id]++;
+    });
+  });
+
+  return counts;
+};
+
+// Count how many non-excluded new clients each retention rule would judge, keyed by rule id
+export const previewRetentionMatches = (
+  newClientData: RuleRecord[],
+  retention: RetentionConfig,
+  exclusionRule: ClassificationRule
+): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  [...retention.offers, retention.fallback].forEach(rule => { counts[rule.id] = 0; });
+
+  newClientData.forEach(record => {
+    const cleaned: RuleRecord = {
+      'Membership used': record['Membership used'],
+      'First visit': cleanFirstVisitValue(record['First visit'] || ''),
+    };
+    if (matchesRule(cleaned, exclusionRule)) return;
+
+    counts[getRetentionRule(cleaned['First visit'] || '', retention).id]++;
+  });
+
+  return counts;
+};
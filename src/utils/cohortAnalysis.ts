@@ -0,0 +1,126 @@
+/**
+ * Cohort analysis: new clients grouped by the month of their first
+ * visit, with cumulative retention and conversion measured at fixed
+ * horizons after that visit. A client only counts towards a horizon once
+ * the data covers that many days after their first visit, so recent
+ * cohorts aren't shown as underperforming.
+ */
+import { parseDate } from './csvParser';
+import { getPeriodLabel, sortPeriods } from './periods';
+
+// Days after the first visit at which cohorts are measured
+export const COHORT_HORIZONS = [7, 30, 60, 90, 180];
+
+export type CohortMetric = 'retention' | 'conversion';
+
+// One new client as seen by the cohort analysis
+export interface CohortClient {
+  email: string;
+  firstVisitDate: string;
+  teacher: string;
+  location: string;
+  introOffer: string;
+  // Days from the first visit until the retention rule was met, null if it never was
+  retainedAfterDays: number | null;
+  // Days from the first visit until the first qualifying purchase, null if none
+  convertedAfterDays: number | null;
+}
+
+export interface CohortData {
+  clients: CohortClient[];
+  // Latest booking or sale date in the data
+  observedUntil: string;
+}
+
+export interface CohortFilters {
+  teacher: string[];
+  location: string[];
+  introOffer: string[];
+}
+
+export interface CohortCell {
+  days: number;
+  // Clients whose first visit was at least this many days before the end of the data
+  eligible: number;
+  retained: number;
+  converted: number;
+  retentionRate: number | null;
+  conversionRate: number | null;
+}
+
+export interface CohortRow {
+  cohort: string;
+  clients: number;
+  cells: CohortCell[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from one date to another, or null when either can't be read
+export const getDaysBetween = (fromStr: string, toStr: string): number | null => {
+  const from = parseDate(fromStr);
+  const to = parseDate(toStr);
+  if (!from || !to) return null;
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+};
+
+// Latest YYYY-MM-DD date among the given values
+export const getLatestDate = (dates: string[]): string => {
+  return dates.reduce((latest, date) => /^\d{4}-\d{2}-\d{2}$/.test(date) && date > latest ? date : latest, '');
+};
+
+const matchesFilter = (value: string, selected: string[]): boolean => {
+  return selected.length === 0 || selected.includes(value);
+};
+
+/**
+ * Cohort rows in chronological order, one per first-visit month, for the
+ * clients matching the filters. Empty filters match every client.
+ */
+export const analyzeCohorts = (
+  data: CohortData,
+  filters: CohortFilters,
+  horizons: number[] = COHORT_HORIZONS
+): CohortRow[] => {
+  const clientsByCohort = new Map<string, CohortClient[]>();
+  data.clients
+    .filter(client =>
+      matchesFilter(client.teacher, filters.teacher) &&
+      matchesFilter(client.location, filters.location) &&
+      matchesFilter(client.introOffer, filters.introOffer)
+    )
+    .forEach(client => {
+      const cohort = getPeriodLabel(client.firstVisitDate);
+      const cohortClients = clientsByCohort.get(cohort);
+      if (cohortClients) {
+        cohortClients.push(client);
+      } else {
+        clientsByCohort.set(cohort, [client]);
+      }
+    });
+
+  return sortPeriods([...clientsByCohort.keys()]).map(cohort => {
+    const clients = clientsByCohort.get(cohort) || [];
+
+    const cells = horizons.map(days => {
+      const eligibleClients = clients.filter(client => {
+        const observedDays = getDaysBetween(client.firstVisitDate, data.observedUntil);
+        return observedDays !== null && observedDays >= days;
+      });
+      const retained = eligibleClients.filter(client => client.retainedAfterDays !== null && client.retainedAfterDays <= days).length;
+      const converted = eligibleClients.filter(client => client.convertedAfterDays !== null && client.convertedAfterDays <= days).length;
+      const eligible = eligibleClients.length;
+
+      return {
+        days,
+        eligible,
+        retained,
+        converted,
+        retentionRate: eligible > 0 ? (retained / eligible) * 100 : null,
+        conversionRate: eligible > 0 ? (converted / eligible) * 100 : null,
+      };
+    });
+
+    return { cohort, clients: clients.length, cells };
+  });
+};
@@ -0,0 +1,224 @@
+/**
+ * Utilities for mapping uploaded CSV headers onto the canonical fields
+ * that processData expects, and for persisting those mappings as
+ * reusable import schemas.
+ */
+import type { DataFileType } from './csvParser';
+import { secureStorage } from './encryption';
+
+export interface CanonicalField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases?: string[];
+}
+
+// Canonical field -> source header
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportSchema {
+  id: string;
+  name: string;
+  fileType: DataFileType;
+  signature: string;
+  mapping: ColumnMapping;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const SCHEMAS_STORAGE_KEY = 'studio-stats-import-schemas';
+
+// Canonical fields per file type, matching the record shapes used in dataProcessor
+export const CANONICAL_FIELDS: Record<DataFileType, CanonicalField[]> = {
+  new: [
+    { key: 'First name', label: 'First name', required: true, aliases: ['first', 'given name', 'firstname'] },
+    { key: 'Last name', label: 'Last name', aliases: ['last', 'surname', 'family name', 'lastname'] },
+    { key: 'Email', label: 'Email', required: true, aliases: ['email address', 'customer email', 'client email', 'e-mail'] },
+    { key: 'Phone number', label: 'Phone number', aliases: ['phone', 'mobile', 'telephone', 'contact number'] },
+    { key: 'Payment method', label: 'Payment method', aliases: ['payment type'] },
+    { key: 'Membership used', label: 'Membership used', aliases: ['membership', 'pass used', 'package used'] },
+    { key: 'First visit at', label: 'First visit date', required: true, aliases: ['first visit date', 'first class date', 'visit date'] },
+    { key: 'First visit', label: 'First visit class', required: true, aliases: ['first class', 'first class name', 'first visit class'] },
+    { key: 'First visit location', label: 'First visit location', required: true, aliases: ['first location', 'visit location', 'location'] },
+    { key: 'Visit type', label: 'Visit type', aliases: ['type'] },
+    { key: 'Home location', label: 'Home location', aliases: ['home studio'] },
+  ],
+  bookings: [
+    { key: 'Sale Date', label: 'Sale date', aliases: ['booked at', 'booking date', 'purchase date'] },
+    { key: 'Class Name', label: 'Class name', required: true, aliases: ['class', 'session name', 'session'] },
+    { key: 'Class Date', label: 'Class date', required: true, aliases: ['session date', 'date'] },
+    { key: 'Location', label: 'Location', required: true, aliases: ['studio', 'class location'] },
+    { key: 'Teacher', label: 'Teacher', required: true, aliases: ['instructor', 'trainer', 'coach'] },
+    { key: 'Customer Email', label: 'Customer email', required: true, aliases: ['email', 'client email', 'email address'] },
+    { key: 'Payment Method', label: 'Payment method', aliases: ['payment type'] },
+    { key: 'Membership used', label: 'Membership used', aliases: ['membership', 'pass used'] },
+    { key: 'Sale Value', label: 'Sale value', aliases: ['price', 'amount', 'value'] },
+    { key: 'Sales tax', label: 'Sales tax', aliases: ['tax', 'vat', 'gst'] },
+    { key: 'Cancelled', label: 'Cancelled', aliases: ['canceled', 'is cancelled'] },
+    { key: 'Late Cancelled', label: 'Late cancelled', aliases: ['late canceled', 'late cancel'] },
+    { key: 'No Show', label: 'No show', aliases: ['noshow', 'missed'] },
+    { key: 'Sold by', label: 'Sold by', aliases: ['seller', 'staff'] },
+    { key: 'Refunded', label: 'Refunded', aliases: ['is refunded'] },
+    { key: 'Home location', label: 'Home location', aliases: ['home studio'] },
+  ],
+  payments: [
+    { key: 'Category', label: 'Category', required: true, aliases: ['product category', 'type'] },
+    { key: 'Item', label: 'Item', required: true, aliases: ['product', 'item name', 'description'] },
+    { key: 'Date', label: 'Date', required: true, aliases: ['sale date', 'payment date', 'purchase date'] },
+    { key: 'Sale value', label: 'Sale value', required: true, aliases: ['amount', 'price', 'total', 'value'] },
+    { key: 'Tax', label: 'Tax', aliases: ['sales tax', 'vat', 'gst'] },
+    { key: 'Refunded', label: 'Refunded', aliases: ['is refunded'] },
+    { key: 'Payment method', label: 'Payment method', aliases: ['payment type'] },
+    { key: 'Payment status', label: 'Payment status', aliases: ['status'] },
+    { key: 'Sold by', label: 'Sold by', aliases: ['seller', 'staff'] },
+    { key: 'Paying Customer email', label: 'Paying customer email', aliases: ['payer email', 'billing email'] },
+    { key: 'Paying Customer name', label: 'Paying customer name', aliases: ['payer name', 'billing name'] },
+    { key: 'Customer email', label: 'Customer email', required: true, aliases: ['email', 'client email', 'email address'] },
+    { key: 'Customer name', label: 'Customer name', aliases: ['client name', 'name'] },
+    { key: 'Location', label: 'Location', aliases: ['studio'] },
+    { key: 'Note', label: 'Note', aliases: ['notes', 'comment'] },
+  ],
+};
+
+export const normalizeHeader = (header: string): string =>
+  (header || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Build a stable signature for a header row so the same export layout
+ * can be recognised on later uploads regardless of column order
+ */
+export const getHeaderSignature = (headers: string[]): string => {
+  return [...new Set(headers.map(normalizeHeader).filter(Boolean))].sort().join('|');
+};
+
+/**
+ * Suggest a mapping from detected headers to canonical fields.
+ * Exact name matches win, then known aliases, then partial matches.
+ */
+export const suggestColumnMapping = (headers: string[], fileType: DataFileType): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map(header => ({ header, norm: normalizeHeader(header) }));
+  const fields = CANONICAL_FIELDS[fileType];
+
+  const claim = (field: CanonicalField, predicate: (norm: string) => boolean) => {
+    if (mapping[field.key]) return;
+    const match = normalized.find(h => !used.has(h.header) && predicate(h.norm));
+    if (match) {
+      mapping[field.key] = match.header;
+      used.add(match.header);
+    }
+  };
+
+  // Pass 1: exact canonical name
+  fields.forEach(field => claim(field, norm => norm === normalizeHeader(field.key)));
+
+  // Pass 2: aliases
+  fields.forEach(field => {
+    const aliases = (field.aliases || []).map(normalizeHeader);
+    claim(field, norm => aliases.includes(norm));
+  });
+
+  // Pass 3: partial matches on the canonical name
+  fields.forEach(field => {
+    const fieldNorm = normalizeHeader(field.key);
+    claim(field, norm => norm.includes(fieldNorm) || (norm.length > 3 && fieldNorm.includes(norm)));
+  });
+
+  return mapping;
+};
+
+// List required canonical fields that have no source header
+export const getMissingRequiredFields = (mapping: ColumnMapping, fileType: DataFileType): CanonicalField[] => {
+  return CANONICAL_FIELDS[fileType].filter(field => field.required && !mapping[field.key]);
+};
+
+/**
+ * Rewrite parsed rows so every mapped canonical field is populated
+ * from its source column. Original columns are kept for the raw data view.
+ */
+export const applyColumnMapping = <T extends Record<string, unknown>>(
+  rows: T[],
+  mapping?: ColumnMapping
+): T[] => {
+  if (!mapping || Object.keys(mapping).length === 0) return rows;
+
+  const entries = Object.entries(mapping).filter(([field, source]) => source && field !== source);
+  if (entries.length === 0) return rows;
+
+  return rows.map(row => {
+    const mapped: Record<string, unknown> = { ...row };
+    entries.forEach(([field, source]) => {
+      mapped[field] = row[source];
+    });
+    return mapped as T;
+  });
+};
+
+// Load all saved import schemas
+export const getImportSchemas = (): ImportSchema[] => {
+  try {
+    const saved = secureStorage.getItem(SCHEMAS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Error retrieving import schemas:", e);
+    return [];
+  }
+};
+
+const writeImportSchemas = (schemas: ImportSchema[]): void => {
+  try {
+    secureStorage.setItem(SCHEMAS_STORAGE_KEY, JSON.stringify(schemas));
+  } catch (e) {
+    console.error("Error saving import schemas:", e);
+  }
+};
+
+// Find a schema whose header signature matches this file, among the saved ones unless a list is given
+export const findSchemaForHeaders = (
+  headers: string[],
+  fileType?: DataFileType,
+  schemas: ImportSchema[] = getImportSchemas()
+): ImportSchema | undefined => {
+  const signature = getHeaderSignature(headers);
+  return schemas.find(schema =>
+    schema.signature === signature && (!fileType || schema.fileType === fileType)
+  );
+};
+
+/**
+ * Save a mapping as a named schema. A schema with the same signature and
+ * file type is replaced so re-saving a layout updates it in place.
+ */
+export const saveImportSchema = (
+  name: string,
+  fileType: DataFileType,
+  headers: string[],
+  mapping: ColumnMapping
+): ImportSchema => {
+  const signature = getHeaderSignature(headers);
+  const schemas = getImportSchemas();
+  const now = new Date().toISOString();
+  const existing = schemas.find(schema => schema.signature === signature && schema.fileType === fileType);
+
+  const schema: ImportSchema = {
+    id: existing?.id || `schema-${Date.now()}`,
+    name: name.trim() || existing?.name || `${fileType} import`,
+    fileType,
+    signature,
+    mapping,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  writeImportSchemas([schema, ...schemas.filter(s => s.id !== schema.id)]);
+  return schema;
+};
+
+// Delete a saved schema
+export const deleteImportSchema = (id: string): void => {
+  writeImportSchemas(getImportSchemas().filter(schema => schema.id !== id));
+};
+
+// Mappings chosen in the wizard, keyed by the uploaded file
+export type FileColumnMappings = Map<File, ColumnMapping>;
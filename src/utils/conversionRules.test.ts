@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateConversionSale, getSaleValue, ConversionSale } from './conversionRules';
+import type { ConversionRuleConfig } from './businessRules';
+
+const rule: ConversionRuleConfig = {
+  excludedCategories: ['product'],
+  excludedItems: ['gift card'],
+  minSaleValue: 0,
+  windowDays: 30,
+};
+
+const sale = (overrides: ConversionSale = {}): ConversionSale => ({
+  'Date': '2025-03-10',
+  'Sale value': 5000,
+  'Category': 'Membership',
+  'Item': 'Monthly Unlimited',
+  'Refunded': 'NO',
+  ...overrides,
+});
+
+describe('getSaleValue', () => {
+  it('ignores currency symbols and separators', () => {
+    expect(getSaleValue({ 'Sale value': '₹1,200.50' })).toBe(1200.5);
+    expect(getSaleValue({ 'Sale value': 800 })).toBe(800);
+    expect(getSaleValue({})).toBe(0);
+  });
+});
+
+describe('evaluateConversionSale', () => {
+  it('counts a purchase on the day of the first visit, whatever the time of day', () => {
+    const withTime = evaluateConversionSale(sale({ 'Date': '2025-03-01, 10:00 AM' }), '2025-03-01', rule);
+    const firstVisitWithTime = evaluateConversionSale(sale({ 'Date': '2025-03-01' }), '2025-03-01, 6:30 PM', rule);
+
+    expect(withTime.isConverted).toBe(true);
+    expect(firstVisitWithTime.isConverted).toBe(true);
+  });
+
+  it('rejects a purchase before the first visit', () => {
+    const check = evaluateConversionSale(sale({ 'Date': '2025-02-28' }), '2025-03-01', rule);
+
+    expect(check.isConverted).toBe(false);
+    expect(check.reason).toContain('is not after first visit date');
+  });
+
+  it('counts the last day of the window and not the day after', () => {
+    expect(evaluateConversionSale(sale({ 'Date': '2025-03-31, 11:59 PM' }), '2025-03-01', rule).isConverted).toBe(true);
+    expect(evaluateConversionSale(sale({ 'Date': '2025-04-01' }), '2025-03-01', rule).isConverted).toBe(false);
+    expect(evaluateConversionSale(sale({ 'Date': '2026-03-01' }), '2025-03-01', { ...rule, windowDays: null }).isConverted).toBe(true);
+  });
+
+  it('excludes categories and items by case-insensitive substring', () => {
+    const category = evaluateConversionSale(sale({ 'Category': 'Retail PRODUCT' }), '2025-03-01', rule);
+    const item = evaluateConversionSale(sale({ 'Item': 'Gift Card 2000' }), '2025-03-01', rule);
+
+    expect(category.isConverted).toBe(false);
+    expect(category.reason).toContain('Excluded category');
+    expect(item.isConverted).toBe(false);
+    expect(item.reason).toContain('Excluded item');
+  });
+
+  it('needs a sale value above the minimum', () => {
+    expect(evaluateConversionSale(sale({ 'Sale value': 0 }), '2025-03-01', rule).isConverted).toBe(false);
+    expect(evaluateConversionSale(sale({ 'Sale value': 1000 }), '2025-03-01', { ...rule, minSaleValue: 1000 }).isConverted).toBe(false);
+    expect(evaluateConversionSale(sale({ 'Sale value': 1001 }), '2025-03-01', { ...rule, minSaleValue: 1000 }).isConverted).toBe(true);
+  });
+
+  it('keeps refunded sales in revenue without converting', () => {
+    const refunded = evaluateConversionSale(sale({ 'Refunded': 'YES' }), '2025-03-01', rule);
+    const excluded = evaluateConversionSale(sale({ 'Refunded': 'YES', 'Category': 'Product' }), '2025-03-01', rule);
+
+    expect(refunded).toMatchObject({ isConverted: false, isRevenueSale: true, saleValue: 5000 });
+    expect(excluded.isRevenueSale).toBe(false);
+  });
+});
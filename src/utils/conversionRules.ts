@@ -0,0 +1,90 @@
+/**
+ * Shared conversion rule engine. processData and every view that judges
+ * conversions call evaluateConversionSale, so they always agree on which
+ * purchases count.
+ */
+import { formatDateString, isDateAfter, isWithinDays } from './csvParser';
+import type { ConversionRuleConfig } from './businessRules';
+import type { SaleRecord } from './dataProcessor';
+
+export type ConversionSale = Partial<Pick<SaleRecord, 'Category' | 'Item' | 'Date' | 'Sale value' | 'Refunded'>>;
+
+export interface ConversionCheck {
+  isConverted: boolean;
+  reason: string;
+  saleValue: number;
+  // Passes every check except the refund check, so it belongs in gross revenue and refunds
+  isRevenueSale: boolean;
+}
+
+// Numeric sale value, ignoring currency symbols and separators
+export const getSaleValue = (sale: ConversionSale): number => {
+  return typeof sale['Sale value'] === 'number' ?
+    sale['Sale value'] : parseFloat(String(sale['Sale value'] || '0').replace(/[^0-9.-]+/g, ''));
+};
+
+// First exclusion term contained in the value (case insensitive)
+const findExcludedTerm = (value: string, terms: string[]): string | undefined => {
+  const lowerValue = value.toLowerCase();
+  return terms.find(term => term.trim() && lowerValue.includes(term.trim().toLowerCase()));
+};
+
+/**
+ * Decide whether a sale converts a client whose first visit was on the
+ * given date. Checks run in a fixed order and the reason names the first
+ * one that failed. The refund check runs last, so a refunded sale still
+ * counts towards gross revenue and refunds. Both dates are compared as
+ * calendar days, whatever time of day the export gives.
+ */
+export const evaluateConversionSale = (
+  sale: ConversionSale,
+  firstVisitAt: string,
+  config: ConversionRuleConfig
+): ConversionCheck => {
+  const saleDate = formatDateString(sale['Date'] || '');
+  const firstVisitDate = formatDateString(firstVisitAt);
+  const saleValue = getSaleValue(sale);
+  const excludedCategory = findExcludedTerm(sale['Category'] || '', config.excludedCategories);
+  const excludedItem = findExcludedTerm(sale['Item'] || '', config.excludedItems);
+
+  const fail = (reason: string): ConversionCheck => ({ isConverted: false, reason, saleValue, isRevenueSale: false });
+
+  if (!isDateAfter(saleDate, firstVisitDate)) {
+    return fail(`Purchase date (${saleDate}) is not after first visit date (${firstVisitDate})`);
+  }
+  if (config.windowDays !== null && !isWithinDays(saleDate, firstVisitDate, config.windowDays)) {
+    return fail(`Purchase date (${saleDate}) is more than ${config.windowDays} days after first visit date (${firstVisitDate})`);
+  }
+  if (excludedCategory) {
+    return fail(`Excluded category: "${sale['Category']}" (contains "${excludedCategory}")`);
+  }
+  if (excludedItem) {
+    return fail(`Excluded item: "${sale['Item']}" (contains "${excludedItem}")`);
+  }
+  if (!(saleValue > config.minSaleValue)) {
+    return fail(config.minSaleValue > 0
+      ? `Sale value ${saleValue} is not above the minimum of ${config.minSaleValue}`
+      : `No sale value or zero value: ${saleValue}`);
+  }
+  if (sale['Refunded'] === 'YES') {
+    return { ...fail(`Purchase was refunded: "${sale['Item']}"`), isRevenueSale: true };
+  }
+
+  return {
+    isConverted: true,
+    reason: `Converted with "${sale['Item']}" for ₹${saleValue} on ${saleDate}`,
+    saleValue,
+    isRevenueSale: true,
+  };
+};
+
+// Short summary of the conversion rule for display
+export const describeConversionRule = (config: ConversionRuleConfig): string => {
+  const parts = [
+    config.minSaleValue > 0 ? `purchase above ₹${config.minSaleValue}` : 'paid purchase',
+    config.windowDays === null ? 'any time after the first visit' : `within ${config.windowDays} days of the first visit`,
+  ];
+  if (config.excludedCategories.length > 0) parts.push(`excluding categories: ${config.excludedCategories.join(', ')}`);
+  if (config.excludedItems.length > 0) parts.push(`excluding items: ${config.excludedItems.join(', ')}`);
+  return parts.join(', ');
+};
@@ -1,4 +1,7 @@
 import Papa from 'papaparse';
+import { secureStorage } from './encryption';
+
+export type DataFileType = 'new' | 'bookings' | 'payments';
 
 interface ParseOptions {
   header: boolean;
@@ -6,8 +9,9 @@ interface ParseOptions {
   transformHeader?: (header: string) => string;
 }
 
+// Parse a browser File or CSV text, so the same parser runs headless
 export const parseCSV = (
-  file: File,
+  file: File | string,
   options: ParseOptions = { header: true, skipEmptyLines: true }
 ): Promise<{data: any[]; meta: Papa.ParseMeta}> => {
   return new Promise((resolve, reject) => {
@@ -26,32 +30,50 @@ export const parseCSV = (
   });
 };
 
-export const categorizeFiles = (files: File[]) => {
-  const categorized = {
-    new: undefined as File | undefined,
-    bookings: undefined as File | undefined,
-    payments: undefined as File | undefined,
-    unknown: [] as File[],
-  };
+// Read only the header row of a CSV file or CSV text
+export const readCSVHeaders = (file: File | string): Promise<string[]> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      preview: 1,
+      skipEmptyLines: true,
+      complete: (results) => {
+        resolve((results.meta.fields || []).filter(Boolean));
+      },
+      error: (error) => {
+        reject(error);
+      },
+    });
+  });
+};
 
-  const filePatterns = {
-    new: 'new',
-    bookings: 'bookings',
-    payments: 'payments?',
+// Guess a file's type from its name alone
+export const getFileTypeFromName = (fileName: string): DataFileType | 'unknown' => {
+  const filePatterns = getFileTypes();
+  const name = fileName.toLowerCase();
+
+  if (new RegExp(filePatterns.new, 'i').test(name)) return 'new';
+  if (new RegExp(filePatterns.bookings, 'i').test(name)) return 'bookings';
+  if (new RegExp(filePatterns.payments, 'i').test(name)) return 'payments';
+  return 'unknown';
+};
+
+// Group files by type (several files may share a type), using detected types where available and the filename otherwise.
+// Anything with a name can be grouped, so browser Files and headless sources share this
+export const categorizeFiles = <T extends { name: string }>(
+  files: T[],
+  fileTypes?: Map<T, DataFileType | 'unknown'>
+) => {
+  const categorized = {
+    new: [] as T[],
+    bookings: [] as T[],
+    payments: [] as T[],
+    unknown: [] as T[],
   };
 
   files.forEach(file => {
-    const fileName = file.name.toLowerCase();
-    
-    if (new RegExp(filePatterns.new, 'i').test(fileName)) {
-      categorized.new = file;
-    } else if (new RegExp(filePatterns.bookings, 'i').test(fileName)) {
-      categorized.bookings = file;
-    } else if (new RegExp(filePatterns.payments, 'i').test(fileName)) {
-      categorized.payments = file;
-    } else {
-      categorized.unknown.push(file);
-    }
+    const fileType = fileTypes?.get(file) || getFileTypeFromName(file.name);
+    categorized[fileType].push(file);
   });
 
   return categorized;
@@ -150,7 +172,7 @@ export const formatNumber = (num: number): string => {
 // Get search history from local storage
 export const getSearchHistory = (): string[] => {
   try {
-    const history = localStorage.getItem('searchHistory');
+    const history = secureStorage.getItem('searchHistory');
     return history ? JSON.parse(history) : [];
   } catch (e) {
     console.error("Error retrieving search history:", e);
@@ -166,7 +188,7 @@ export const addToSearchHistory = (term: string): void => {
     const history = getSearchHistory();
     // Add to beginning, remove duplicates
     const newHistory = [term, ...history.filter(item => item !== term)].slice(0, 10);
-    localStorage.setItem('searchHistory', JSON.stringify(newHistory));
+    secureStorage.setItem('searchHistory', JSON.stringify(newHistory));
   } catch (e) {
     console.error("Error saving search history:", e);
   }
@@ -220,4 +242,13 @@ export const isDateAfter = (dateA: string, dateB: string): boolean => {
     console.error("Error comparing dates:", dateA, dateB, e);
     return false;
   }
-};
\ No newline at end of file
+};
+
+// Check a date falls no more than the given number of days after a start date
+export const isWithinDays = (dateStr: string, startStr: string, days: number): boolean => {
+  const date = parseDate(dateStr);
+  const start = parseDate(startStr);
+  if (!date || !start) return false;
+
+  return date.getTime() - start.getTime() <= days * 24 * 60 * 60 * 1000;
+};
@@ -0,0 +1,140 @@
+/**
+ * Lookup indexes built once per processing run so metric calculations
+ * don't rescan the full bookings and sales arrays for every
+ * teacher/location/period combination. Every list keeps the order of
+ * the source data, so results match a linear scan exactly.
+ */
+import { matchesRule, ClassificationRule } from './businessRules';
+import type { NewRecord, BookingRecord, SaleRecord } from './dataProcessor';
+
+export interface BookingIndex<B extends BookingRecord> {
+  byEmail: Map<string, B[]>;
+  byEmailAndClassDate: Map<string, Map<string, B[]>>;
+  byGroup: Map<string, B[]>;
+}
+
+export interface SalesIndex {
+  // Positions of sales whose customer or paying customer email matches
+  positionsByEmail: Map<string, number[]>;
+}
+
+export interface NewClientIndex<N extends NewRecord> {
+  byGroup: Map<string, N[]>;
+}
+
+export interface ExcludedClientIndex<E extends NewRecord> {
+  byGroup: Map<string, E[]>;
+  byLocationPeriod: Map<string, E[]>;
+}
+
+// Label of the reporting period a record date falls in
+export type PeriodLabeler = (dateStr: string) => string;
+
+// Key for a teacher + location + period combination
+export const getGroupKey = (...parts: (string | undefined)[]): string => parts.join('␟');
+
+const pushToMap = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+};
+
+export const buildBookingIndex = <B extends BookingRecord>(bookings: B[], getPeriod: PeriodLabeler): BookingIndex<B> => {
+  const index: BookingIndex<B> = {
+    byEmail: new Map(),
+    byEmailAndClassDate: new Map(),
+    byGroup: new Map(),
+  };
+
+  bookings.forEach(booking => {
+    const email = booking['Customer Email'];
+    pushToMap(index.byEmail, email, booking);
+
+    let byDate = index.byEmailAndClassDate.get(email);
+    if (!byDate) {
+      byDate = new Map();
+      index.byEmailAndClassDate.set(email, byDate);
+    }
+    pushToMap(byDate, booking['Class Date'], booking);
+
+    pushToMap(
+      index.byGroup,
+      getGroupKey(booking['Teacher'], booking['Location'], getPeriod(booking['Class Date'])),
+      booking
+    );
+  });
+
+  return index;
+};
+
+export const buildSalesIndex = <S extends SaleRecord>(sales: S[]): SalesIndex => {
+  const positionsByEmail = new Map<string, number[]>();
+
+  sales.forEach((sale, position) => {
+    pushToMap(positionsByEmail, sale['Customer email'], position);
+    if (sale['Paying Customer email'] !== sale['Customer email']) {
+      pushToMap(positionsByEmail, sale['Paying Customer email'], position);
+    }
+  });
+
+  return { positionsByEmail };
+};
+
+// Index new clients not caught by the exclusion rule by teacher, location and period
+export const buildNewClientIndex = <N extends NewRecord>(
+  newClients: N[],
+  exclusionRule: ClassificationRule,
+  getPeriod: PeriodLabeler
+): NewClientIndex<N> => {
+  const byGroup = new Map<string, N[]>();
+
+  newClients.forEach(record => {
+    if (matchesRule(record, exclusionRule)) return;
+    pushToMap(
+      byGroup,
+      getGroupKey(record['Teacher'], record['First visit location'], getPeriod(record['First visit at'])),
+      record
+    );
+  });
+
+  return { byGroup };
+};
+
+export const buildExcludedClientIndex = <E extends NewRecord>(
+  excludedRecords: E[],
+  getPeriod: PeriodLabeler
+): ExcludedClientIndex<E> => {
+  const index: ExcludedClientIndex<E> = {
+    byGroup: new Map(),
+    byLocationPeriod: new Map(),
+  };
+
+  excludedRecords.forEach(record => {
+    const location = record['First visit location'];
+    const period = getPeriod(record['First visit at']);
+    pushToMap(index.byGroup, getGroupKey(record['Teacher'], location, period), record);
+    pushToMap(index.byLocationPeriod, getGroupKey(location, period), record);
+  });
+
+  return index;
+};
+
+/**
+ * Sales made by any of the given emails, in their original order.
+ * Mirrors filtering the whole sales array by email.
+ */
+export const getSalesForEmails = <S extends SaleRecord>(
+  sales: S[],
+  index: SalesIndex,
+  emails: string[]
+): S[] => {
+  const positions = new Set<number>();
+  new Set(emails).forEach(email => {
+    (index.positionsByEmail.get(email) || []).forEach(position => positions.add(position));
+  });
+
+  return [...positions].sort((a, b) => a - b).map(position => sales[position]);
+};
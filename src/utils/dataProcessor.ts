@@ -1,7 +1,25 @@
-import { formatDateString, getMonthYearFromDate, cleanFirstVisitValue, matchesPattern, isDateAfter, parseDate } from './csvParser';
+import { formatDateString, cleanFirstVisitValue, isDateAfter, isWithinDays, parseDate } from './csvParser';
+import { evaluateConversionSale, getSaleValue } from './conversionRules';
+import { RevenueBreakdown, EMPTY_REVENUE_BREAKDOWN, addRevenue, getSaleRevenue, getBookingFees } from './revenueModel';
+import { attributeTeacher, TeacherMatchRecord } from './teacherAttribution';
+import { buildIdentityMap } from './identityResolution';
+import { PeriodSettings, DEFAULT_PERIOD_SETTINGS, getPeriodLabel, sortPeriods } from './periods';
+import { CohortClient, CohortData, getDaysBetween, getLatestDate } from './cohortAnalysis';
+import { calculateLifetimeValue, getAcquisitionSource } from './lifetimeValue';
+import { AttributedConversion } from './attributionModels';
+import { ClientDecisionTrace, TracedSale } from './decisionTrace';
+import { BusinessRulesConfig, DEFAULT_BUSINESS_RULES, matchesRule, getMatchingRuleField, getRetentionRule, describeRetentionRule } from './businessRules';
+import {
+  buildBookingIndex,
+  buildSalesIndex,
+  buildNewClientIndex,
+  buildExcludedClientIndex,
+  getGroupKey,
+  getSalesForEmails
+} from './dataIndex';
 
 // Define types for our data structures
-interface NewRecord {
+export interface NewRecord {
   'First name': string;
   'Last name': string;
   'Email': string;
@@ -14,9 +32,10 @@ interface NewRecord {
   'Visit type': string;
   'Home location': string;
   'Teacher'?: string; // This will be added during processing
+  [column: string]: unknown; // Any other exported columns
 }
 
-interface BookingRecord {
+export interface BookingRecord {
   'Sale Date': string;
   'Class Name': string;
   'Class Date': string;
@@ -34,9 +53,10 @@ interface BookingRecord {
   'Refunded': string;
   'Home location': string;
   'Category'?: string;
+  [column: string]: unknown;
 }
 
-interface SaleRecord {
+export interface SaleRecord {
   // Sales structure fields with correct column names
   'Category': string;
   'Item': string;
@@ -53,6 +73,7 @@ interface SaleRecord {
   'Customer name': string;
   'Location': string;
   'Note': string;
+  [column: string]: unknown;
 }
 
 interface ClientDetail {
@@ -72,6 +93,14 @@ interface ClientDetail {
   reason?: string;
   firstVisitLocation?: string;
   teacherName?: string;
+  retained?: boolean;
+  retentionRule?: string;
+  retentionReason?: string;
+  visitsPostTrial?: number;
+  lifetimeValue?: number;
+  lifetimePurchases?: number;
+  acquisitionSource?: string;
+  cohort?: string;
 }
 
 export interface ProcessedTeacherData {
@@ -107,14 +136,36 @@ export interface ProcessedTeacherData {
   retainedClientDetails: ClientDetail[];
   convertedClientDetails: ClientDetail[];
   excludedClientDetails?: ClientDetail[];
-  revenueByWeek?: { week: string; revenue: number }[];
+  revenueByWeek?: { week: string; revenue: number; breakdown?: RevenueBreakdown }[];
   clientsBySource?: { source: string; count: number }[];
+  // Full payment history of the new clients, not just the conversion window
+  lifetimeValue?: number;
+  averageLifetimeValue?: number;
+  // Converting sales split into gross, tax, refunds and net, plus booking fees
+  revenueBreakdown?: RevenueBreakdown;
 }
 
 // For progress tracking
 export interface ProcessingProgress {
   progress: number;
   currentStep: string;
+  etaSeconds?: number;
+}
+
+export interface ProcessingOptions {
+  // Record how long each processing stage takes
+  benchmark?: boolean;
+  // Client source classification rules; defaults apply when omitted
+  businessRules?: BusinessRulesConfig;
+  // Email pairs confirmed as the same client in the identity review
+  identityMerges?: [string, string][];
+  // How records are grouped into periods; monthly when omitted
+  periodSettings?: PeriodSettings;
+}
+
+export interface StageTiming {
+  stage: string;
+  durationMs: number;
 }
 
 // Process all the data
@@ -122,7 +173,8 @@ export const processData = (
   newData: NewRecord[],
   bookingsData: BookingRecord[],
   salesData: SaleRecord[],
-  updateProgress: (progress: ProcessingProgress) => void
+  updateProgress: (progress: ProcessingProgress) => void,
+  options: ProcessingOptions = {}
 ): Promise<{
   processedData: ProcessedTeacherData[];
   locations: string[];
@@ -133,25 +185,54 @@ export const processData = (
   newClientRecords: any[];
   convertedClientRecords: any[];
   retainedClientRecords: any[];
+  teacherMatchRecords: TeacherMatchRecord[];
+  cohortData: CohortData;
+  attributedConversions: AttributedConversion[];
+  decisionTraces: ClientDecisionTrace[];
+  stageTimings?: StageTiming[];
 }> => {
+  const { rules, retention, conversion } = options.businessRules || DEFAULT_BUSINESS_RULES;
+  const periodSettings = options.periodSettings || DEFAULT_PERIOD_SETTINGS;
+  const getPeriod = (dateStr: string) => getPeriodLabel(dateStr, periodSettings);
+  const stageTimings: StageTiming[] = [];
+  let stageStart = 0;
+  const startStage = () => {
+    stageStart = performance.now();
+  };
+  const endStage = (stage: string) => {
+    if (options.benchmark) {
+      stageTimings.push({ stage, durationMs: Math.round((performance.now() - stageStart) * 100) / 100 });
+    }
+  };
+
   return new Promise((resolve) => {
     updateProgress({ progress: 5, currentStep: "Cleaning and validating data..." });
     
     // Step 1: Clean and normalize data
     setTimeout(() => {
+      startStage();
       console.log("Original new data sample:", newData.slice(0, 2));
       console.log("Original bookings data sample:", bookingsData.slice(0, 2));
       console.log("Original sales data sample:", salesData ? salesData.slice(0, 2) : "No sales data");
       
+      // Resolve every email to its client's canonical email so joins survive case, spacing and alternate emails
+      const identityMap = buildIdentityMap(
+        { newClients: newData, bookings: bookingsData, sales: salesData || [] },
+        options.identityMerges
+      );
+      const resolveEmail = (email: string) => email ? identityMap.resolveEmail(email) : email;
+      
       // Format dates consistently
       const cleanedNewData = newData.map(record => ({
         ...record,
+        'Email': resolveEmail(record['Email']),
         'First visit at': formatDateString(record['First visit at'] || ''),
         'First visit': cleanFirstVisitValue(record['First visit'] || ''),
       }));
       
       const cleanedBookingsData = bookingsData.map(record => ({
         ...record,
+        'Customer Email': resolveEmail(record['Customer Email']),
         'Class Date': formatDateString(record['Class Date'] || ''),
         'Sale Date': formatDateString(record['Sale Date'] || ''),
         'Sale Value': typeof record['Sale Value'] === 'string' 
@@ -172,6 +253,8 @@ export const processData = (
         
         return {
           ...record,
+          'Customer email': resolveEmail(record['Customer email']),
+          'Paying Customer email': resolveEmail(record['Paying Customer email']),
           'Date': dateValue,
           'Sale value': saleValue,
         };
@@ -180,40 +263,54 @@ export const processData = (
       console.log("Cleaned new data sample:", cleanedNewData.slice(0, 2));
       console.log("Cleaned bookings data sample:", cleanedBookingsData.slice(0, 2));
       console.log("Cleaned sales data sample:", cleanedSalesData.slice(0, 2));
+      endStage("Clean and normalize data");
+      
+      // Build lookup indexes once for all later stages
+      startStage();
+      const bookingIndex = buildBookingIndex(cleanedBookingsData, getPeriod);
+      const salesIndex = buildSalesIndex(cleanedSalesData);
+      endStage("Index bookings and sales");
       
       updateProgress({ progress: 20, currentStep: "Matching records and extracting teacher data..." });
       
       // Step 2: Match New records with Bookings to get teacher names
       setTimeout(() => {
+        startStage();
+        const teacherMatchRecords: TeacherMatchRecord[] = [];
         const enrichedNewData = cleanedNewData.map(newRecord => {
           console.log(`Looking for booking match for: ${newRecord['Email']} - ${newRecord['First visit']} - ${newRecord['First visit at']} - ${newRecord['First visit location']}`);
           
-          const matchingBooking = cleanedBookingsData.find(booking => {
-            const emailMatch = booking['Customer Email'] === newRecord['Email']; // Corrected field name
-            const nameMatch = booking['Class Name'] === newRecord['First visit'];
-            const dateMatch = booking['Class Date'] === newRecord['First visit at'];
-            const locationMatch = booking['Location'] === newRecord['First visit location'];
-            
-            if (emailMatch && nameMatch && dateMatch && locationMatch) {
-              console.log(`Found matching booking for ${newRecord['Email']}, teacher: ${booking['Teacher']}`);
-              return true;
-            }
-            return false;
+          const attribution = attributeTeacher(newRecord, bookingIndex);
+          console.log(`Teacher for ${newRecord['Email']}: ${attribution.teacher} (${attribution.method}, confidence ${attribution.confidence})`);
+          
+          teacherMatchRecords.push({
+            name: `${newRecord['First name']} ${newRecord['Last name']}`,
+            email: newRecord['Email'],
+            firstVisit: newRecord['First visit'],
+            firstVisitAt: newRecord['First visit at'],
+            firstVisitLocation: newRecord['First visit location'],
+            teacher: attribution.teacher,
+            confidence: attribution.confidence,
+            method: attribution.method,
+            matchedClass: attribution.booking?.['Class Name'],
+            matchedDate: attribution.booking?.['Class Date'],
+            matchedLocation: attribution.booking?.['Location']
           });
           
           return {
             ...newRecord,
-            'Teacher': matchingBooking ? matchingBooking['Teacher'] : 'Unknown'
+            'Teacher': attribution.teacher
           };
         });
         
         console.log("Enriched new data with teacher names:", enrichedNewData.slice(0, 2));
+        endStage("Teacher attribution");
         
         updateProgress({ progress: 40, currentStep: "Calculating metrics by location, teacher, and period..." });
         
         // Step 3: Process data by location, teacher, and period
         setTimeout(() => {
-          // Get unique locations, teachers, and periods (months)
+          // Get unique locations, teachers, and periods
           const locations = [...new Set(enrichedNewData.map(record => record['First visit location']))];
           
           // Extract all teacher names from bookings
@@ -221,10 +318,8 @@ export const processData = (
             .map(record => record['Teacher'])
             .filter(teacher => teacher && teacher !== 'Unknown'))];
           
-          // Get all unique periods (month-year)
-          const allPeriods = enrichedNewData.map(record => 
-            getMonthYearFromDate(record['First visit at'])
-          );
+          // Get all unique periods at the selected granularity
+          const allPeriods = enrichedNewData.map(record => getPeriod(record['First visit at']));
           const periods = [...new Set(allPeriods)];
           
           console.log("Found locations:", locations);
@@ -235,6 +330,7 @@ export const processData = (
           
           // Step 4: Calculate metrics for each teacher, location, and period
           setTimeout(() => {
+            startStage();
             const processedData: ProcessedTeacherData[] = [];
             
             // Also process by studio
@@ -246,13 +342,37 @@ export const processData = (
             const newClientRecords: any[] = [];
             const convertedClientRecords: any[] = [];
             const retainedClientRecords: any[] = [];
+            const cohortClients: CohortClient[] = [];
+            const attributedConversions: AttributedConversion[] = [];
+            const decisionTraces: ClientDecisionTrace[] = [];
+            const teacherMatchByEmail = new Map<string, TeacherMatchRecord>();
+            teacherMatchRecords.forEach(match => {
+              if (!teacherMatchByEmail.has(match.email)) teacherMatchByEmail.set(match.email, match);
+            });
             
             // First, identify excluded records globally
             enrichedNewData.forEach(record => {
-              const membershipPattern = matchesPattern(record['Membership used'] || '', "friends|family|staff");
-              const firstVisitPattern = matchesPattern(record['First visit'] || '', "friends|family|staff");
+              const exclusionField = getMatchingRuleField(record, rules.exclusion);
               
-              if (membershipPattern || firstVisitPattern) {
+              if (exclusionField) {
+                const exclusionReason = exclusionField === 'Membership used'
+                  ? `Friends, family, or staff membership: "${record['Membership used']}"` 
+                  : `Friends, family, or staff class type: "${record['First visit']}"`;
+                
+                decisionTraces.push({
+                  email: record['Email'],
+                  name: `${record['First name']} ${record['Last name']}`,
+                  teacher: record['Teacher'],
+                  location: record['First visit location'],
+                  period: getPeriod(record['First visit at']),
+                  firstVisit: record['First visit'],
+                  firstVisitDate: record['First visit at'],
+                  attribution: teacherMatchByEmail.get(record['Email']),
+                  exclusion: exclusionReason,
+                  visits: [],
+                  sales: []
+                });
+                
                 excludedRecords.push({
                   ...record,
                   name: `${record['First name']} ${record['Last name']}`,
@@ -260,25 +380,32 @@ export const processData = (
                   firstVisit: record['First visit at'],
                   firstVisitLocation: record['First visit location'],
                   teacherName: record['Teacher'],
-                  reason: membershipPattern 
-                    ? `Friends, family, or staff membership: "${record['Membership used']}"` 
-                    : `Friends, family, or staff class type: "${record['First visit']}"`
+                  reason: exclusionReason
                 });
               }
             });
             
+            // Index new clients and exclusions by teacher, location, and period
+            const newClientIndex = buildNewClientIndex(enrichedNewData, rules.exclusion, getPeriod);
+            const excludedIndex = buildExcludedClientIndex(excludedRecords, getPeriod);
+            
             // Group data by teacher, location, and period
+            const totalCombinations = teachers.length * locations.length * periods.length;
+            let processedCombinations = 0;
+            
             teachers.forEach(teacher => {
               locations.forEach(location => {
                 periods.forEach(period => {
-                  // Get new clients for this teacher, location, and period - now with improved exclusion logic
-                  const teacherNewClients = enrichedNewData.filter(record => 
-                    record['Teacher'] === teacher &&
-                    record['First visit location'] === location &&
-                    getMonthYearFromDate(record['First visit at']) === period &&
-                    !matchesPattern(record['Membership used'] || '', "friends|family|staff") &&
-                    !matchesPattern(record['First visit'] || '', "friends|family|staff")
-                  );
+                  processedCombinations++;
+                  updateProgress({
+                    progress: 60 + Math.round((processedCombinations / totalCombinations) * 35),
+                    currentStep: "Calculating retention and revenue metrics..."
+                  });
+                  
+                  const groupKey = getGroupKey(teacher, location, period);
+                  
+                  // Get new clients for this teacher, location, and period (friends, family and staff excluded)
+                  const teacherNewClients = newClientIndex.byGroup.get(groupKey) || [];
                   
                   if (teacherNewClients.length === 0) return; // Skip if no data
                   
@@ -293,11 +420,7 @@ export const processData = (
                   });
                   
                   // Calculate booking metrics for this teacher, location, and period
-                  const teacherBookings = cleanedBookingsData.filter(booking => 
-                    booking['Teacher'] === teacher &&
-                    booking['Location'] === location &&
-                    getMonthYearFromDate(booking['Class Date']) === period
-                  );
+                  const teacherBookings = bookingIndex.byGroup.get(groupKey) || [];
 
                   const totalVisits = teacherBookings.filter(booking => 
                     booking['Cancelled'] === 'NO' && 
@@ -321,82 +444,77 @@ export const processData = (
                   const newClientsCount = teacherNewClients.length;
                   
                   const trials = teacherNewClients.filter(record => 
-                    matchesPattern(record['Membership used'] || '', "Studio Open Barre Class|Newcomers 2 For 1")
+                    matchesRule(record, rules.trial)
                   ).length;
                   
                   const referrals = teacherNewClients.filter(record => 
-                    record['Membership used'] === 'Studio Complimentary Referral Class'
+                    matchesRule(record, rules.referral)
                   ).length;
                   
                   const hosted = teacherNewClients.filter(record => 
-                    matchesPattern(record['First visit'] || '', "hosted|x|p57|physique|weword|rugby|outdoor|birthday|bridal|shower")
+                    matchesRule(record, rules.hosted)
                   ).length;
                   
                   const influencerSignups = teacherNewClients.filter(record => 
-                    matchesPattern(record['Membership used'] || '', "sign-up|link|influencer|twain|ooo|lrs|x|p57|physique|complimentary")
+                    matchesRule(record, rules.influencer)
                   ).length;
                   
                   // Fix the "others" calculation to ensure it's never negative
                   const categorizedClients = trials + referrals + hosted + influencerSignups;
                   const others = Math.max(0, newClientsCount - categorizedClients);
                   
-                  updateProgress({ progress: 80, currentStep: "Calculating retention and revenue metrics..." });
-                  
                   // Get email addresses of these new clients
                   const newClientEmails = teacherNewClients.map(record => record['Email']);
                   console.log(`New client emails for ${teacher}:`, newClientEmails);
                   
                   // UPDATED RETENTION LOGIC: Check visits after first visit based on "2 For 1" requirement
-                  const returnVisits = cleanedBookingsData.filter(booking => {
-                    // Get matching client record
-                    const matchingClient = teacherNewClients.find(client => 
-                      client['Email'] === booking['Customer Email']
-                    );
-                    
-                    if (!matchingClient) return false;
-                    
-                    // Ensure this isn't the first visit (date must be strictly after first visit)
-                    const isAfterFirstVisit = isDateAfter(booking['Class Date'], matchingClient['First visit at']);
-                    
-                    // Check all cancellation fields are "NO"
-                    const notCancelled = booking['Cancelled'] === 'NO';
-                    const notLateCancelled = booking['Late Cancelled'] === 'NO';
-                    const notNoShow = booking['No Show'] === 'NO'; 
+                  // Return visits are grouped by email; the first client record for an email decides the first visit date
+                  const returnVisitsByEmail = new Map<string, typeof cleanedBookingsData>();
+                  teacherNewClients.forEach(matchingClient => {
+                    const clientEmail = matchingClient['Email'];
+                    if (returnVisitsByEmail.has(clientEmail)) return;
                     
-                    return isAfterFirstVisit && notCancelled && notLateCancelled && notNoShow;
+                    const clientBookings = bookingIndex.byEmail.get(clientEmail) || [];
+                    returnVisitsByEmail.set(clientEmail, clientBookings.filter(booking => {
+                      // Ensure this isn't the first visit (date must be strictly after first visit)
+                      const isAfterFirstVisit = isDateAfter(booking['Class Date'], matchingClient['First visit at']);
+                      
+                      // Check all cancellation fields are "NO"
+                      const notCancelled = booking['Cancelled'] === 'NO';
+                      const notLateCancelled = booking['Late Cancelled'] === 'NO';
+                      const notNoShow = booking['No Show'] === 'NO'; 
+                      
+                      return isAfterFirstVisit && notCancelled && notLateCancelled && notNoShow;
+                    }));
                   });
                   
-                  console.log(`Found ${returnVisits.length} return visits for all clients of ${teacher}`);
+                  console.log(`Found ${[...returnVisitsByEmail.values()].reduce((sum, visits) => sum + visits.length, 0)} return visits for all clients of ${teacher}`);
                   
-                  // NEW RETENTION LOGIC: Apply "2 For 1" specific rules
+                  // Apply the retention rule for each client's intro offer, counting only visits inside its window
                   const retainedClientEmails = [];
+                  const qualifyingVisitsByEmail = new Map<string, typeof cleanedBookingsData>();
+                  const retentionByEmail = new Map<string, { retained: boolean; rule: string; reason: string }>();
                   
                   teacherNewClients.forEach(client => {
                     const clientEmail = client['Email'];
                     const firstVisitValue = client['First visit'] || '';
-                    const clientReturnVisits = returnVisits.filter(visit => visit['Customer Email'] === clientEmail);
+                    const retentionRule = getRetentionRule(firstVisitValue, retention);
+                    const clientReturnVisits = (returnVisitsByEmail.get(clientEmail) || []).filter(booking =>
+                      retentionRule.windowDays === null ||
+                      isWithinDays(booking['Class Date'], client['First visit at'], retentionRule.windowDays)
+                    );
+                    qualifyingVisitsByEmail.set(clientEmail, clientReturnVisits);
                     
                     console.log(`Checking retention for ${clientEmail}: First visit "${firstVisitValue}", Return visits: ${clientReturnVisits.length}`);
                     
-                    let isRetained = false;
-                    let retentionReason = '';
-                    
-                    // Check if first visit contains "2 For 1"
-                    if (firstVisitValue.toLowerCase().includes('2 for 1')) {
-                      // Needs 2 visits after first visit to be retained
-                      isRetained = clientReturnVisits.length >= 2;
-                      retentionReason = isRetained 
-                        ? `Had ${clientReturnVisits.length} return visits after '2 For 1' trial (required: 2)` 
-                        : `Only ${clientReturnVisits.length} return visits after '2 For 1' trial (required: 2)`;
-                      console.log(`"2 For 1" client ${clientEmail}: ${clientReturnVisits.length} return visits, retained: ${isRetained}`);
-                    } else {
-                      // Needs 1 visit after first visit to be retained
-                      isRetained = clientReturnVisits.length >= 1;
-                      retentionReason = isRetained 
-                        ? `Had ${clientReturnVisits.length} return visits after initial trial (required: 1)` 
-                        : `Only ${clientReturnVisits.length} return visits after initial trial (required: 1)`;
-                      console.log(`Non-"2 For 1" client ${clientEmail}: ${clientReturnVisits.length} return visits, retained: ${isRetained}`);
-                    }
+                    const isRetained = clientReturnVisits.length >= retentionRule.minVisits;
+                    const ruleDescription = `${retentionRule.label}: ${describeRetentionRule(retentionRule)}`;
+                    const windowText = retentionRule.windowDays === null ? '' : ` within ${retentionRule.windowDays} days`;
+                    const retentionReason = isRetained 
+                      ? `Had ${clientReturnVisits.length} return visits${windowText} after '${retentionRule.label}' trial (required: ${retentionRule.minVisits})` 
+                      : `Only ${clientReturnVisits.length} return visits${windowText} after '${retentionRule.label}' trial (required: ${retentionRule.minVisits})`;
+                    retentionByEmail.set(clientEmail, { retained: isRetained, rule: ruleDescription, reason: retentionReason });
+                    console.log(`${retentionRule.label} client ${clientEmail}: ${clientReturnVisits.length} return visits, retained: ${isRetained}`);
                     
                     if (isRetained) {
                       retainedClientEmails.push(clientEmail);
@@ -410,6 +528,7 @@ export const processData = (
                         teacherName: client['Teacher'],
                         visitsPostTrial: clientReturnVisits.length,
                         reason: retentionReason,
+                        retentionRule: ruleDescription,
                         firstVisitPostTrial: clientReturnVisits[0]?.['Class Date'] || 'N/A',
                         membershipUsed: client['Membership used']
                       };
@@ -450,8 +569,27 @@ export const processData = (
                     });
                   });
                   
+                  // Only sales made by these clients (as customer or paying customer) are candidates
+                  const candidateSales = getSalesForEmails(cleanedSalesData, salesIndex, newClientEmails);
+                  
+                  // Days from first visit to the earliest qualifying purchase, for the cohort analysis
+                  const conversionDaysByEmail = new Map<string, number>();
+                  
+                  // Earliest qualifying purchase and total converting revenue, for teacher attribution.
+                  // Keyed like convertedClientEmails below so the attributed conversions add up to the same count
+                  const conversionSalesByEmail = new Map<string, { clientEmail: string; purchaseDate: string; revenue: number }>();
+                  
+                  // Sales that pass every check but the refund check, so refunded sales show in gross revenue and refunds.
+                  // Keyed like conversionSalesByEmail
+                  const revenueSales: typeof candidateSales = [];
+                  const revenueBreakdownByEmail = new Map<string, RevenueBreakdown>();
+                  const revenueClientsByEmail = new Map<string, { clientEmail: string; purchaseDate: string }>();
+                  
+                  // Every sale judged for each client, for the decision trace
+                  const tracedSalesByEmail = new Map<string, TracedSale[]>();
+                  
                   // Find converted clients with updated exclusion logic
-                  const convertedClients = cleanedSalesData.filter(sale => {
+                  const convertedClients = candidateSales.filter(sale => {
                     // Find matching new client record
                     const matchingClient = teacherNewClients.find(client => {
                       const emailMatch = (
@@ -468,60 +606,47 @@ export const processData = (
                     
                     const clientEmail = matchingClient['Email'];
                     
-                    // Check conditions:
-                    // 1. Sale date > First visit date
-                    const saleDate = sale['Date'] || '';
-                    const firstVisitDate = matchingClient['First visit at'];
-                    const saleDateAfterVisit = isDateAfter(saleDate, firstVisitDate);
-                    
-                    // 2. UPDATED: Category doesn't contain 'product' or 'money credits' (case insensitive)
-                    const category = (sale['Category'] || '').toLowerCase();
-                    const notExcludedCategory = !category.includes('product') && !category.includes('money credits');
-                    
-                    // 3. UPDATED: Item doesn't contain '2 for 1' (case insensitive)
-                    const item = (sale['Item'] || '').toLowerCase();
-                    const not2For1Item = !item.includes('2 for 1');
-                    
-                    // 4. Sale value > 0
-                    const saleValue = typeof sale['Sale value'] === 'number' ? 
-                      sale['Sale value'] : parseFloat(String(sale['Sale value'] || '0').replace(/[^0-9.-]+/g, ''));
-                    const hasSaleValue = saleValue > 0;
-                    
-                    // 5. Not refunded
-                    const notRefunded = sale['Refunded'] !== 'YES';
-                    
-                    // Determine conversion reason with detailed explanations
-                    let conversionReason = '';
-                    if (!saleDateAfterVisit) {
-                      conversionReason = `Purchase date (${saleDate}) is not after first visit date (${firstVisitDate})`;
-                    } else if (!notExcludedCategory) {
-                      conversionReason = `Excluded category: "${sale['Category']}" (contains product/money credits)`;
-                    } else if (!not2For1Item) {
-                      conversionReason = `Excluded item: "${sale['Item']}" (contains "2 for 1")`;
-                    } else if (!hasSaleValue) {
-                      conversionReason = `No sale value or zero value: ${saleValue}`;
-                    } else if (!notRefunded) {
-                      conversionReason = `Purchase was refunded: "${sale['Item']}"`;
-                    } else {
-                      conversionReason = `Converted with "${sale['Item']}" for ₹${saleValue} on ${saleDate}`;
-                    }
+                    // Check the sale against the shared conversion rule
+                    const { isConverted, reason: conversionReason, saleValue, isRevenueSale } = evaluateConversionSale(
+                      sale,
+                      matchingClient['First visit at'],
+                      conversion
+                    );
                     
-                    // Log detailed diagnostics
                     console.log("Conversion conditions check:", {
                       email: matchingClient['Email'],
-                      saleDateAfterVisit,
-                      notExcludedCategory,
-                      not2For1Item,
-                      hasSaleValue,
-                      notRefunded,
+                      isConverted,
                       saleValue,
-                      category,
-                      item,
+                      category: sale['Category'],
+                      item: sale['Item'],
                       refunded: sale['Refunded'],
                       conversionReason
                     });
                     
-                    const isConverted = saleDateAfterVisit && notExcludedCategory && not2For1Item && hasSaleValue && notRefunded;
+                    const tracedSales = tracedSalesByEmail.get(clientEmail) || [];
+                    tracedSales.push({
+                      date: sale['Date'],
+                      item: sale['Item'],
+                      category: sale['Category'],
+                      value: saleValue,
+                      counted: isConverted,
+                      reason: conversionReason
+                    });
+                    tracedSalesByEmail.set(clientEmail, tracedSales);
+                    
+                    if (isRevenueSale) {
+                      const revenueEmail = sale['Customer email'] || sale['Paying Customer email'] || '';
+                      const revenueClient = revenueClientsByEmail.get(revenueEmail);
+                      revenueSales.push(sale);
+                      revenueBreakdownByEmail.set(
+                        revenueEmail,
+                        addRevenue(revenueBreakdownByEmail.get(revenueEmail) || EMPTY_REVENUE_BREAKDOWN, getSaleRevenue(sale))
+                      );
+                      revenueClientsByEmail.set(revenueEmail, {
+                        clientEmail,
+                        purchaseDate: revenueClient && revenueClient.purchaseDate <= sale['Date'] ? revenueClient.purchaseDate : sale['Date']
+                      });
+                    }
                     
                     // Update conversion status for this client
                     const currentStatus = clientConversionMap.get(clientEmail);
@@ -544,6 +669,19 @@ export const processData = (
                     
                     // Add to converted records if it matches all criteria
                     if (isConverted && matchingClient) {
+                      const daysToConversion = getDaysBetween(matchingClient['First visit at'], sale['Date']);
+                      if (daysToConversion !== null && daysToConversion < (conversionDaysByEmail.get(clientEmail) ?? Infinity)) {
+                        conversionDaysByEmail.set(clientEmail, daysToConversion);
+                      }
+                      
+                      const convertedEmail = sale['Customer email'] || sale['Paying Customer email'] || '';
+                      const conversionSales = conversionSalesByEmail.get(convertedEmail);
+                      conversionSalesByEmail.set(convertedEmail, {
+                        clientEmail,
+                        purchaseDate: conversionSales && conversionSales.purchaseDate <= sale['Date'] ? conversionSales.purchaseDate : sale['Date'],
+                        revenue: (conversionSales?.revenue || 0) + saleValue
+                      });
+                      
                       const convertedClient = {
                         name: `${matchingClient['First name']} ${matchingClient['Last name']}`,
                         email: clientEmail,
@@ -577,6 +715,7 @@ export const processData = (
                       isConverted: false,
                       reason: 'No conversion data available'
                     };
+                    const lifetime = calculateLifetimeValue(getSalesForEmails(cleanedSalesData, salesIndex, [client['Email']]));
                     
                     return {
                       email: client['Email'],
@@ -590,7 +729,15 @@ export const processData = (
                       conversionReason: conversionInfo.reason,
                       firstPurchaseDate: conversionInfo.firstPurchaseDate,
                       firstPurchaseItem: conversionInfo.firstPurchaseItem,
-                      purchaseValue: conversionInfo.purchaseValue
+                      purchaseValue: conversionInfo.purchaseValue,
+                      retained: retentionByEmail.get(client['Email'])?.retained,
+                      retentionRule: retentionByEmail.get(client['Email'])?.rule,
+                      retentionReason: retentionByEmail.get(client['Email'])?.reason,
+                      visitsPostTrial: qualifyingVisitsByEmail.get(client['Email'])?.length,
+                      lifetimeValue: lifetime.value,
+                      lifetimePurchases: lifetime.purchases,
+                      acquisitionSource: getAcquisitionSource(client, rules),
+                      cohort: getPeriodLabel(client['First visit at'])
                     };
                   });
                   
@@ -602,6 +749,118 @@ export const processData = (
                     });
                   });
                   
+                  // Record when each client met the retention rule and converted, for the cohort analysis
+                  teacherNewClients.forEach(client => {
+                    const clientEmail = client['Email'];
+                    const retentionRule = getRetentionRule(client['First visit'] || '', retention);
+                    const returnVisitDates = (qualifyingVisitsByEmail.get(clientEmail) || [])
+                      .map(booking => booking['Class Date'])
+                      .sort();
+                    const retainingVisitDate = retentionByEmail.get(clientEmail)?.retained
+                      ? returnVisitDates[retentionRule.minVisits - 1]
+                      : undefined;
+                    
+                    cohortClients.push({
+                      email: clientEmail,
+                      firstVisitDate: client['First visit at'],
+                      teacher: client['Teacher'] || 'Unknown',
+                      location: client['First visit location'],
+                      introOffer: client['First visit'] || 'Unknown',
+                      retainedAfterDays: retainingVisitDate ? getDaysBetween(client['First visit at'], retainingVisitDate) : null,
+                      convertedAfterDays: conversionDaysByEmail.get(clientEmail) ?? null
+                    });
+                  });
+                  
+                  // Clients whose only sales were refunded carry their refunds through attribution without a conversion
+                  const attributionSalesByEmail = new Map<string, { clientEmail: string; purchaseDate: string; revenue: number; converted: boolean }>();
+                  conversionSalesByEmail.forEach((conversionSales, convertedEmail) => {
+                    attributionSalesByEmail.set(convertedEmail, { ...conversionSales, converted: true });
+                  });
+                  revenueClientsByEmail.forEach((revenueClient, revenueEmail) => {
+                    if (!attributionSalesByEmail.has(revenueEmail)) {
+                      attributionSalesByEmail.set(revenueEmail, { ...revenueClient, revenue: 0, converted: false });
+                    }
+                  });
+                  
+                  // Record every class a client took up to their first qualifying (or refunded) purchase
+                  attributionSalesByEmail.forEach(({ clientEmail, purchaseDate, revenue, converted }, convertedEmail) => {
+                    const client = teacherNewClients.find(newClient => newClient['Email'] === clientEmail);
+                    const laterClasses = (returnVisitsByEmail.get(clientEmail) || [])
+                      .filter(booking => {
+                        const daysAfterFirstVisit = getDaysBetween(client['First visit at'], booking['Class Date']);
+                        const daysBeforePurchase = getDaysBetween(booking['Class Date'], purchaseDate);
+                        return daysAfterFirstVisit > 0 && daysBeforePurchase !== null && daysBeforePurchase >= 0 && Boolean(booking['Teacher']);
+                      })
+                      .sort((a, b) => a['Class Date'].localeCompare(b['Class Date']));
+                    
+                    attributedConversions.push({
+                      email: convertedEmail,
+                      teacher,
+                      location,
+                      period,
+                      purchaseDate,
+                      revenue,
+                      revenueBreakdown: revenueBreakdownByEmail.get(convertedEmail) || EMPTY_REVENUE_BREAKDOWN,
+                      converted,
+                      touches: [
+                        { teacher, date: client['First visit at'] },
+                        ...laterClasses.map(booking => ({ teacher: booking['Teacher'], date: booking['Class Date'] }))
+                      ]
+                    });
+                  });
+                  
+                  // Record why each client was or wasn't retained and converted
+                  const tracedEmails = new Set<string>();
+                  teacherNewClients.forEach(client => {
+                    const clientEmail = client['Email'];
+                    if (tracedEmails.has(clientEmail)) return;
+                    tracedEmails.add(clientEmail);
+                    
+                    const retentionRule = getRetentionRule(client['First visit'] || '', retention);
+                    const qualifyingVisits = qualifyingVisitsByEmail.get(clientEmail) || [];
+                    const visits = (bookingIndex.byEmail.get(clientEmail) || []).map(booking => {
+                      const counted = qualifyingVisits.includes(booking);
+                      let reason = 'Counted towards retention';
+                      if (!counted) {
+                        if (!isDateAfter(booking['Class Date'], client['First visit at'])) {
+                          reason = 'Before the first visit';
+                        } else if (booking['Cancelled'] !== 'NO') {
+                          reason = 'Cancelled';
+                        } else if (booking['Late Cancelled'] !== 'NO') {
+                          reason = 'Late cancelled';
+                        } else if (booking['No Show'] !== 'NO') {
+                          reason = 'No show';
+                        } else {
+                          reason = `More than ${retentionRule.windowDays} days after the first visit`;
+                        }
+                      }
+                      return {
+                        date: booking['Class Date'],
+                        className: booking['Class Name'],
+                        teacher: booking['Teacher'],
+                        location: booking['Location'],
+                        counted,
+                        reason
+                      };
+                    });
+                    const conversionInfo = clientConversionMap.get(clientEmail);
+                    
+                    decisionTraces.push({
+                      email: clientEmail,
+                      name: `${client['First name']} ${client['Last name']}`,
+                      teacher,
+                      location,
+                      period,
+                      firstVisit: client['First visit'],
+                      firstVisitDate: client['First visit at'],
+                      attribution: teacherMatchByEmail.get(clientEmail),
+                      retention: retentionByEmail.get(clientEmail),
+                      visits,
+                      conversion: conversionInfo && { converted: conversionInfo.isConverted, reason: conversionInfo.reason },
+                      sales: tracedSalesByEmail.get(clientEmail) || []
+                    });
+                  });
+                  
                   // Create detailed converted client list
                   const convertedClientDetails = convertedClientEmails.map(email => {
                     const clientSales = convertedClients
@@ -613,8 +872,7 @@ export const processData = (
                       });
                     
                     const totalValue = clientSales.reduce((sum, sale) => {
-                      const saleValue = typeof sale['Sale value'] === 'number' ? 
-                        sale['Sale value'] : parseFloat(String(sale['Sale value'] || '0').replace(/[^0-9.-]+/g, ''));
+                      const saleValue = getSaleValue(sale);
                       return sum + saleValue;
                     }, 0);
                     
@@ -640,7 +898,7 @@ export const processData = (
 
                   // Create detailed retained client list
                   const retainedClientDetails = retainedClientEmails.map(email => {
-                    const clientVisits = returnVisits.filter(visit => visit['Customer Email'] === email);
+                    const clientVisits = qualifyingVisitsByEmail.get(email) || [];
                     const clientInfo = teacherNewClients.find(client => client['Email'] === email);
                     
                     return {
@@ -653,7 +911,9 @@ export const processData = (
                       visitCount: clientVisits.length,
                       membershipType: clientInfo?.['Membership used'] || '',
                       firstVisitPostTrial: clientVisits[0]?.['Class Date'] || 'N/A',
-                      visitsPostTrial: clientVisits.length
+                      visitsPostTrial: clientVisits.length,
+                      retentionRule: retentionByEmail.get(email)?.rule,
+                      reason: retentionByEmail.get(email)?.reason
                     };
                   });
 
@@ -666,17 +926,28 @@ export const processData = (
                   
                   // Calculate revenue metrics
                   const totalRevenue = convertedClients.reduce((sum, sale) => {
-                    const saleValue = typeof sale['Sale value'] === 'number' ? 
-                      sale['Sale value'] : parseFloat(String(sale['Sale value'] || '0').replace(/[^0-9.-]+/g, ''));
+                    const saleValue = getSaleValue(sale);
                     return sum + saleValue;
                   }, 0);
                   
                   console.log(`Total revenue: ${totalRevenue}`);
                   
+                  // Converting and refunded sales split into tax, refunds and net, plus fees charged on the teacher's bookings
+                  const revenueBreakdown = [
+                    ...revenueSales.map(sale => getSaleRevenue(sale)),
+                    ...teacherBookings.map(booking => getBookingFees(booking))
+                  ].reduce(addRevenue, EMPTY_REVENUE_BREAKDOWN);
+                  
                   const averageRevenuePerClient = convertedClientsCount > 0 
                     ? totalRevenue / convertedClientsCount 
                     : 0;
                   
+                  // Lifetime value counts every new client, paying or not
+                  const lifetimeValue = newClientDetails.reduce((sum, client) => sum + client.lifetimeValue, 0);
+                  const averageLifetimeValue = newClientsCount > 0 
+                    ? lifetimeValue / newClientsCount 
+                    : 0;
+                  
                   // Calculate rates
                   const noShowRate = teacherBookings.length > 0 
                     ? (noShows / teacherBookings.length) * 100 
@@ -697,7 +968,7 @@ export const processData = (
                     const email = sale['Customer email'] || sale['Paying Customer email'] || '';
                     return teacherNewClients.some(client => 
                       client['Email'] === email && 
-                      matchesPattern(client['Membership used'] || '', "sign-up|link|influencer|twain|ooo|lrs|x|p57|physique|complimentary")
+                      matchesRule(client, rules.influencer)
                     );
                   }).length;
                   
@@ -710,7 +981,7 @@ export const processData = (
                     const email = sale['Customer email'] || sale['Paying Customer email'] || '';
                     return teacherNewClients.some(client => 
                       client['Email'] === email && 
-                      client['Membership used'] === 'Studio Complimentary Referral Class'
+                      matchesRule(client, rules.referral)
                     );
                   }).length;
                   
@@ -723,7 +994,7 @@ export const processData = (
                     const email = sale['Customer email'] || sale['Paying Customer email'] || '';
                     return teacherNewClients.some(client => 
                       client['Email'] === email && 
-                      matchesPattern(client['Membership used'] || '', "Studio Open Barre Class|Newcomers 2 For 1")
+                      matchesRule(client, rules.trial)
                     );
                   }).length;
                   
@@ -731,30 +1002,39 @@ export const processData = (
                     ? (trialConvertedCount / trials) * 100 
                     : 0;
                   
-                  // Create weekly revenue data for charts
-                  const revenueByWeek = convertedClients.reduce((acc, sale) => {
-                    const dateStr = sale['Date'] || '';
-                    if (!dateStr) return acc;
+                  // Create weekly revenue data for charts; booking fees fall in the week of the class
+                  const revenueByWeek: { week: string; revenue: number; breakdown: RevenueBreakdown }[] = [];
+                  const addWeeklyRevenue = (dateStr: string, revenue: number, breakdown: RevenueBreakdown) => {
+                    if (!dateStr) return;
                     
                     const date = parseDate(dateStr);
-                    if (!date) return acc;
+                    if (!date) return;
                     
                     const weekStart = new Date(date);
                     weekStart.setDate(date.getDate() - date.getDay());
                     const weekKey = weekStart.toISOString().split('T')[0];
                     
-                    const existing = acc.find(item => item.week === weekKey);
-                    const saleValue = typeof sale['Sale value'] === 'number' ? 
-                      sale['Sale value'] : parseFloat(String(sale['Sale value'] || '0').replace(/[^0-9.-]+/g, ''));
-                      
+                    const existing = revenueByWeek.find(item => item.week === weekKey);
+                    
                     if (existing) {
-                      existing.revenue += saleValue;
+                      existing.revenue += revenue;
+                      existing.breakdown = addRevenue(existing.breakdown, breakdown);
                     } else {
-                      acc.push({ week: weekKey, revenue: saleValue });
+                      revenueByWeek.push({ week: weekKey, revenue, breakdown });
                     }
-                    
-                    return acc;
-                  }, [] as { week: string; revenue: number }[]);
+                  };
+                  
+                  // Refunded sales add to gross and refunds, but only converting sales count as revenue
+                  const convertingSales = new Set(convertedClients);
+                  revenueSales.forEach(sale => {
+                    addWeeklyRevenue(sale['Date'] || '', convertingSales.has(sale) ? getSaleValue(sale) : 0, getSaleRevenue(sale));
+                  });
+                  teacherBookings.forEach(booking => {
+                    const fees = getBookingFees(booking);
+                    if (fees.lateCancelFees > 0 || fees.noShowFees > 0) {
+                      addWeeklyRevenue(booking['Class Date'] || '', 0, fees);
+                    }
+                  });
                   
                   console.log("Revenue by week data:", revenueByWeek);
                   
@@ -800,13 +1080,12 @@ export const processData = (
                     newClientDetails,
                     retainedClientDetails,
                     convertedClientDetails,
-                    excludedClientDetails: excludedRecords.filter(excluded => 
-                      excluded['Teacher'] === teacher &&
-                      excluded['First visit location'] === location &&
-                      getMonthYearFromDate(excluded['First visit at']) === period
-                    ),
+                    excludedClientDetails: excludedIndex.byGroup.get(groupKey) || [],
                     revenueByWeek,
-                    clientsBySource
+                    clientsBySource,
+                    lifetimeValue,
+                    averageLifetimeValue,
+                    revenueBreakdown
                   });
                   
                   // Combine data for studio view
@@ -845,7 +1124,10 @@ export const processData = (
                       convertedClientDetails: [],
                       excludedClientDetails: [],
                       revenueByWeek: [],
-                      clientsBySource: []
+                      clientsBySource: [],
+                      lifetimeValue: 0,
+                      averageLifetimeValue: 0,
+                      revenueBreakdown: EMPTY_REVENUE_BREAKDOWN
                     };
                   }
                   
@@ -860,6 +1142,8 @@ export const processData = (
                   studio.retainedClients += retainedClientsCount;
                   studio.convertedClients += convertedClientsCount;
                   studio.totalRevenue += totalRevenue;
+                  studio.lifetimeValue += lifetimeValue;
+                  studio.revenueBreakdown = addRevenue(studio.revenueBreakdown, revenueBreakdown);
                   
                   // Add the new metrics to studio totals
                   studio.totalVisits += totalVisits;
@@ -873,16 +1157,17 @@ export const processData = (
                   studio.newClientDetails = [...studio.newClientDetails, ...newClientDetails];
                   studio.retainedClientDetails = [...studio.retainedClientDetails, ...retainedClientDetails];
                   studio.convertedClientDetails = [...studio.convertedClientDetails, ...convertedClientDetails];
-                  studio.excludedClientDetails = [...(studio.excludedClientDetails || []), ...excludedRecords.filter(excluded => 
-                    excluded['First visit location'] === location &&
-                    getMonthYearFromDate(excluded['First visit at']) === period
-                  )];
+                  studio.excludedClientDetails = [
+                    ...(studio.excludedClientDetails || []),
+                    ...(excludedIndex.byLocationPeriod.get(getGroupKey(location, period)) || [])
+                  ];
                   
                   // Combine revenue by week data
                   revenueByWeek.forEach(weekData => {
                     const existingWeek = studio.revenueByWeek.find(w => w.week === weekData.week);
                     if (existingWeek) {
                       existingWeek.revenue += weekData.revenue;
+                      existingWeek.breakdown = addRevenue(existingWeek.breakdown, weekData.breakdown);
                     } else {
                       studio.revenueByWeek.push({ ...weekData });
                     }
@@ -900,7 +1185,10 @@ export const processData = (
               });
             });
             
+            endStage("Calculate teacher metrics");
+            
             // Calculate rates for studios
+            startStage();
             Object.values(studioData).forEach(studio => {
               // Calculate retention rate
               studio.retentionRate = studio.newClients > 0 
@@ -917,18 +1205,21 @@ export const processData = (
                 ? studio.totalRevenue / studio.convertedClients 
                 : 0;
               
+              // Calculate average lifetime value per new client
+              studio.averageLifetimeValue = studio.newClients > 0 
+                ? studio.lifetimeValue / studio.newClients 
+                : 0;
+              
               // Add studio data to processedData
               processedData.push(studio);
             });
             
+            endStage("Calculate studio totals");
+            
             updateProgress({ progress: 100, currentStep: "Processing complete!" });
             
             // Sort periods chronologically (descending)
-            const sortedPeriods = [...periods].sort((a, b) => {
-              const dateA = new Date(a);
-              const dateB = new Date(b);
-              return dateB.getTime() - dateA.getTime();
-            });
+            const sortedPeriods = sortPeriods(periods, periodSettings, { descending: true });
             
             // Sort teachers alphabetically
             const sortedTeachers = [...teachers].sort();
@@ -943,11 +1234,24 @@ export const processData = (
               excludedRecords,
               newClientRecords,
               convertedClientRecords,
-              retainedClientRecords
+              retainedClientRecords,
+              teacherMatchRecords,
+              cohortData: {
+                clients: cohortClients,
+                observedUntil: getLatestDate([
+                  ...cleanedBookingsData.map(booking => booking['Class Date']),
+                  ...cleanedSalesData.map(sale => sale['Date'])
+                ])
+              },
+              attributedConversions,
+              decisionTraces,
+              ...(options.benchmark ? { stageTimings } : {})
             });
           }, 500);
         }, 500);
       }, 500);
     }, 500);
   });
-};
\ No newline at end of file
+};
+
+export type ProcessDataResult = Awaited<ReturnType<typeof processData>>;
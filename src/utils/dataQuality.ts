@@ -0,0 +1,296 @@
+/**
+ * Data quality checks run on every imported row before processData.
+ * processData skips or miscounts bad rows without saying so; this stage
+ * counts them per issue type, keeps a few example rows for each, and
+ * blocks processing when a critical problem would make the results wrong.
+ */
+import Papa from 'papaparse';
+import { formatDateString, parseDate, DataFileType } from './csvParser';
+import type { MergedImport } from './fileMerge';
+import { parseAmount } from './revenueModel';
+
+export type IssueSeverity = 'critical' | 'warning' | 'info';
+
+type Row = Record<string, unknown>;
+
+interface QualityCheck {
+  id: string;
+  fileType: DataFileType;
+  // Column whose value is shown in the examples
+  field: string;
+  label: string;
+  description: string;
+  severity: IssueSeverity;
+  // True when the row fails the check
+  fails: (row: Row) => boolean;
+}
+
+export interface DataQualityExample {
+  // 1-based position in the merged data for the file type
+  row: number;
+  value: string;
+  record: Row;
+}
+
+export interface DataQualityIssue {
+  checkId: string;
+  fileType: DataFileType;
+  field: string;
+  label: string;
+  description: string;
+  severity: IssueSeverity;
+  count: number;
+  examples: DataQualityExample[];
+}
+
+export interface DataQualityReport {
+  checkedAt: string;
+  rowCounts: Record<DataFileType, number>;
+  // Only checks that found something, most severe first
+  issues: DataQualityIssue[];
+  // Rows affected per severity; a row failing two checks counts twice
+  counts: Record<IssueSeverity, number>;
+  // Critical problems found, so processing must not start
+  blocked: boolean;
+}
+
+export const SEVERITY_ORDER: IssueSeverity[] = ['critical', 'warning', 'info'];
+
+export const SEVERITY_LABELS: Record<IssueSeverity, string> = {
+  critical: 'Critical',
+  warning: 'Warning',
+  info: 'Info',
+};
+
+export const QUALITY_FILE_LABELS: Record<DataFileType, string> = {
+  new: 'New clients',
+  bookings: 'Bookings',
+  payments: 'Payments',
+};
+
+// Example rows kept per issue
+const MAX_EXAMPLES = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const YES_NO_VALUES = ['YES', 'NO', ''];
+const BOOKING_FLAGS = ['Cancelled', 'Late Cancelled', 'No Show'];
+
+const text = (value: unknown): string => (value === null || value === undefined ? '' : String(value).trim());
+
+const isValidDate = (value: unknown): boolean => {
+  const formatted = formatDateString(text(value));
+  return /^\d{4}-\d{2}-\d{2}$/.test(formatted) && parseDate(formatted) !== null;
+};
+
+const isAmount = (value: unknown): boolean => {
+  if (typeof value === 'number') return !isNaN(value);
+  const raw = text(value);
+  return /\d/.test(raw) && !isNaN(parseFloat(raw.replace(/[^0-9.-]+/g, '')));
+};
+
+// The schema every row is checked against, in display order within a severity
+export const QUALITY_CHECKS: QualityCheck[] = [
+  {
+    id: 'new-missing-email',
+    fileType: 'new',
+    field: 'Email',
+    label: 'Missing email',
+    description: 'New clients without an email cannot be linked to their bookings or purchases',
+    severity: 'critical',
+    fails: row => !text(row['Email']),
+  },
+  {
+    id: 'new-invalid-email',
+    fileType: 'new',
+    field: 'Email',
+    label: 'Malformed email',
+    description: 'The email does not look like an address, so matching may fail',
+    severity: 'warning',
+    fails: row => Boolean(text(row['Email'])) && !EMAIL_PATTERN.test(text(row['Email'])),
+  },
+  {
+    id: 'new-invalid-first-visit',
+    fileType: 'new',
+    field: 'First visit at',
+    label: 'Missing or unreadable first visit date',
+    description: 'The client cannot be placed in a period, and retention and conversion windows cannot be measured',
+    severity: 'critical',
+    fails: row => !isValidDate(row['First visit at']),
+  },
+  {
+    id: 'new-missing-location',
+    fileType: 'new',
+    field: 'First visit location',
+    label: 'Missing first visit location',
+    description: 'The client is grouped under an empty location',
+    severity: 'warning',
+    fails: row => !text(row['First visit location']),
+  },
+  {
+    id: 'new-missing-name',
+    fileType: 'new',
+    field: 'First name',
+    label: 'Missing name',
+    description: 'Client lists show a blank name',
+    severity: 'info',
+    fails: row => !text(row['First name']) && !text(row['Last name']),
+  },
+  {
+    id: 'bookings-invalid-class-date',
+    fileType: 'bookings',
+    field: 'Class Date',
+    label: 'Missing or unreadable class date',
+    description: 'The booking cannot be matched to a first visit or counted as a return visit',
+    severity: 'critical',
+    fails: row => !isValidDate(row['Class Date']),
+  },
+  {
+    id: 'bookings-missing-email',
+    fileType: 'bookings',
+    field: 'Customer Email',
+    label: 'Missing customer email',
+    description: 'The booking cannot be linked to a client',
+    severity: 'warning',
+    fails: row => !text(row['Customer Email']),
+  },
+  {
+    id: 'bookings-missing-teacher',
+    fileType: 'bookings',
+    field: 'Teacher',
+    label: 'Missing teacher',
+    description: 'New clients whose first class has no teacher cannot be attributed',
+    severity: 'warning',
+    fails: row => !text(row['Teacher']),
+  },
+  {
+    id: 'bookings-unrecognised-flag',
+    fileType: 'bookings',
+    field: 'Cancelled',
+    label: 'Unrecognised cancellation or no-show value',
+    description: 'Only YES and NO are understood; anything else counts as NO',
+    severity: 'warning',
+    fails: row => BOOKING_FLAGS.some(flag => !YES_NO_VALUES.includes(text(row[flag]))),
+  },
+  {
+    id: 'bookings-invalid-sale-value',
+    fileType: 'bookings',
+    field: 'Sale Value',
+    label: 'Unreadable sale value',
+    description: 'The value counts as zero in late-cancel and no-show fees',
+    severity: 'warning',
+    fails: row => Boolean(text(row['Sale Value'])) && !isAmount(row['Sale Value']),
+  },
+  {
+    id: 'payments-invalid-date',
+    fileType: 'payments',
+    field: 'Date',
+    label: 'Missing or unreadable sale date',
+    description: 'The sale cannot be checked against the conversion window',
+    severity: 'critical',
+    fails: row => !isValidDate(row['Date']),
+  },
+  {
+    id: 'payments-invalid-sale-value',
+    fileType: 'payments',
+    field: 'Sale value',
+    label: 'Missing or unreadable sale value',
+    description: 'The sale counts as zero, so it never converts a client and adds no revenue',
+    severity: 'critical',
+    fails: row => !isAmount(row['Sale value']),
+  },
+  {
+    id: 'payments-negative-sale-value',
+    fileType: 'payments',
+    field: 'Sale value',
+    label: 'Negative sale value',
+    description: 'Negative sales are ignored for conversions but reduce lifetime and sales totals',
+    severity: 'warning',
+    fails: row => isAmount(row['Sale value']) && parseAmount(row['Sale value'] as string | number) < 0,
+  },
+  {
+    id: 'payments-missing-email',
+    fileType: 'payments',
+    field: 'Customer email',
+    label: 'Missing customer email',
+    description: 'The sale cannot be linked to a client',
+    severity: 'warning',
+    fails: row => !text(row['Customer email']) && !text(row['Paying Customer email']),
+  },
+  {
+    id: 'payments-unrecognised-refund',
+    fileType: 'payments',
+    field: 'Refunded',
+    label: 'Unrecognised refund value',
+    description: 'Refunds should be YES, NO or an amount; anything else counts as not refunded',
+    severity: 'warning',
+    fails: row => !YES_NO_VALUES.includes(text(row['Refunded']).toUpperCase()) && !isAmount(row['Refunded']),
+  },
+];
+
+/**
+ * Check every row of the three files against the schema. The report is
+ * blocked when any critical check fails.
+ */
+export const checkDataQuality = (data: Pick<MergedImport, 'newClientData' | 'bookingsData' | 'paymentsData'>): DataQualityReport => {
+  const rowsByType: Record<DataFileType, Row[]> = {
+    new: data.newClientData || [],
+    bookings: data.bookingsData || [],
+    payments: data.paymentsData || [],
+  };
+
+  const issues = QUALITY_CHECKS.map(check => {
+    const issue: DataQualityIssue = {
+      checkId: check.id,
+      fileType: check.fileType,
+      field: check.field,
+      label: check.label,
+      description: check.description,
+      severity: check.severity,
+      count: 0,
+      examples: [],
+    };
+
+    rowsByType[check.fileType].forEach((row, index) => {
+      if (!check.fails(row)) return;
+      issue.count++;
+      if (issue.examples.length < MAX_EXAMPLES) {
+        issue.examples.push({ row: index + 1, value: text(row[check.field]), record: row });
+      }
+    });
+
+    return issue;
+  })
+    .filter(issue => issue.count > 0)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  const counts = SEVERITY_ORDER.reduce((totals, severity) => ({
+    ...totals,
+    [severity]: issues.filter(issue => issue.severity === severity).reduce((sum, issue) => sum + issue.count, 0),
+  }), {} as Record<IssueSeverity, number>);
+
+  return {
+    checkedAt: new Date().toISOString(),
+    rowCounts: {
+      new: rowsByType.new.length,
+      bookings: rowsByType.bookings.length,
+      payments: rowsByType.payments.length,
+    },
+    issues,
+    counts,
+    blocked: counts.critical > 0,
+  };
+};
+
+// One line per example row, with the issue totals repeated, for spreadsheets
+export const dataQualityReportToCSV = (report: DataQualityReport): string => {
+  return Papa.unparse(report.issues.flatMap(issue => issue.examples.map(example => ({
+    Severity: SEVERITY_LABELS[issue.severity],
+    File: QUALITY_FILE_LABELS[issue.fileType],
+    Issue: issue.label,
+    'Rows affected': issue.count,
+    'Example row': example.row,
+    Column: issue.field,
+    Value: example.value,
+    Record: JSON.stringify(example.record),
+  }))));
+};
@@ -0,0 +1,53 @@
+/**
+ * Structured record of every decision processData makes about a client:
+ * which booking their teacher came from, which visits counted towards
+ * retention and which sales were considered for conversion, each with the
+ * reason it passed or failed. Lets a disputed number be explained without
+ * reading console logs.
+ */
+import type { TeacherMatchRecord } from './teacherAttribution';
+
+// A booking after the first visit, and whether it counted towards retention
+export interface TracedVisit {
+  date: string;
+  className: string;
+  teacher: string;
+  location: string;
+  counted: boolean;
+  reason: string;
+}
+
+// A sale made by the client, and whether it converted them
+export interface TracedSale {
+  date: string;
+  item: string;
+  category: string;
+  value: number;
+  counted: boolean;
+  reason: string;
+}
+
+export interface ClientDecisionTrace {
+  email: string;
+  name: string;
+  teacher: string;
+  location: string;
+  period: string;
+  firstVisit: string;
+  firstVisitDate: string;
+  // How the teacher was found; missing when the client had no attribution record
+  attribution?: TeacherMatchRecord;
+  // Set for friends, family and staff, who skip retention and conversion
+  exclusion?: string;
+  retention?: { retained: boolean; rule: string; reason: string };
+  visits: TracedVisit[];
+  conversion?: { converted: boolean; reason: string };
+  sales: TracedSale[];
+}
+
+// Every trace for the email; a client can appear under more than one teacher or period
+export const findClientTraces = (traces: ClientDecisionTrace[] | undefined, email: string): ClientDecisionTrace[] => {
+  if (!traces || !email) return [];
+  const lowerEmail = email.toLowerCase();
+  return traces.filter(trace => trace.email.toLowerCase() === lowerEmail);
+};
@@ -2,23 +2,27 @@
 /**
  * Utility functions to handle deduplication of data records
  */
+import { normalizeEmail } from './identityResolution';
 
 /**
  * Deduplicate records by a specified key field
  * @param records Array of records to deduplicate
  * @param keyField Field to use as unique identifier
+ * @param normalizeKey Optional function making equivalent key values equal
  * @returns Array of deduplicated records
  */
 export const deduplicateRecords = <T extends Record<string, any>>(
   records: T[],
-  keyField: string
+  keyField: string,
+  normalizeKey: (value: string) => string = value => value
 ): T[] => {
   const seen = new Set();
   return records.filter(record => {
     // Get the key value, with fallbacks for different field name patterns
-    const keyValue = record[keyField] || 
+    const rawKeyValue = record[keyField] || 
                     record[keyField.toLowerCase()] || 
                     record[keyField.charAt(0).toUpperCase() + keyField.slice(1)];
+    const keyValue = rawKeyValue ? normalizeKey(String(rawKeyValue)) : rawKeyValue;
     
     if (!keyValue) return true; // Keep records without the key field
     
@@ -31,10 +35,10 @@ export const deduplicateRecords = <T extends Record<string, any>>(
 };
 
 /**
- * Deduplicate client records by email
+ * Deduplicate client records by email, ignoring case and surrounding spaces
  * @param records Array of client records
  * @returns Array of deduplicated client records
  */
 export const deduplicateClientsByEmail = <T extends Record<string, any>>(records: T[]): T[] => {
-  return deduplicateRecords(records, 'email');
+  return deduplicateRecords(records, 'email', normalizeEmail);
 };
@@ -0,0 +1,10 @@
+// Save generated content as a file through the browser's download prompt
+export const downloadFile = (content: string, fileName: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
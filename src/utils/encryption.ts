@@ -0,0 +1,306 @@
+/**
+ * Optional at-rest encryption of everything the app saves in the browser:
+ * client records, results, settings and the AI API key. With a passphrase
+ * set, values are encrypted with AES-GCM under a key derived from it
+ * (PBKDF2) and nothing can be read until the passphrase is entered again.
+ * The key only ever lives in memory, so reloading the page locks the app.
+ *
+ * Code that used localStorage directly goes through secureStorage, which
+ * keeps the synchronous API: once unlocked, settings are decrypted into
+ * memory and writes are encrypted in the background.
+ */
+
+export interface EncryptionConfig {
+  version: number;
+  salt: string;
+  iterations: number;
+  // A known value encrypted with the key, to check a passphrase
+  check: string;
+  // Lock after this many minutes without activity; 0 never locks
+  autoLockMinutes: number;
+}
+
+// Values saved in IndexedDB while encryption is on
+interface SealedValue {
+  sealed: 1;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// The only value that stays readable; it holds no data
+const CONFIG_KEY = 'studio-stats-encryption';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const CHECK_VALUE = 'studio-stats';
+const PBKDF2_ITERATIONS = 310000;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+let encryptionKey: CryptoKey | null = null;
+// Decrypted localStorage values, filled on unlock
+let decryptedValues: Map<string, string> | null = null;
+// Latest write per key, so a slower earlier encryption cannot overwrite it
+const writeVersions = new Map<string, number>();
+// Background encrypted writes that have not reached localStorage yet
+const pendingWrites = new Set<Promise<void>>();
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+export const isEncryptionSupported = (): boolean => Boolean(window.crypto?.subtle);
+
+export const getEncryptionConfig = (): EncryptionConfig | null => {
+  try {
+    const saved = localStorage.getItem(CONFIG_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Error retrieving encryption settings:", e);
+    return null;
+  }
+};
+
+const saveEncryptionConfig = (config: EncryptionConfig | null): void => {
+  if (config) {
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(CONFIG_KEY);
+  }
+};
+
+export const isEncryptionEnabled = (): boolean => getEncryptionConfig() !== null;
+
+export const isUnlocked = (): boolean => !isEncryptionEnabled() || encryptionKey !== null;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptBytes = async (key: CryptoKey, text: string): Promise<{ iv: Uint8Array; data: ArrayBuffer }> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text));
+  return { iv, data };
+};
+
+const decryptBytes = async (key: CryptoKey, iv: Uint8Array, data: ArrayBuffer | Uint8Array): Promise<string> => {
+  return decoder.decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data));
+};
+
+const encryptString = async (key: CryptoKey, text: string): Promise<string> => {
+  const { iv, data } = await encryptBytes(key, text);
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(data))}`;
+};
+
+// Plain values, saved before encryption was turned on, are returned as they are
+const decryptString = async (key: CryptoKey, value: string): Promise<string> => {
+  if (!value.startsWith(ENCRYPTED_PREFIX)) return value;
+  const [iv, data] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  return decryptBytes(key, fromBase64(iv), fromBase64(data));
+};
+
+const getAppKeys = (): string[] => {
+  return Array.from({ length: localStorage.length }, (_, index) => localStorage.key(index))
+    .filter((key): key is string => key !== null && key !== CONFIG_KEY);
+};
+
+// Decrypt every saved setting into memory
+const loadDecryptedValues = async (key: CryptoKey): Promise<Map<string, string>> => {
+  const values = new Map<string, string>();
+  for (const storageKey of getAppKeys()) {
+    try {
+      values.set(storageKey, await decryptString(key, localStorage.getItem(storageKey) || ''));
+    } catch (e) {
+      console.error(`Error decrypting stored value for key ${storageKey}:`, e);
+    }
+  }
+  return values;
+};
+
+/**
+ * Unlock with the passphrase. Resolves to false when it is wrong; the
+ * decrypted settings are ready for secureStorage once it resolves true.
+ */
+export const unlock = async (passphrase: string): Promise<boolean> => {
+  const config = getEncryptionConfig();
+  if (!config) return true;
+
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    if ((await decryptString(key, config.check)) !== CHECK_VALUE) return false;
+  } catch (e) {
+    return false;
+  }
+
+  decryptedValues = await loadDecryptedValues(key);
+  encryptionKey = key;
+  return true;
+};
+
+// Forget the key and decrypted values; the page should reload to drop everything shown
+export const lock = (): void => {
+  encryptionKey = null;
+  decryptedValues = null;
+};
+
+// Resolves once every encrypted write started so far is saved, e.g. before reloading after lock()
+export const flushPendingWrites = async (): Promise<void> => {
+  await Promise.all(pendingWrites);
+};
+
+// A new passphrase's key and settings, not yet in use
+export interface PreparedEncryption {
+  key: CryptoKey;
+  config: EncryptionConfig;
+}
+
+/**
+ * Derive the key for a new passphrase without switching to it, so saved
+ * session data can be re-encrypted first with resealStorage(prepared.key).
+ */
+export const prepareEncryption = async (
+  passphrase: string,
+  autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES
+): Promise<PreparedEncryption> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    config: {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptString(key, CHECK_VALUE),
+      autoLockMinutes,
+    },
+  };
+};
+
+// Stored settings in plain text; they cannot be read while locked
+const getPlainSettings = (): Map<string, string> => {
+  if (!isEncryptionEnabled()) return new Map(getAppKeys().map(key => [key, localStorage.getItem(key) || '']));
+  if (!decryptedValues) throw new Error('Storage is locked');
+  return decryptedValues;
+};
+
+/**
+ * Switch to a prepared passphrase, turning encryption on or replacing the
+ * current passphrase, and encrypt every saved setting with it. Call once
+ * resealStorage has re-encrypted the session data with the same key.
+ */
+export const activateEncryption = async ({ key, config }: PreparedEncryption): Promise<void> => {
+  const values = getPlainSettings();
+  const encrypted = await Promise.all([...values].map(async ([storageKey, value]) => (
+    [storageKey, await encryptString(key, value)] as const
+  )));
+
+  saveEncryptionConfig(config);
+  encryptionKey = key;
+  decryptedValues = values;
+  encrypted.forEach(([storageKey, value]) => {
+    // Drop writes still in flight under the previous key
+    writeVersions.set(storageKey, (writeVersions.get(storageKey) || 0) + 1);
+    localStorage.setItem(storageKey, value);
+  });
+};
+
+/**
+ * Turn encryption off, save every setting in plain text again and forget
+ * the key. Call once resealStorage(null) has decrypted the session data.
+ */
+export const disableEncryption = (): void => {
+  const values = getPlainSettings();
+  saveEncryptionConfig(null);
+  values.forEach((value, storageKey) => {
+    // Drop encrypted writes still in flight
+    writeVersions.set(storageKey, (writeVersions.get(storageKey) || 0) + 1);
+    localStorage.setItem(storageKey, value);
+  });
+  lock();
+};
+
+// For a forgotten passphrase: remove every saved setting along with the encryption
+export const eraseEncryptedSettings = (): void => {
+  getAppKeys().forEach(key => localStorage.removeItem(key));
+  saveEncryptionConfig(null);
+  lock();
+};
+
+export const setAutoLockMinutes = (minutes: number): void => {
+  const config = getEncryptionConfig();
+  if (config) saveEncryptionConfig({ ...config, autoLockMinutes: minutes });
+};
+
+// IndexedDB value to store, encrypted with the given key or left as it is without one
+export const sealValueWith = async (value: unknown, key: CryptoKey | null): Promise<unknown> => {
+  if (!key) return value;
+  const { iv, data } = await encryptBytes(key, JSON.stringify(value));
+  const sealed: SealedValue = { sealed: 1, iv, data };
+  return sealed;
+};
+
+// IndexedDB value to store, encrypted when encryption is on
+export const sealValue = async (value: unknown): Promise<unknown> => {
+  if (!isEncryptionEnabled()) return value;
+  if (!encryptionKey) throw new Error('Storage is locked');
+  return sealValueWith(value, encryptionKey);
+};
+
+// Stored IndexedDB value as saved, decrypting it if it was sealed
+export const openValue = async <T>(stored: unknown): Promise<T> => {
+  const sealed = stored as SealedValue;
+  if (!sealed || sealed.sealed !== 1 || !(sealed.data instanceof ArrayBuffer)) return stored as T;
+  if (!encryptionKey) throw new Error('Storage is locked');
+  return JSON.parse(await decryptBytes(encryptionKey, sealed.iv, sealed.data));
+};
+
+/**
+ * Drop-in replacement for localStorage. Without encryption it passes
+ * straight through; with encryption it reads the decrypted copy and
+ * encrypts writes in the background, and throws while locked.
+ */
+export const secureStorage = {
+  getItem: (key: string): string | null => {
+    if (!isEncryptionEnabled()) return localStorage.getItem(key);
+    if (!decryptedValues) throw new Error('Storage is locked');
+    return decryptedValues.get(key) ?? null;
+  },
+  setItem: (key: string, value: string): void => {
+    if (!isEncryptionEnabled()) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    if (!decryptedValues || !encryptionKey) throw new Error('Storage is locked');
+
+    decryptedValues.set(key, value);
+    const version = (writeVersions.get(key) || 0) + 1;
+    writeVersions.set(key, version);
+    const write = encryptString(encryptionKey, value)
+      .then(encrypted => {
+        if (writeVersions.get(key) === version) localStorage.setItem(key, encrypted);
+      })
+      .catch(error => console.error(`Error saving encrypted value for key ${key}:`, error))
+      .finally(() => pendingWrites.delete(write));
+    pendingWrites.add(write);
+  },
+  removeItem: (key: string): void => {
+    writeVersions.set(key, (writeVersions.get(key) || 0) + 1);
+    decryptedValues?.delete(key);
+    localStorage.removeItem(key);
+  },
+};
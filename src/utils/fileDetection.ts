@@ -0,0 +1,103 @@
+/**
+ * Content-based file type detection. Files are classified by comparing
+ * their header row against the column signature of each export type.
+ */
+import { readCSVHeaders, getFileTypeFromName, DataFileType } from './csvParser';
+import { CANONICAL_FIELDS, normalizeHeader, findSchemaForHeaders, ImportSchema } from './columnMapping';
+
+export type DetectedFileType = DataFileType | 'unknown';
+
+export interface FileTypeDetection {
+  fileType: DetectedFileType;
+  confidence: number; // 0-100
+  method: 'schema' | 'headers' | 'filename' | 'manual';
+  matchedColumns: string[];
+}
+
+// Columns that set each export apart from the others
+const DETECTION_SIGNATURES: Record<DataFileType, string[]> = {
+  new: ['First visit at', 'First visit', 'First visit location', 'Visit type', 'First name', 'Last name', 'Phone number', 'Email'],
+  bookings: ['Class Name', 'Class Date', 'Teacher', 'Cancelled', 'Late Cancelled', 'No Show', 'Sale Date', 'Customer Email'],
+  payments: ['Category', 'Item', 'Sale value', 'Tax', 'Payment status', 'Paying Customer email', 'Paying Customer name', 'Customer name'],
+};
+
+// Minimum share of a signature that must match before trusting the headers
+const MIN_SIGNATURE_SCORE = 0.35;
+
+const getSignatureMatches = (headers: string[], fileType: DataFileType): string[] => {
+  const normalizedHeaders = new Set(headers.map(normalizeHeader));
+  const fields = CANONICAL_FIELDS[fileType];
+
+  return DETECTION_SIGNATURES[fileType].filter(column => {
+    const field = fields.find(f => f.key === column);
+    const candidates = [column, ...(field?.aliases || [])].map(normalizeHeader);
+    return candidates.some(candidate => normalizedHeaders.has(candidate));
+  });
+};
+
+/**
+ * Classify a header row. An import schema with the same signature wins,
+ * then the best scoring column signature, then the filename as a last resort.
+ * Schemas are the saved ones unless a list is given.
+ */
+export const detectFileTypeFromHeaders = (headers: string[], fileName = '', schemas?: ImportSchema[]): FileTypeDetection => {
+  const schema = headers.length > 0 ? findSchemaForHeaders(headers, undefined, schemas) : undefined;
+  if (schema) {
+    return {
+      fileType: schema.fileType,
+      confidence: 100,
+      method: 'schema',
+      matchedColumns: Object.values(schema.mapping),
+    };
+  }
+
+  const scores = (Object.keys(DETECTION_SIGNATURES) as DataFileType[])
+    .map(fileType => {
+      const matchedColumns = getSignatureMatches(headers, fileType);
+      return {
+        fileType,
+        matchedColumns,
+        score: matchedColumns.length / DETECTION_SIGNATURES[fileType].length,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+
+  if (best.score >= MIN_SIGNATURE_SCORE && best.score > runnerUp.score) {
+    // Confidence reflects both how complete the match is and how clearly it beats the next type
+    const margin = (best.score - runnerUp.score) / best.score;
+    return {
+      fileType: best.fileType,
+      confidence: Math.round(best.score * (0.5 + margin / 2) * 100),
+      method: 'headers',
+      matchedColumns: best.matchedColumns,
+    };
+  }
+
+  const nameType = getFileTypeFromName(fileName);
+  return {
+    fileType: nameType,
+    confidence: nameType === 'unknown' ? 0 : 25,
+    method: 'filename',
+    matchedColumns: [],
+  };
+};
+
+// Read a file's header row and classify it
+export const detectFileType = async (file: File): Promise<FileTypeDetection> => {
+  try {
+    const headers = await readCSVHeaders(file);
+    return detectFileTypeFromHeaders(headers, file.name);
+  } catch (error) {
+    console.error(`Error detecting file type for ${file.name}:`, error);
+    return detectFileTypeFromHeaders([], file.name);
+  }
+};
+
+// Reduce detections to the plain type map categorizeFiles expects
+export const getFileTypeMap = (detections: Map<File, FileTypeDetection>): Map<File, DetectedFileType> => {
+  const fileTypes = new Map<File, DetectedFileType>();
+  detections.forEach((detection, file) => fileTypes.set(file, detection.fileType));
+  return fileTypes;
+};
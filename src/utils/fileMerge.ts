@@ -0,0 +1,130 @@
+/**
+ * Utilities for combining several uploaded files of the same type into
+ * one dataset, dropping rows repeated across overlapping exports.
+ */
+import { parseCSV, formatDateString, DataFileType } from './csvParser';
+import { applyColumnMapping, CANONICAL_FIELDS, FileColumnMappings } from './columnMapping';
+import type { NewRecord, BookingRecord, SaleRecord } from './dataProcessor';
+
+export interface FileImportSummary {
+  fileName: string;
+  fileType: DataFileType;
+  rowCount: number;
+  duplicateRows: number;
+  dateRange: { start: string; end: string } | null;
+}
+
+export interface MergedImport {
+  newClientData: NewRecord[];
+  bookingsData: BookingRecord[];
+  paymentsData: SaleRecord[];
+  summaries: FileImportSummary[];
+}
+
+export interface ParsedFile {
+  fileName: string;
+  fileType: DataFileType;
+  rows: Record<string, unknown>[];
+}
+
+export type CategorizedFiles = Record<DataFileType, File[]>;
+
+// Field holding the date that defines each file's coverage
+export const DATE_FIELDS: Record<DataFileType, string> = {
+  new: 'First visit at',
+  bookings: 'Class Date',
+  payments: 'Date',
+};
+
+const getDateRange = (rows: Record<string, unknown>[], fileType: DataFileType) => {
+  let start = '';
+  let end = '';
+
+  rows.forEach(row => {
+    const date = formatDateString(String(row[DATE_FIELDS[fileType]] || ''));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+    if (!start || date < start) start = date;
+    if (!end || date > end) end = date;
+  });
+
+  return start ? { start, end } : null;
+};
+
+// Identify a row by its canonical fields so extra columns don't affect matching
+const getRowKey = (row: Record<string, unknown>, fileType: DataFileType): string => {
+  const values = CANONICAL_FIELDS[fileType].map(field => String(row[field.key] ?? '').trim().toLowerCase());
+
+  // Unmapped files have no canonical columns, so fall back to the whole row
+  return values.some(Boolean) ? values.join('␟') : JSON.stringify(row);
+};
+
+/**
+ * Concatenate files of the same type. Rows already seen in an earlier file
+ * are dropped, while repeats within a single file are kept as exported.
+ */
+export const mergeParsedFiles = (parsedFiles: ParsedFile[]): MergedImport => {
+  const merged: MergedImport = {
+    newClientData: [],
+    bookingsData: [],
+    paymentsData: [],
+    summaries: [],
+  };
+  const targets: Record<DataFileType, Record<string, unknown>[]> = {
+    new: merged.newClientData,
+    bookings: merged.bookingsData,
+    payments: merged.paymentsData,
+  };
+  const seenKeys: Record<DataFileType, Set<string>> = {
+    new: new Set(),
+    bookings: new Set(),
+    payments: new Set(),
+  };
+
+  parsedFiles.forEach(({ fileName, fileType, rows }) => {
+    const fileKeys = new Set<string>();
+    let duplicateRows = 0;
+
+    rows.forEach(row => {
+      const key = getRowKey(row, fileType);
+      if (seenKeys[fileType].has(key)) {
+        duplicateRows++;
+        return;
+      }
+      fileKeys.add(key);
+      targets[fileType].push(row);
+    });
+
+    fileKeys.forEach(key => seenKeys[fileType].add(key));
+
+    merged.summaries.push({
+      fileName,
+      fileType,
+      rowCount: rows.length,
+      duplicateRows,
+      dateRange: getDateRange(rows, fileType),
+    });
+  });
+
+  return merged;
+};
+
+// Parse every categorized file, apply its column mapping and merge by type
+export const loadAndMergeFiles = async (
+  categorized: CategorizedFiles,
+  mappings?: FileColumnMappings
+): Promise<MergedImport> => {
+  const parsedFiles: ParsedFile[] = [];
+
+  for (const fileType of ['new', 'bookings', 'payments'] as DataFileType[]) {
+    for (const file of categorized[fileType]) {
+      const result = await parseCSV(file);
+      parsedFiles.push({
+        fileName: file.name,
+        fileType,
+        rows: applyColumnMapping(result.data || [], mappings?.get(file)),
+      });
+    }
+  }
+
+  return mergeParsedFiles(parsedFiles);
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildIdentityMap, buildIdentityProfiles, suggestMerges, getConfirmedMerges, IdentityInput } from './identityResolution';
+
+const input: IdentityInput = {
+  newClients: [
+    { 'Email': 'Alice.Smith@example.com', 'First name': 'Alice', 'Last name': 'Smith', 'Phone number': '+91 98765 43210' },
+    { 'Email': 'bob@example.com', 'First name': 'Bob', 'Last name': 'Jones' },
+  ],
+  bookings: [
+    { 'Customer Email': ' alice.smith@EXAMPLE.com ' },
+    { 'Customer Email': 'alice.work@example.com' },
+  ],
+  sales: [
+    { 'Customer email': 'asmith@example.com', 'Customer name': 'Alice Smith', 'Paying Customer email': 'asmith@example.com' },
+    { 'Customer email': 'carol@example.com', 'Customer name': 'Carol White', 'Paying Customer email': 'carol@example.com' },
+  ],
+};
+
+describe('buildIdentityMap', () => {
+  it('treats emails differing only in case or spacing as one client', () => {
+    const identityMap = buildIdentityMap(input);
+
+    expect(identityMap.resolveEmail(' alice.smith@EXAMPLE.com ')).toBe('Alice.Smith@example.com');
+    expect(identityMap.resolveEmail('asmith@example.com')).toBe('asmith@example.com');
+  });
+
+  it('joins confirmed merges transitively under the new client email', () => {
+    const identityMap = buildIdentityMap(input, [
+      ['asmith@example.com', 'alice.work@example.com'],
+      ['alice.work@example.com', 'alice.smith@example.com'],
+    ]);
+
+    expect(identityMap.resolveEmail('asmith@example.com')).toBe('Alice.Smith@example.com');
+    expect(identityMap.resolveEmail('ALICE.WORK@example.com')).toBe('Alice.Smith@example.com');
+    expect(identityMap.resolveEmail('bob@example.com')).toBe('bob@example.com');
+
+    const alice = identityMap.clusters.find(cluster => cluster.canonicalEmail === 'Alice.Smith@example.com');
+    expect([...alice.emails].sort()).toEqual(['alice.smith@example.com', 'alice.work@example.com', 'asmith@example.com']);
+    expect(identityMap.clusters).toHaveLength(3);
+  });
+
+  it('leaves emails that are not in the data as they are', () => {
+    expect(buildIdentityMap(input).resolveEmail('Someone@Else.com')).toBe('Someone@Else.com');
+  });
+});
+
+describe('suggestMerges', () => {
+  it('suggests same-name emails only when a new client is involved', () => {
+    const suggestions = suggestMerges(buildIdentityProfiles(input));
+
+    expect(suggestions).toEqual([
+      expect.objectContaining({ emails: ['alice.smith@example.com', 'asmith@example.com'], reason: 'Similar name (100%)' }),
+    ]);
+  });
+
+  it('rates a shared phone number and name above a similar name alone', () => {
+    const suggestions = suggestMerges(buildIdentityProfiles({
+      ...input,
+      newClients: [
+        ...input.newClients,
+        { 'Email': 'alice.s@example.com', 'First name': 'Alice', 'Last name': 'Smith', 'Phone number': '9876543210' },
+      ],
+    }));
+
+    expect(suggestions[0]).toMatchObject({
+      emails: ['alice.s@example.com', 'alice.smith@example.com'],
+      reason: 'Same phone number and name',
+      confidence: 0.95,
+    });
+  });
+});
+
+describe('getConfirmedMerges', () => {
+  it('returns only confirmed pairs', () => {
+    expect(getConfirmedMerges({ 'a@x.com|b@x.com': 'confirmed', 'c@x.com|d@x.com': 'split' })).toEqual([['a@x.com', 'b@x.com']]);
+  });
+});
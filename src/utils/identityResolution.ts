@@ -0,0 +1,286 @@
+/**
+ * Client identity resolution across the new clients, bookings and
+ * payments files. Emails that only differ in case or spacing are always
+ * treated as one client; links found through phone numbers or similar
+ * names are suggested and only applied once confirmed in the review
+ * screen.
+ */
+import type { NewRecord, BookingRecord, SaleRecord } from './dataProcessor';
+import { workspaceKey } from './workspaces';
+import { secureStorage } from './encryption';
+
+export type IdentitySource = 'new' | 'bookings' | 'payments';
+export type MergeDecision = 'confirmed' | 'split';
+
+export interface IdentityInput {
+  newClients: Partial<NewRecord>[];
+  bookings: Partial<BookingRecord>[];
+  sales: Partial<SaleRecord>[];
+}
+
+// Everything seen for one normalized email
+export interface IdentityProfile {
+  email: string;
+  displayEmail: string;
+  names: string[];
+  phones: string[];
+  sources: IdentitySource[];
+  recordCount: number;
+}
+
+export interface MergeSuggestion {
+  id: string;
+  emails: [string, string];
+  reason: string;
+  confidence: number;
+}
+
+export interface IdentityCluster {
+  canonicalEmail: string;
+  emails: string[];
+}
+
+export interface IdentityMap {
+  // Email as it should be used in joins for any raw email
+  resolveEmail: (email: string) => string;
+  clusters: IdentityCluster[];
+}
+
+const STORAGE_KEY = 'studio-stats-identity-decisions';
+
+// Names at least this similar are suggested as the same client
+export const NAME_SIMILARITY_THRESHOLD = 0.9;
+
+export const normalizeEmail = (email: string): string => (email || '').trim().toLowerCase();
+
+// Compare phone numbers on their last ten digits so country codes don't matter
+export const normalizePhone = (phone: string): string => {
+  const digits = String(phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+export const normalizeName = (name: string): string => {
+  return (name || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+};
+
+const getBigrams = (value: string): string[] => {
+  const bigrams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    bigrams.push(value.slice(i, i + 2));
+  }
+  return bigrams;
+};
+
+// Dice coefficient over character pairs of the normalized names, from 0 to 1
+export const nameSimilarity = (nameA: string, nameB: string): number => {
+  const a = normalizeName(nameA);
+  const b = normalizeName(nameB);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const bigramsA = getBigrams(a);
+  const bigramsB = getBigrams(b);
+  const remaining = new Map<string, number>();
+  bigramsB.forEach(bigram => remaining.set(bigram, (remaining.get(bigram) || 0) + 1));
+
+  let shared = 0;
+  bigramsA.forEach(bigram => {
+    const count = remaining.get(bigram) || 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(bigram, count - 1);
+    }
+  });
+
+  return (2 * shared) / (bigramsA.length + bigramsB.length);
+};
+
+const pushToGroup = <V>(groups: Map<string, V[]>, key: string, value: V) => {
+  const group = groups.get(key);
+  if (group) {
+    group.push(value);
+  } else {
+    groups.set(key, [value]);
+  }
+};
+
+export const getSuggestionId = (emailA: string, emailB: string): string => {
+  return [normalizeEmail(emailA), normalizeEmail(emailB)].sort().join('|');
+};
+
+// Gather names, phones and sources for every normalized email in the data
+export const buildIdentityProfiles = ({ newClients, bookings, sales }: IdentityInput): Map<string, IdentityProfile> => {
+  const profiles = new Map<string, IdentityProfile>();
+
+  const observe = (rawEmail: string | undefined, source: IdentitySource, name?: string, phone?: string) => {
+    const email = normalizeEmail(rawEmail || '');
+    if (!email) return;
+
+    let profile = profiles.get(email);
+    if (!profile) {
+      profile = { email, displayEmail: (rawEmail || '').trim(), names: [], phones: [], sources: [], recordCount: 0 };
+      profiles.set(email, profile);
+    }
+
+    profile.recordCount++;
+    if (!profile.sources.includes(source)) profile.sources.push(source);
+    const trimmedName = (name || '').trim();
+    if (trimmedName && !profile.names.includes(trimmedName)) profile.names.push(trimmedName);
+    const normalizedPhone = normalizePhone(phone || '');
+    if (normalizedPhone && !profile.phones.includes(normalizedPhone)) profile.phones.push(normalizedPhone);
+  };
+
+  newClients.forEach(record => {
+    observe(record['Email'], 'new', `${record['First name'] || ''} ${record['Last name'] || ''}`, record['Phone number']);
+  });
+  bookings.forEach(record => observe(record['Customer Email'], 'bookings'));
+  sales.forEach(record => {
+    observe(record['Customer email'], 'payments', record['Customer name']);
+    if (record['Paying Customer email'] !== record['Customer email']) {
+      observe(record['Paying Customer email'], 'payments', record['Paying Customer name']);
+    }
+  });
+
+  return profiles;
+};
+
+/**
+ * Suggest merges between emails that look like the same client. Only
+ * pairs involving a new client are suggested, since only those affect
+ * acquisition, conversion and retention metrics.
+ */
+export const suggestMerges = (profiles: Map<string, IdentityProfile>): MergeSuggestion[] => {
+  const suggestions = new Map<string, MergeSuggestion>();
+
+  const suggest = (a: IdentityProfile, b: IdentityProfile, reason: string, confidence: number) => {
+    if (a.email === b.email) return;
+    if (!a.sources.includes('new') && !b.sources.includes('new')) return;
+
+    const id = getSuggestionId(a.email, b.email);
+    const existing = suggestions.get(id);
+    if (existing && existing.confidence >= confidence) return;
+    suggestions.set(id, { id, emails: [a.email, b.email].sort() as [string, string], reason, confidence });
+  };
+
+  const bestNameSimilarity = (a: IdentityProfile, b: IdentityProfile): number => {
+    let best = 0;
+    a.names.forEach(nameA => b.names.forEach(nameB => {
+      best = Math.max(best, nameSimilarity(nameA, nameB));
+    }));
+    return best;
+  };
+
+  // Same phone number under different emails
+  const byPhone = new Map<string, IdentityProfile[]>();
+  profiles.forEach(profile => profile.phones.forEach(phone => pushToGroup(byPhone, phone, profile)));
+  byPhone.forEach(group => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const similarity = bestNameSimilarity(group[i], group[j]);
+        suggest(
+          group[i],
+          group[j],
+          similarity >= NAME_SIMILARITY_THRESHOLD ? 'Same phone number and name' : 'Same phone number',
+          similarity >= NAME_SIMILARITY_THRESHOLD ? 0.95 : 0.8
+        );
+      }
+    }
+  });
+
+  // Similar names, compared only within groups sharing a name token to keep this fast
+  const byNameBlock = new Map<string, IdentityProfile[]>();
+  profiles.forEach(profile => {
+    const blocks = new Set(profile.names.flatMap(name => normalizeName(name).split(' ')).filter(token => token.length > 1));
+    blocks.forEach(block => pushToGroup(byNameBlock, block, profile));
+  });
+  byNameBlock.forEach(group => {
+    if (group.length > 50) return; // Common names are too ambiguous to suggest
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const similarity = bestNameSimilarity(group[i], group[j]);
+        if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+          suggest(group[i], group[j], `Similar name (${Math.round(similarity * 100)}%)`, 0.5 + similarity * 0.2);
+        }
+      }
+    }
+  });
+
+  return [...suggestions.values()].sort((a, b) => b.confidence - a.confidence);
+};
+
+/**
+ * Cluster emails into clients: emails equal after normalizing always
+ * join, and confirmed merges join their clusters. The canonical email of
+ * a cluster is the one used in the new clients file where possible.
+ */
+export const buildIdentityMap = (input: IdentityInput, confirmedMerges: [string, string][] = []): IdentityMap => {
+  const profiles = buildIdentityProfiles(input);
+  const parent = new Map<string, string>();
+
+  const find = (email: string): string => {
+    let root = email;
+    let next = parent.get(root);
+    while (next && next !== root) {
+      root = next;
+      next = parent.get(root);
+    }
+    parent.set(email, root);
+    return root;
+  };
+
+  confirmedMerges.forEach(([emailA, emailB]) => {
+    const rootA = find(normalizeEmail(emailA));
+    const rootB = find(normalizeEmail(emailB));
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  });
+
+  const members = new Map<string, string[]>();
+  profiles.forEach((_, email) => pushToGroup(members, find(email), email));
+
+  const canonicalByEmail = new Map<string, string>();
+  const clusters: IdentityCluster[] = [];
+  members.forEach(emails => {
+    const preferred = emails.find(email => profiles.get(email)?.sources.includes('new')) || emails[0];
+    const canonicalEmail = profiles.get(preferred)?.displayEmail || preferred;
+    emails.forEach(email => canonicalByEmail.set(email, canonicalEmail));
+    clusters.push({ canonicalEmail, emails });
+  });
+
+  return {
+    resolveEmail: (email: string) => canonicalByEmail.get(normalizeEmail(email)) || email,
+    clusters,
+  };
+};
+
+export const getMergeDecisions = (): Record<string, MergeDecision> => {
+  try {
+    const saved = secureStorage.getItem(workspaceKey(STORAGE_KEY));
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Error retrieving merge decisions:", e);
+    return {};
+  }
+};
+
+export const saveMergeDecisions = (decisions: Record<string, MergeDecision>): void => {
+  try {
+    secureStorage.setItem(workspaceKey(STORAGE_KEY), JSON.stringify(decisions));
+  } catch (e) {
+    console.error("Error saving merge decisions:", e);
+  }
+};
+
+// Email pairs the user has confirmed as the same client
+export const getConfirmedMerges = (decisions: Record<string, MergeDecision> = getMergeDecisions()): [string, string][] => {
+  return Object.entries(decisions)
+    .filter(([, decision]) => decision === 'confirmed')
+    .map(([id]) => id.split('|') as [string, string]);
+};
@@ -0,0 +1,113 @@
+/**
+ * Client lifetime value: everything a new client has paid across the
+ * whole sales history, not just the purchases inside the conversion
+ * window. Averages are per new client, so clients who never paid pull
+ * a segment's average down.
+ */
+import { getSaleValue, ConversionSale } from './conversionRules';
+import type { ClassificationRule, RuleId } from './businessRules';
+import { matchesRule } from './businessRules';
+import { sortPeriods } from './periods';
+
+export type LifetimeValueDimension = 'source' | 'teacher' | 'location' | 'cohort';
+
+export const LIFETIME_VALUE_DIMENSION_LABELS: Record<LifetimeValueDimension, string> = {
+  source: 'Acquisition source',
+  teacher: 'Teacher',
+  location: 'Location',
+  cohort: 'Cohort',
+};
+
+// Client fields the lifetime value summaries read
+export interface LifetimeValueClient {
+  email: string;
+  teacherName?: string;
+  firstVisitLocation?: string;
+  lifetimeValue?: number;
+  lifetimePurchases?: number;
+  acquisitionSource?: string;
+  cohort?: string;
+}
+
+export interface LifetimeValueSegment {
+  segment: string;
+  clients: number;
+  payingClients: number;
+  totalValue: number;
+  averageValue: number;
+}
+
+// Source rules in the order they are checked; the first match wins
+const SOURCE_RULES: { id: Exclude<RuleId, 'exclusion'>; label: string }[] = [
+  { id: 'trial', label: 'Trials' },
+  { id: 'referral', label: 'Referrals' },
+  { id: 'hosted', label: 'Hosted' },
+  { id: 'influencer', label: 'Influencer' },
+];
+
+export const OTHER_SOURCE = 'Others';
+
+// Acquisition source of a new client, using the same labels as clientsBySource
+export const getAcquisitionSource = (
+  record: { 'Membership used'?: string; 'First visit'?: string },
+  rules: Record<RuleId, ClassificationRule>
+): string => {
+  return SOURCE_RULES.find(source => matchesRule(record, rules[source.id]))?.label || OTHER_SOURCE;
+};
+
+// Total paid and number of paid purchases, ignoring refunded and zero-value sales
+export const calculateLifetimeValue = (sales: ConversionSale[]): { value: number; purchases: number } => {
+  return sales.reduce((total, sale) => {
+    const saleValue = getSaleValue(sale);
+    if (sale['Refunded'] === 'YES' || !(saleValue > 0)) return total;
+    return { value: total.value + saleValue, purchases: total.purchases + 1 };
+  }, { value: 0, purchases: 0 });
+};
+
+const getSegmentKey = (client: LifetimeValueClient, dimension: LifetimeValueDimension): string => {
+  switch (dimension) {
+    case 'source':
+      return client.acquisitionSource || OTHER_SOURCE;
+    case 'teacher':
+      return client.teacherName || 'Unknown';
+    case 'location':
+      return client.firstVisitLocation || 'Unknown';
+    case 'cohort':
+      return client.cohort || 'Unknown';
+  }
+};
+
+/**
+ * Lifetime value per segment of the given dimension, counting each client
+ * once. Cohorts are listed chronologically, other segments by average value.
+ */
+export const summarizeLifetimeValue = (
+  clients: LifetimeValueClient[],
+  dimension: LifetimeValueDimension
+): LifetimeValueSegment[] => {
+  const segments = new Map<string, LifetimeValueSegment>();
+  const seen = new Set<string>();
+
+  clients.forEach(client => {
+    if (seen.has(client.email)) return;
+    seen.add(client.email);
+
+    const key = getSegmentKey(client, dimension);
+    const segment = segments.get(key) || { segment: key, clients: 0, payingClients: 0, totalValue: 0, averageValue: 0 };
+    const value = client.lifetimeValue || 0;
+
+    segment.clients += 1;
+    segment.totalValue += value;
+    if (value > 0) segment.payingClients += 1;
+    segments.set(key, segment);
+  });
+
+  segments.forEach(segment => {
+    segment.averageValue = segment.clients > 0 ? segment.totalValue / segment.clients : 0;
+  });
+
+  if (dimension === 'cohort') {
+    return sortPeriods([...segments.keys()]).map(key => segments.get(key) as LifetimeValueSegment);
+  }
+  return [...segments.values()].sort((a, b) => b.averageValue - a.averageValue);
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { getPeriodLabel, getPeriodStart, getFiscalYearStart, sortPeriods, PeriodSettings, DEFAULT_PERIOD_SETTINGS } from './periods';
+
+const fiscal = (overrides: Partial<PeriodSettings>): PeriodSettings => ({ ...DEFAULT_PERIOD_SETTINGS, ...overrides });
+
+const april445 = fiscal({ granularity: 'month', fiscalCalendar: { startMonth: 3, pattern: '4-4-5' } });
+const january445 = fiscal({ granularity: 'month', fiscalCalendar: { startMonth: 0, pattern: '4-4-5' } });
+
+const isoDay = (date: Date | null) => date?.toISOString().split('T')[0];
+
+describe('getPeriodLabel', () => {
+  it('labels calendar periods', () => {
+    expect(getPeriodLabel('2025-03-01, 10:15 AM')).toBe('Mar 25');
+    expect(getPeriodLabel('2025-12-29', fiscal({ granularity: 'week' }))).toBe('2026-W01');
+    expect(getPeriodLabel('2025-05-20', fiscal({ granularity: 'quarter' }))).toBe('Q2 2025');
+    expect(getPeriodLabel('not a date')).toBe('Unknown');
+  });
+
+  it('names fiscal quarters and years after the year they end in', () => {
+    const aprilYear = { startMonth: 3, pattern: 'calendar' as const };
+
+    expect(getPeriodLabel('2025-04-15', fiscal({ granularity: 'quarter', fiscalCalendar: aprilYear }))).toBe('FY26 Q1');
+    expect(getPeriodLabel('2026-03-31', fiscal({ granularity: 'quarter', fiscalCalendar: aprilYear }))).toBe('FY26 Q4');
+    expect(getPeriodLabel('2025-03-31', fiscal({ granularity: 'year', fiscalCalendar: aprilYear }))).toBe('FY25');
+  });
+
+  it('splits each 4-4-5 quarter into periods of 4, 4 and 5 weeks', () => {
+    // FY26 starts on Monday 31 March 2025, the Monday nearest 1 April
+    expect(getPeriodLabel('2025-03-30', april445)).toBe('FY25 P12');
+    expect(getPeriodLabel('2025-03-31', april445)).toBe('FY26 P01');
+    expect(getPeriodLabel('2025-04-27', april445)).toBe('FY26 P01');
+    expect(getPeriodLabel('2025-04-28', april445)).toBe('FY26 P02');
+    expect(getPeriodLabel('2025-06-29', april445)).toBe('FY26 P03');
+    expect(getPeriodLabel('2025-06-30', april445)).toBe('FY26 P04');
+    expect(getPeriodLabel('2025-06-30', { ...april445, granularity: 'quarter' })).toBe('FY26 Q2');
+  });
+
+  it('puts the 53rd week of a long year in the last period', () => {
+    expect(isoDay(getFiscalYearStart(2026, january445.fiscalCalendar))).toBe('2025-12-29');
+    expect(isoDay(getFiscalYearStart(2027, january445.fiscalCalendar))).toBe('2027-01-04');
+    expect(getPeriodLabel('2027-01-03', january445)).toBe('FY26 P12');
+    expect(getPeriodLabel('2027-01-04', january445)).toBe('FY27 P01');
+  });
+
+  it('matches custom ranges with inclusive bounds', () => {
+    const settings = fiscal({
+      granularity: 'custom',
+      customPeriods: [{ label: 'Spring promo', start: '2025-03-01', end: '2025-03-15' }],
+    });
+
+    expect(getPeriodLabel('2025-03-15', settings)).toBe('Spring promo');
+    expect(getPeriodLabel('2025-03-16', settings)).toBe('Unknown');
+  });
+});
+
+describe('getPeriodStart', () => {
+  it('reads back the start of the period a date was labelled with', () => {
+    expect(isoDay(getPeriodStart('FY26 P04', april445))).toBe('2025-06-30');
+    expect(isoDay(getPeriodStart('FY26 Q2', april445))).toBe('2025-06-30');
+    expect(isoDay(getPeriodStart('2026-W01'))).toBe('2025-12-29');
+    expect(isoDay(getPeriodStart('Mar 25'))).toBe('2025-03-01');
+  });
+});
+
+describe('sortPeriods', () => {
+  it('sorts chronologically with unreadable labels last', () => {
+    expect(sortPeriods(['FY26 P10', 'Unknown', 'FY26 P02'], april445)).toEqual(['FY26 P02', 'FY26 P10', 'Unknown']);
+    expect(sortPeriods(['Dec 24', 'Unknown', 'Feb 25', 'Jan 25'], DEFAULT_PERIOD_SETTINGS, { descending: true }))
+      .toEqual(['Feb 25', 'Jan 25', 'Dec 24', 'Unknown']);
+  });
+});
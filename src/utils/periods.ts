@@ -0,0 +1,289 @@
+/**
+ * Reporting periods. Records are bucketed by date at the selected
+ * granularity and fiscal calendar, and period labels are sorted by the
+ * date they start on rather than alphabetically.
+ */
+import { formatDateString } from './csvParser';
+import { workspaceKey } from './workspaces';
+import { secureStorage } from './encryption';
+
+export type PeriodGranularity = 'week' | 'month' | 'quarter' | 'year' | 'custom';
+
+export interface CustomPeriod {
+  label: string;
+  // Inclusive YYYY-MM-DD bounds
+  start: string;
+  end: string;
+}
+
+// Calendar months, or weeks grouped into 13-week quarters
+export type FiscalPattern = 'calendar' | '4-4-5' | '4-5-4' | '5-4-4';
+
+export interface FiscalCalendar {
+  // Month the fiscal year starts in, 0 = January
+  startMonth: number;
+  pattern: FiscalPattern;
+}
+
+export interface PeriodSettings {
+  granularity: PeriodGranularity;
+  customPeriods: CustomPeriod[];
+  fiscalCalendar: FiscalCalendar;
+}
+
+export const CALENDAR_YEAR: FiscalCalendar = { startMonth: 0, pattern: 'calendar' };
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+  granularity: 'month',
+  customPeriods: [],
+  fiscalCalendar: CALENDAR_YEAR,
+};
+
+export const PERIOD_GRANULARITY_LABELS: Record<PeriodGranularity, string> = {
+  week: 'Week (ISO)',
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year',
+  custom: 'Custom ranges',
+};
+
+export const FISCAL_PATTERN_LABELS: Record<FiscalPattern, string> = {
+  calendar: 'Calendar months',
+  '4-4-5': '4-4-5 weeks',
+  '4-5-4': '4-5-4 weeks',
+  '5-4-4': '5-4-4 weeks',
+};
+
+export const UNKNOWN_PERIOD = 'Unknown';
+
+const STORAGE_KEY = 'studio-stats-period-settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Record date as a UTC day, so buckets don't depend on the browser's timezone
+const toUtcDate = (dateStr: string): Date | null => {
+  const formatted = formatDateString(dateStr || '');
+  if (!ISO_DATE.test(formatted)) return null;
+  const date = new Date(`${formatted}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Monday of week 1 of an ISO week-numbering year
+const getIsoYearStart = (year: number): Date => {
+  const januaryFourth = new Date(Date.UTC(year, 0, 4));
+  return new Date(januaryFourth.getTime() - ((januaryFourth.getUTCDay() + 6) % 7) * DAY_MS);
+};
+
+const getIsoWeek = (date: Date): { year: number; week: number } => {
+  // The Thursday of the date's week decides which year the week belongs to
+  const thursday = new Date(date.getTime() + (3 - ((date.getUTCDay() + 6) % 7)) * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - getIsoYearStart(year).getTime()) / (7 * DAY_MS)) + 1;
+  return { year, week };
+};
+
+export const isCalendarYear = (calendar: FiscalCalendar): boolean => {
+  return calendar.startMonth === 0 && calendar.pattern === 'calendar';
+};
+
+// Short summary of the fiscal calendar for display
+export const describeFiscalCalendar = (calendar: FiscalCalendar): string => {
+  if (isCalendarYear(calendar)) return 'Calendar year';
+  const pattern = calendar.pattern === 'calendar' ? '' : `, ${calendar.pattern}`;
+  return `FY from ${MONTH_NAMES[calendar.startMonth]}${pattern}`;
+};
+
+const isWeekBased = (calendar: FiscalCalendar): boolean => calendar.pattern !== 'calendar';
+
+// Weeks in each period of a quarter, e.g. [4, 4, 5]
+const getPatternWeeks = (pattern: FiscalPattern): number[] => pattern.split('-').map(Number);
+
+/**
+ * First day of a fiscal year, which is named after the calendar year it
+ * ends in (FY26 runs April 2025 to March 2026 when the year starts in
+ * April). Week-based years start on the Monday nearest the first of the
+ * start month, so they run 52 or 53 weeks.
+ */
+export const getFiscalYearStart = (fiscalYear: number, calendar: FiscalCalendar): Date => {
+  const startYear = calendar.startMonth === 0 ? fiscalYear : fiscalYear - 1;
+  const firstOfMonth = Date.UTC(startYear, calendar.startMonth, 1);
+  if (!isWeekBased(calendar)) return new Date(firstOfMonth);
+
+  const daysSinceMonday = (new Date(firstOfMonth).getUTCDay() + 6) % 7;
+  const offset = daysSinceMonday <= 3 ? -daysSinceMonday : 7 - daysSinceMonday;
+  return new Date(firstOfMonth + offset * DAY_MS);
+};
+
+export const getFiscalYear = (date: Date, calendar: FiscalCalendar): number => {
+  let fiscalYear = date.getUTCFullYear() + (calendar.startMonth === 0 ? 0 : 1);
+  while (date < getFiscalYearStart(fiscalYear, calendar)) fiscalYear--;
+  while (date >= getFiscalYearStart(fiscalYear + 1, calendar)) fiscalYear++;
+  return fiscalYear;
+};
+
+const getFiscalYearLabel = (fiscalYear: number): string => `FY${String(fiscalYear).slice(-2)}`;
+
+// Fiscal period (1-12) and quarter (1-4) of a date
+const getFiscalPosition = (date: Date, calendar: FiscalCalendar): { fiscalYear: number; period: number; quarter: number } => {
+  const fiscalYear = getFiscalYear(date, calendar);
+
+  if (!isWeekBased(calendar)) {
+    const monthIndex = (date.getUTCMonth() - calendar.startMonth + 12) % 12;
+    return { fiscalYear, period: monthIndex + 1, quarter: Math.floor(monthIndex / 3) + 1 };
+  }
+
+  // The 53rd week of a long year belongs to the last period
+  const week = Math.floor((date.getTime() - getFiscalYearStart(fiscalYear, calendar).getTime()) / (7 * DAY_MS));
+  const patternWeeks = getPatternWeeks(calendar.pattern);
+  let period = 12;
+  let weeksBefore = 0;
+  for (let index = 0; index < 12; index++) {
+    weeksBefore += patternWeeks[index % 3];
+    if (week < weeksBefore) {
+      period = index + 1;
+      break;
+    }
+  }
+  return { fiscalYear, period, quarter: Math.ceil(period / 3) };
+};
+
+// Start of a fiscal period (1-12)
+const getFiscalPeriodStart = (fiscalYear: number, period: number, calendar: FiscalCalendar): Date => {
+  const yearStart = getFiscalYearStart(fiscalYear, calendar);
+  if (!isWeekBased(calendar)) {
+    return new Date(Date.UTC(yearStart.getUTCFullYear(), yearStart.getUTCMonth() + period - 1, 1));
+  }
+
+  const patternWeeks = getPatternWeeks(calendar.pattern);
+  let weeks = 0;
+  for (let index = 0; index < period - 1; index++) weeks += patternWeeks[index % 3];
+  return new Date(yearStart.getTime() + weeks * 7 * DAY_MS);
+};
+
+/**
+ * Label of the period a date falls in: "2025-W09", "Mar 25", "Q1 2025",
+ * "2025", or the name of the matching custom range. With a fiscal
+ * calendar, quarters and years are fiscal ("FY26 Q1", "FY26") and
+ * week-based calendars replace months with periods ("FY26 P01"). Dates
+ * that can't be read, or fall outside every custom range, are "Unknown".
+ */
+export const getPeriodLabel = (dateStr: string, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): string => {
+  const date = toUtcDate(dateStr);
+  if (!date) return UNKNOWN_PERIOD;
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const calendar = settings.fiscalCalendar || CALENDAR_YEAR;
+
+  if (!isCalendarYear(calendar) && settings.granularity !== 'week' && settings.granularity !== 'custom') {
+    const position = getFiscalPosition(date, calendar);
+    const fiscalYearLabel = getFiscalYearLabel(position.fiscalYear);
+    if (settings.granularity === 'year') return fiscalYearLabel;
+    if (settings.granularity === 'quarter') return `${fiscalYearLabel} Q${position.quarter}`;
+    if (isWeekBased(calendar)) return `${fiscalYearLabel} P${String(position.period).padStart(2, '0')}`;
+  }
+
+  switch (settings.granularity) {
+    case 'week': {
+      const isoWeek = getIsoWeek(date);
+      return `${isoWeek.year}-W${String(isoWeek.week).padStart(2, '0')}`;
+    }
+    case 'quarter':
+      return `Q${Math.floor(month / 3) + 1} ${year}`;
+    case 'year':
+      return String(year);
+    case 'custom': {
+      const day = date.toISOString().split('T')[0];
+      const range = settings.customPeriods.find(period => period.start <= day && day <= period.end);
+      return range ? range.label : UNKNOWN_PERIOD;
+    }
+    default:
+      return `${MONTH_NAMES[month]} ${String(year).slice(-2)}`;
+  }
+};
+
+// Start of the period a label names, or null when the label can't be read
+export const getPeriodStart = (label: string, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): Date | null => {
+  const customPeriod = settings.customPeriods.find(period => period.label === label);
+  if (customPeriod) return toUtcDate(customPeriod.start);
+
+  const calendar = settings.fiscalCalendar || CALENDAR_YEAR;
+  const fiscal = label.match(/^FY(\d{2})(?: ([PQ])(\d{1,2}))?$/);
+  if (fiscal) {
+    const fiscalYear = 2000 + Number(fiscal[1]);
+    if (!fiscal[2]) return getFiscalYearStart(fiscalYear, calendar);
+    const period = fiscal[2] === 'Q' ? (Number(fiscal[3]) - 1) * 3 + 1 : Number(fiscal[3]);
+    return getFiscalPeriodStart(fiscalYear, period, calendar);
+  }
+
+  const week = label.match(/^(\d{4})-W(\d{2})$/);
+  if (week) {
+    return new Date(getIsoYearStart(Number(week[1])).getTime() + (Number(week[2]) - 1) * 7 * DAY_MS);
+  }
+
+  const month = label.match(/^([A-Z][a-z]{2}) (\d{2})$/);
+  if (month && MONTH_NAMES.includes(month[1])) {
+    return new Date(Date.UTC(2000 + Number(month[2]), MONTH_NAMES.indexOf(month[1]), 1));
+  }
+
+  const quarter = label.match(/^Q([1-4]) (\d{4})$/);
+  if (quarter) return new Date(Date.UTC(Number(quarter[2]), (Number(quarter[1]) - 1) * 3, 1));
+
+  if (/^\d{4}$/.test(label)) return new Date(Date.UTC(Number(label), 0, 1));
+
+  return null;
+};
+
+// Chronological comparison of period labels; unreadable labels such as "Unknown" sort last
+export const comparePeriods = (a: string, b: string, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): number => {
+  const startA = getPeriodStart(a, settings)?.getTime() ?? Infinity;
+  const startB = getPeriodStart(b, settings)?.getTime() ?? Infinity;
+  if (startA !== startB) return startA < startB ? -1 : 1;
+  return a.localeCompare(b);
+};
+
+export const sortPeriods = (
+  periods: string[],
+  settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS,
+  { descending = false }: { descending?: boolean } = {}
+): string[] => {
+  const sorted = [...periods].sort((a, b) => comparePeriods(a, b, settings));
+  if (!descending) return sorted;
+
+  // Newest first, but keep unreadable labels at the end
+  const known = sorted.filter(period => getPeriodStart(period, settings));
+  const unknown = sorted.filter(period => !getPeriodStart(period, settings));
+  return [...known.reverse(), ...unknown];
+};
+
+// Fiscal year label ("FY26") a period starts in, or null when the label can't be read
+export const getPeriodFiscalYear = (label: string, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS): string | null => {
+  const start = getPeriodStart(label, settings);
+  return start ? getFiscalYearLabel(getFiscalYear(start, settings.fiscalCalendar || CALENDAR_YEAR)) : null;
+};
+
+export const validateCustomPeriod = (period: CustomPeriod): string | null => {
+  if (!period.label.trim()) return 'Custom periods need a name';
+  if (!ISO_DATE.test(period.start) || !ISO_DATE.test(period.end)) return `${period.label}: choose a start and end date`;
+  if (period.start > period.end) return `${period.label}: start date must be on or before the end date`;
+  return null;
+};
+
+export const getPeriodSettings = (): PeriodSettings => {
+  try {
+    const saved = secureStorage.getItem(workspaceKey(STORAGE_KEY));
+    return saved ? { ...DEFAULT_PERIOD_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PERIOD_SETTINGS;
+  } catch (e) {
+    console.error("Error retrieving period settings:", e);
+    return DEFAULT_PERIOD_SETTINGS;
+  }
+};
+
+export const savePeriodSettings = (settings: PeriodSettings): void => {
+  try {
+    secureStorage.setItem(workspaceKey(STORAGE_KEY), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Error saving period settings:", e);
+  }
+};
@@ -0,0 +1,162 @@
+/**
+ * Session data kept between visits in IndexedDB. Raw exports and client
+ * record lists easily pass the few megabytes localStorage allows, while
+ * IndexedDB stores them whole and without a JSON round trip. Every call
+ * resolves rather than throws, so a browser without storage (private
+ * mode, blocked quota) just loses the saved session. With encryption on,
+ * values are stored encrypted (see encryption.ts).
+ */
+import { sealValue, sealValueWith, openValue, secureStorage } from './encryption';
+
+// Keys of the session data saved between visits
+export const STORAGE_KEYS = {
+  PROCESSED_DATA: 'studio-stats-processed-data',
+  FILTERED_DATA: 'studio-stats-filtered-data',
+  LOCATIONS: 'studio-stats-locations',
+  TEACHERS: 'studio-stats-teachers',
+  PERIODS: 'studio-stats-periods',
+  RAW_DATA: 'studio-stats-raw-data',
+  PROCESSING_RESULTS: 'studio-stats-processing-results',
+  RUN_HISTORY: 'studio-stats-run-history'
+};
+
+const DB_NAME = 'studio-stats';
+const DB_VERSION = 1;
+const STORE_NAME = 'session';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+// Run requests in one transaction, resolving once it has committed
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operate: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = operate(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadFromStorage = async <T>(key: string): Promise<T | null> => {
+  try {
+    const value = await runTransaction<unknown>('readonly', store => store.get(key));
+    return value === undefined ? null : await openValue<T>(value);
+  } catch (error) {
+    console.error(`Error loading from storage for key ${key}:`, error);
+    return null;
+  }
+};
+
+export const saveToStorage = async (key: string, data: unknown): Promise<boolean> => {
+  try {
+    const sealed = await sealValue(data);
+    await runTransaction('readwrite', store => store.put(sealed, key));
+    return true;
+  } catch (error) {
+    console.error(`Error saving to storage for key ${key}:`, error);
+    return false;
+  }
+};
+
+export const clearStorage = async (keys: string[]): Promise<void> => {
+  try {
+    await runTransaction('readwrite', store => {
+      keys.forEach(key => store.delete(key));
+    });
+  } catch (error) {
+    console.error('Error clearing storage:', error);
+  }
+};
+
+// Remove the saved session of every workspace
+export const clearAllStorage = async (): Promise<void> => {
+  try {
+    await runTransaction('readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Error clearing storage:', error);
+  }
+};
+
+/**
+ * Move session data saved in localStorage by earlier versions into
+ * IndexedDB. Keys are removed from localStorage once copied, so this only
+ * does work on the first run after an upgrade; values already in
+ * IndexedDB are never overwritten. Keys that could not be read or copied
+ * stay in localStorage.
+ */
+export const migrateLocalStorage = async (keys: string[]): Promise<void> => {
+  const legacyValues: [string, unknown][] = [];
+  for (const key of keys) {
+    try {
+      const stored = secureStorage.getItem(key);
+      if (stored !== null) legacyValues.push([key, await sealValue(JSON.parse(stored))]);
+    } catch (error) {
+      console.error(`Error reading legacy storage for key ${key}:`, error);
+    }
+  }
+  if (legacyValues.length === 0) return;
+
+  try {
+    const copiedKeys: string[] = [];
+    await runTransaction('readwrite', store => {
+      legacyValues.forEach(([key, value]) => {
+        const existing = store.getKey(key);
+        existing.onsuccess = () => {
+          if (existing.result !== undefined) return;
+          store.put(value, key).onsuccess = () => copiedKeys.push(key);
+        };
+      });
+    });
+    copiedKeys.forEach(key => secureStorage.removeItem(key));
+  } catch (error) {
+    console.error('Error migrating localStorage data:', error);
+  }
+};
+
+/**
+ * Save every stored value again, encrypted with the given key or in plain
+ * form when it is null, decrypting with the current key. Values are read
+ * in one transaction and written in another, so if any value cannot be
+ * re-saved nothing changes and everything stays readable as before.
+ */
+export const resealStorage = async (key: CryptoKey | null): Promise<boolean> => {
+  try {
+    let keysRequest: IDBRequest<IDBValidKey[]>;
+    let valuesRequest: IDBRequest<unknown[]>;
+    await runTransaction('readonly', store => {
+      keysRequest = store.getAllKeys();
+      valuesRequest = store.getAll();
+    });
+
+    const resealed = await Promise.all(valuesRequest.result.map(async value => sealValueWith(await openValue(value), key)));
+    await runTransaction('readwrite', store => {
+      keysRequest.result.forEach((storageKey, index) => store.put(resealed[index], storageKey));
+    });
+    return true;
+  } catch (error) {
+    console.error('Error re-saving storage:', error);
+    return false;
+  }
+};
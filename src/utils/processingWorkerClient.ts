@@ -0,0 +1,112 @@
+/**
+ * Main-thread side of the processing worker: starts a run, forwards
+ * progress with an estimated time remaining, and supports cancellation.
+ */
+import {
+  processData,
+  NewRecord,
+  BookingRecord,
+  SaleRecord,
+  ProcessingProgress,
+  ProcessingOptions,
+  ProcessDataResult
+} from './dataProcessor';
+
+export interface ProcessingWorkerRequest {
+  newData: NewRecord[];
+  bookingsData: BookingRecord[];
+  salesData: SaleRecord[];
+  options?: ProcessingOptions;
+}
+
+export type ProcessingWorkerMessage =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'result'; result: ProcessDataResult }
+  | { type: 'error'; message: string };
+
+export interface ProcessingJob {
+  promise: Promise<ProcessDataResult>;
+  cancel: () => void;
+}
+
+// Estimate seconds remaining from the elapsed time and share of work done
+export const estimateSecondsRemaining = (startedAt: number, progress: number): number | undefined => {
+  if (progress <= 0 || progress >= 100) return undefined;
+  const elapsed = (Date.now() - startedAt) / 1000;
+  return Math.max(0, Math.round(elapsed * (100 - progress) / progress));
+};
+
+export const isProcessingCancelled = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Run processData in a dedicated worker. Cancelling terminates the worker
+ * and rejects the promise with an AbortError. Falls back to the main thread
+ * where workers are unavailable (cancellation is not supported there).
+ */
+export const runProcessDataInWorker = (
+  request: ProcessingWorkerRequest,
+  updateProgress: (progress: ProcessingProgress) => void
+): ProcessingJob => {
+  const startedAt = Date.now();
+  const withEta = (progress: ProcessingProgress): ProcessingProgress => ({
+    ...progress,
+    etaSeconds: estimateSecondsRemaining(startedAt, progress.progress)
+  });
+
+  if (typeof Worker === 'undefined') {
+    return {
+      promise: processData(
+        request.newData,
+        request.bookingsData,
+        request.salesData,
+        progress => updateProgress(withEta(progress)),
+        request.options
+      ),
+      cancel: () => console.warn('Cancellation is not supported without Web Worker support')
+    };
+  }
+
+  const worker = new Worker(new URL('../workers/processData.worker.ts', import.meta.url), { type: 'module' });
+  let rejectJob: (reason: unknown) => void = () => {};
+  let settled = false;
+
+  const promise = new Promise<ProcessDataResult>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<ProcessingWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        updateProgress(withEta(message.progress));
+        return;
+      }
+
+      settled = true;
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || 'Processing worker failed'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      rejectJob(new DOMException('Processing cancelled', 'AbortError'));
+    }
+  };
+};
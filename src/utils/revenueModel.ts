@@ -0,0 +1,139 @@
+/**
+ * Revenue broken into the figures finance reports on. Sale values in the
+ * payments export include tax and stay unchanged when a sale is refunded,
+ * so gross revenue splits exactly into refunds, tax and net revenue.
+ * Late-cancel and no-show fees come from bookings and are reported
+ * separately, as charged.
+ */
+import { getSaleValue, ConversionSale } from './conversionRules';
+
+export type RevenueFigure = 'gross' | 'net' | 'tax' | 'refunds' | 'lateCancelFees' | 'noShowFees';
+
+export interface RevenueBreakdown {
+  gross: number;
+  net: number;
+  tax: number;
+  refunds: number;
+  lateCancelFees: number;
+  noShowFees: number;
+}
+
+export const REVENUE_FIGURES: RevenueFigure[] = ['gross', 'net', 'tax', 'refunds', 'lateCancelFees', 'noShowFees'];
+
+// Figures a sales export can answer on its own, without bookings
+export const SALE_REVENUE_FIGURES: RevenueFigure[] = ['gross', 'net', 'tax', 'refunds'];
+
+export const REVENUE_FIGURE_LABELS: Record<RevenueFigure, string> = {
+  gross: 'Gross revenue',
+  net: 'Net revenue',
+  tax: 'Tax',
+  refunds: 'Refunds',
+  lateCancelFees: 'Late-cancel fees',
+  noShowFees: 'No-show fees',
+};
+
+export const REVENUE_FIGURE_DESCRIPTIONS: Record<RevenueFigure, string> = {
+  gross: 'Sale values as charged, including tax and amounts later refunded',
+  net: 'Gross revenue less refunds and the tax on what was kept',
+  tax: 'Tax on the revenue that was kept',
+  refunds: 'Amounts refunded to clients',
+  lateCancelFees: 'Charges for late-cancelled bookings',
+  noShowFees: 'Charges for no-show bookings',
+};
+
+export const EMPTY_REVENUE_BREAKDOWN: RevenueBreakdown = {
+  gross: 0,
+  net: 0,
+  tax: 0,
+  refunds: 0,
+  lateCancelFees: 0,
+  noShowFees: 0,
+};
+
+// Numeric amount, ignoring currency symbols and separators
+export const parseAmount = (value: string | number | undefined | null): number => {
+  if (typeof value === 'number') return isNaN(value) ? 0 : value;
+  return parseFloat(String(value || '0').replace(/[^0-9.-]+/g, '')) || 0;
+};
+
+/**
+ * Amount refunded on a record. Exports either flag a full refund with
+ * "YES" or give the refunded amount; anything else counts as no refund.
+ */
+export const getRefundedAmount = (refunded: string | number | undefined, value: number): number => {
+  if (typeof refunded === 'string' && refunded.trim().toUpperCase() === 'YES') return value;
+  return Math.min(value, Math.max(0, parseAmount(refunded)));
+};
+
+// Revenue figures for a single sale; tax is scaled down by the refunded share
+export const getSaleRevenue = (sale: ConversionSale & { 'Tax'?: string | number }): RevenueBreakdown => {
+  const gross = getSaleValue(sale) || 0;
+  const refunds = getRefundedAmount(sale['Refunded'], gross);
+  const keptShare = gross > 0 ? (gross - refunds) / gross : 0;
+  const tax = parseAmount(sale['Tax']) * keptShare;
+
+  return {
+    ...EMPTY_REVENUE_BREAKDOWN,
+    gross,
+    refunds,
+    tax,
+    net: gross - refunds - tax,
+  };
+};
+
+// Fee income from a late-cancelled or no-show booking, less any refund
+export const getBookingFees = (booking: {
+  'Sale Value'?: string | number;
+  'Late Cancelled'?: string;
+  'No Show'?: string;
+  'Refunded'?: string | number;
+}): RevenueBreakdown => {
+  const value = parseAmount(booking['Sale Value']);
+  const fee = value - getRefundedAmount(booking['Refunded'], value);
+
+  return {
+    ...EMPTY_REVENUE_BREAKDOWN,
+    lateCancelFees: booking['Late Cancelled'] === 'YES' ? fee : 0,
+    noShowFees: booking['No Show'] === 'YES' && booking['Late Cancelled'] !== 'YES' ? fee : 0,
+  };
+};
+
+export const addRevenue = (a: RevenueBreakdown, b: RevenueBreakdown): RevenueBreakdown => ({
+  gross: a.gross + b.gross,
+  net: a.net + b.net,
+  tax: a.tax + b.tax,
+  refunds: a.refunds + b.refunds,
+  lateCancelFees: a.lateCancelFees + b.lateCancelFees,
+  noShowFees: a.noShowFees + b.noShowFees,
+});
+
+export const scaleRevenue = (breakdown: RevenueBreakdown, factor: number): RevenueBreakdown => ({
+  gross: breakdown.gross * factor,
+  net: breakdown.net * factor,
+  tax: breakdown.tax * factor,
+  refunds: breakdown.refunds * factor,
+  lateCancelFees: breakdown.lateCancelFees * factor,
+  noShowFees: breakdown.noShowFees * factor,
+});
+
+// Combined breakdown of table rows; rows without one count their total revenue as gross
+export const sumRowRevenue = (rows: { totalRevenue: number; revenueBreakdown?: RevenueBreakdown }[]): RevenueBreakdown => {
+  return rows.reduce(
+    (sum, row) => addRevenue(sum, row.revenueBreakdown || { ...EMPTY_REVENUE_BREAKDOWN, gross: row.totalRevenue || 0 }),
+    EMPTY_REVENUE_BREAKDOWN
+  );
+};
+
+/**
+ * Value of the figure for a row or chart point. Data processed before the
+ * breakdown existed only has the gross total, so that stands in for gross
+ * and the other figures read as zero.
+ */
+export const getRevenueFigure = (
+  breakdown: RevenueBreakdown | undefined,
+  figure: RevenueFigure,
+  grossFallback: number = 0
+): number => {
+  if (!breakdown) return figure === 'gross' ? grossFallback : 0;
+  return breakdown[figure] || 0;
+};
@@ -0,0 +1,243 @@
+/**
+ * History of processing runs in a workspace, so the effect of a rule change
+ * or a corrected upload can be seen. Each run keeps a compact snapshot: the
+ * outcome of every new client and the headline metrics of every teacher
+ * row. Two snapshots are compared client by client and row by row.
+ */
+import type { ProcessDataResult, ProcessedTeacherData } from './dataProcessor';
+import { AttributionModel, applyAttributionModel } from './attributionModels';
+import { getGroupKey } from './dataIndex';
+import { STORAGE_KEYS, loadFromStorage, saveToStorage } from './persistentStorage';
+import { workspaceKey } from './workspaces';
+
+// Runs kept per workspace, newest first
+const MAX_RUNS = 20;
+
+export type RunTrigger = 'upload' | 'reprocess';
+
+export interface ClientOutcome {
+  email: string;
+  name: string;
+  teacher: string;
+  location: string;
+  // Counted as a new client, i.e. not excluded by the rules
+  included: boolean;
+  converted: boolean;
+  retained: boolean;
+  excluded: boolean;
+  exclusionReason?: string;
+}
+
+export type RunMetric =
+  | 'newClients'
+  | 'retainedClients'
+  | 'retentionRate'
+  | 'convertedClients'
+  | 'conversionRate'
+  | 'totalRevenue'
+  | 'averageRevenuePerClient'
+  | 'totalVisits'
+  | 'noShowRate'
+  | 'lateCancellationRate';
+
+export const RUN_METRICS: RunMetric[] = [
+  'newClients',
+  'retainedClients',
+  'retentionRate',
+  'convertedClients',
+  'conversionRate',
+  'totalRevenue',
+  'averageRevenuePerClient',
+  'totalVisits',
+  'noShowRate',
+  'lateCancellationRate',
+];
+
+export const RUN_METRIC_LABELS: Record<RunMetric, string> = {
+  newClients: 'New clients',
+  retainedClients: 'Retained',
+  retentionRate: 'Retention %',
+  convertedClients: 'Converted',
+  conversionRate: 'Conversion %',
+  totalRevenue: 'Revenue',
+  averageRevenuePerClient: 'Revenue / client',
+  totalVisits: 'Visits',
+  noShowRate: 'No-show %',
+  lateCancellationRate: 'Late cancel %',
+};
+
+export interface TeacherRunMetrics {
+  teacherName: string;
+  location: string;
+  period: string;
+  metrics: Record<RunMetric, number>;
+}
+
+export interface ProcessingRun {
+  id: string;
+  completedAt: string;
+  trigger: RunTrigger;
+  rulesVersion: number;
+  attributionModel: AttributionModel;
+  rowCounts: { new: number; bookings: number; payments: number };
+  clients: ClientOutcome[];
+  teachers: TeacherRunMetrics[];
+}
+
+export type ClientChangeField = 'added' | 'removed' | 'excluded' | 'converted' | 'retained' | 'teacher';
+
+export const CLIENT_CHANGE_LABELS: Record<ClientChangeField, string> = {
+  added: 'New in this run',
+  removed: 'Missing from this run',
+  excluded: 'Exclusion',
+  converted: 'Conversion',
+  retained: 'Retention',
+  teacher: 'Teacher attribution',
+};
+
+export interface ClientChange {
+  email: string;
+  name: string;
+  // Fields that changed, with the values before and after
+  changes: { field: ClientChangeField; from: string; to: string }[];
+}
+
+export interface TeacherChange {
+  teacherName: string;
+  location: string;
+  period: string;
+  status: 'added' | 'removed' | 'changed';
+  // Only the metrics that moved
+  metrics: { metric: RunMetric; from: number; to: number }[];
+}
+
+export interface RunDiff {
+  clientChanges: ClientChange[];
+  teacherChanges: TeacherChange[];
+  // Clients per kind of change; a client can count under several
+  changeCounts: Record<ClientChangeField, number>;
+}
+
+const getRunMetrics = (row: ProcessedTeacherData): Record<RunMetric, number> => {
+  return RUN_METRICS.reduce((metrics, metric) => ({
+    ...metrics,
+    [metric]: Number(row[metric]) || 0,
+  }), {} as Record<RunMetric, number>);
+};
+
+// Snapshot of a finished run for the history, with teacher rows credited under the run's attribution model
+export const createRunSnapshot = (
+  result: ProcessDataResult,
+  details: Pick<ProcessingRun, 'trigger' | 'rulesVersion' | 'attributionModel' | 'rowCounts'>
+): ProcessingRun => {
+  const emailsOf = (records: { email?: string }[] = []) => new Set(records.map(record => record.email));
+  const included = emailsOf(result.newClientRecords);
+  const converted = emailsOf(result.convertedClientRecords);
+  const retained = emailsOf(result.retainedClientRecords);
+  const exclusions = new Map<string, string>((result.excludedRecords || []).map(record => [record.email, record.reason]));
+
+  const clients = new Map<string, ClientOutcome>();
+  (result.teacherMatchRecords || []).forEach(match => {
+    if (!match.email) return;
+    clients.set(match.email, {
+      email: match.email,
+      name: match.name,
+      teacher: match.teacher || 'Unknown',
+      location: match.firstVisitLocation || '',
+      included: included.has(match.email),
+      converted: converted.has(match.email),
+      retained: retained.has(match.email),
+      excluded: exclusions.has(match.email),
+      exclusionReason: exclusions.get(match.email),
+    });
+  });
+
+  return {
+    id: `run-${Date.now()}`,
+    completedAt: new Date().toISOString(),
+    ...details,
+    clients: [...clients.values()],
+    teachers: applyAttributionModel(
+      result.processedData || [],
+      result.attributedConversions || [],
+      details.attributionModel
+    ).map(row => ({
+      teacherName: row.teacherName,
+      location: row.location,
+      period: row.period,
+      metrics: getRunMetrics(row),
+    })),
+  };
+};
+
+export const getRunHistory = async (): Promise<ProcessingRun[]> => {
+  return (await loadFromStorage<ProcessingRun[]>(workspaceKey(STORAGE_KEYS.RUN_HISTORY))) || [];
+};
+
+// Add a run to the active workspace's history, dropping the oldest beyond the limit
+export const recordRun = async (run: ProcessingRun): Promise<ProcessingRun[]> => {
+  const history = [run, ...(await getRunHistory())].slice(0, MAX_RUNS);
+  await saveToStorage(workspaceKey(STORAGE_KEYS.RUN_HISTORY), history);
+  return history;
+};
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+
+/**
+ * What moved from the base run to the compared run: every client whose
+ * status or teacher changed, and every teacher row whose metrics shifted.
+ */
+export const diffRuns = (base: ProcessingRun, compare: ProcessingRun): RunDiff => {
+  const baseClients = new Map(base.clients.map(client => [client.email, client]));
+  const compareClients = new Map(compare.clients.map(client => [client.email, client]));
+  const emails = [...new Set([...baseClients.keys(), ...compareClients.keys()])];
+
+  const clientChanges: ClientChange[] = emails.map(email => {
+    const before = baseClients.get(email);
+    const after = compareClients.get(email);
+    if (!before) return { email, name: after.name, changes: [{ field: 'added' as const, from: '', to: after.teacher }] };
+    if (!after) return { email, name: before.name, changes: [{ field: 'removed' as const, from: before.teacher, to: '' }] };
+
+    const changes: ClientChange['changes'] = [];
+    if (before.excluded !== after.excluded) {
+      changes.push({
+        field: 'excluded',
+        from: before.excluded ? `Excluded: ${before.exclusionReason}` : 'Included',
+        to: after.excluded ? `Excluded: ${after.exclusionReason}` : 'Included',
+      });
+    }
+    if (before.converted !== after.converted) changes.push({ field: 'converted', from: yesNo(before.converted), to: yesNo(after.converted) });
+    if (before.retained !== after.retained) changes.push({ field: 'retained', from: yesNo(before.retained), to: yesNo(after.retained) });
+    if (before.teacher !== after.teacher) changes.push({ field: 'teacher', from: before.teacher, to: after.teacher });
+    return { email, name: after.name, changes };
+  }).filter(change => change.changes.length > 0);
+
+  const rowKey = (row: TeacherRunMetrics) => getGroupKey(row.teacherName, row.location, row.period);
+  const baseRows = new Map(base.teachers.map(row => [rowKey(row), row]));
+  const compareRows = new Map(compare.teachers.map(row => [rowKey(row), row]));
+  const keys = [...new Set([...baseRows.keys(), ...compareRows.keys()])];
+
+  const teacherChanges: TeacherChange[] = keys.map(key => {
+    const before = baseRows.get(key);
+    const after = compareRows.get(key);
+    const row = after || before;
+    const metrics = RUN_METRICS
+      .map(metric => ({ metric, from: before?.metrics[metric] || 0, to: after?.metrics[metric] || 0 }))
+      .filter(({ from, to }) => Math.abs(to - from) > 0.005);
+
+    return {
+      teacherName: row.teacherName,
+      location: row.location,
+      period: row.period,
+      status: !before ? 'added' as const : !after ? 'removed' as const : 'changed' as const,
+      metrics,
+    };
+  }).filter(change => change.status !== 'changed' || change.metrics.length > 0);
+
+  const changeCounts = (Object.keys(CLIENT_CHANGE_LABELS) as ClientChangeField[]).reduce((counts, field) => ({
+    ...counts,
+    [field]: clientChanges.filter(change => change.changes.some(item => item.field === field)).length,
+  }), {} as Record<ClientChangeField, number>);
+
+  return { clientChanges, teacherChanges, changeCounts };
+};
@@ -0,0 +1,59 @@
+/**
+ * Spreadsheet ingestion. Workbooks are split into one CSV file per sheet,
+ * so every sheet flows through the same detection, mapping and parseCSV
+ * pipeline as an uploaded CSV export.
+ */
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+export const isSpreadsheetFile = (file: File): boolean => {
+  const fileName = file.name.toLowerCase();
+  return SPREADSHEET_EXTENSIONS.some(extension => fileName.endsWith(extension));
+};
+
+// Name given to the CSV generated for one sheet of a workbook
+export const getSheetFileName = (workbookName: string, sheetName: string): string => {
+  return `${workbookName} [${sheetName}].csv`;
+};
+
+/**
+ * Convert every non-empty sheet of a workbook into its own CSV file.
+ * Dates are written as YYYY-MM-DD so they match the CSV exports.
+ */
+export const splitWorkbook = async (file: File): Promise<File[]> => {
+  const XLSX = await import('xlsx');
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true, dateNF: 'yyyy-mm-dd' });
+
+  return workbook.SheetNames
+    .map(sheetName => {
+      const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], {
+        blankrows: false,
+        dateNF: 'yyyy-mm-dd',
+      });
+
+      if (!csv.trim()) return null;
+
+      return new File([csv], getSheetFileName(file.name, sheetName), {
+        type: 'text/csv',
+        lastModified: file.lastModified,
+      });
+    })
+    .filter((sheetFile): sheetFile is File => sheetFile !== null);
+};
+
+// Replace any workbooks in a list with their per-sheet CSV files
+export const expandSpreadsheetFiles = async (files: File[]): Promise<File[]> => {
+  const expanded = await Promise.all(files.map(async file => {
+    if (!isSpreadsheetFile(file)) return [file];
+
+    try {
+      return await splitWorkbook(file);
+    } catch (error) {
+      console.error(`Error reading workbook ${file.name}:`, error);
+      return [];
+    }
+  }));
+
+  return expanded.flat();
+};
@@ -0,0 +1,130 @@
+/**
+ * Attribute each new client to the teacher of their first class. Exact
+ * matches on class name, date and location are tried first, then
+ * progressively looser ones, and every attribution records how it was
+ * made and how far it can be trusted.
+ */
+import { parseDate } from './csvParser';
+import type { BookingIndex } from './dataIndex';
+import type { NewRecord, BookingRecord } from './dataProcessor';
+
+export type TeacherMatchMethod = 'exact' | 'normalized' | 'adjacent-day' | 'nearest' | 'none';
+
+export interface TeacherAttribution {
+  teacher: string;
+  // 0 (no match) to 1 (exact match)
+  confidence: number;
+  method: TeacherMatchMethod;
+  booking?: BookingRecord;
+}
+
+// Per-client attribution kept in the processing results for review
+export interface TeacherMatchRecord {
+  name: string;
+  email: string;
+  firstVisit: string;
+  firstVisitAt: string;
+  firstVisitLocation: string;
+  teacher: string;
+  confidence: number;
+  method: TeacherMatchMethod;
+  matchedClass?: string;
+  matchedDate?: string;
+  matchedLocation?: string;
+}
+
+// Attributions below this confidence are listed for manual review
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+export const TEACHER_MATCH_METHOD_LABELS: Record<TeacherMatchMethod, string> = {
+  exact: 'Exact match',
+  normalized: 'Name/location differ in formatting',
+  'adjacent-day': 'Booking one day apart',
+  nearest: 'Nearest booking',
+  none: 'No booking found',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Compare class names and locations ignoring case, punctuation, spacing and "Class - " prefixes
+export const normalizeMatchText = (value: string): string => {
+  return (value || '')
+    .toLowerCase()
+    .replace(/^\s*class\s*-\s*/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+// Move a YYYY-MM-DD date by a number of days
+const shiftDate = (date: string, days: number): string | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null;
+  const shifted = new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS);
+  return shifted.toISOString().split('T')[0];
+};
+
+const daysApart = (dateA: string, dateB: string): number | null => {
+  const a = parseDate(dateA);
+  const b = parseDate(dateB);
+  if (!a || !b) return null;
+  return Math.round(Math.abs(a.getTime() - b.getTime()) / DAY_MS);
+};
+
+// Lower confidence the further the nearest booking is from the first visit
+const getNearestConfidence = (days: number): number => {
+  if (days <= 1) return 0.5;
+  if (days <= 7) return 0.3;
+  return 0.1;
+};
+
+const attributed = (booking: BookingRecord, method: TeacherMatchMethod, confidence: number): TeacherAttribution => ({
+  teacher: booking['Teacher'] || 'Unknown',
+  confidence,
+  method,
+  booking,
+});
+
+export const attributeTeacher = <B extends BookingRecord>(
+  record: NewRecord,
+  bookingIndex: BookingIndex<B>
+): TeacherAttribution => {
+  const email = record['Email'];
+  const firstVisitDate = record['First visit at'];
+  const bookingsByDate = bookingIndex.byEmailAndClassDate.get(email);
+  const sameDayBookings = bookingsByDate?.get(firstVisitDate) || [];
+
+  // 1. Same email, date, class name and location
+  const exactMatch = sameDayBookings.find(booking =>
+    booking['Class Name'] === record['First visit'] &&
+    booking['Location'] === record['First visit location']
+  );
+  if (exactMatch) return attributed(exactMatch, 'exact', 1);
+
+  // 2. Same date, with names and locations compared after normalizing
+  const className = normalizeMatchText(record['First visit']);
+  const location = normalizeMatchText(record['First visit location']);
+  const isSameClass = (booking: BookingRecord) =>
+    normalizeMatchText(booking['Class Name']) === className &&
+    normalizeMatchText(booking['Location']) === location;
+
+  const normalizedMatch = sameDayBookings.find(isSameClass);
+  if (normalizedMatch) return attributed(normalizedMatch, 'normalized', 0.95);
+
+  // 3. The same class booked one day either side, e.g. timezone differences between exports
+  const adjacentMatch = [-1, 1]
+    .map(days => shiftDate(firstVisitDate, days))
+    .flatMap(date => (date && bookingsByDate?.get(date)) || [])
+    .find(isSameClass);
+  if (adjacentMatch) return attributed(adjacentMatch, 'adjacent-day', 0.75);
+
+  // 4. The client's booking closest to the first visit
+  let nearest: { booking: BookingRecord; days: number } | null = null;
+  for (const booking of bookingIndex.byEmail.get(email) || []) {
+    const days = daysApart(booking['Class Date'], firstVisitDate);
+    if (days !== null && (!nearest || days < nearest.days)) {
+      nearest = { booking, days };
+    }
+  }
+  if (nearest) return attributed(nearest.booking, 'nearest', getNearestConfidence(nearest.days));
+
+  return { teacher: 'Unknown', confidence: 0, method: 'none' };
+};
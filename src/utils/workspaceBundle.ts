@@ -0,0 +1,109 @@
+/**
+ * A workspace as a single file for handing analysis to someone else: the
+ * raw uploads, processed results, rules and other settings, filter state
+ * and table appearance. Importing a bundle restores it as a new workspace
+ * exactly as it was exported, without processing anything again.
+ */
+import {
+  Workspace,
+  getWorkspaces,
+  createWorkspace,
+  getUniqueWorkspaceName,
+  readWorkspaceSettings,
+  writeWorkspaceSettings,
+  readWorkspaceSession,
+  writeWorkspaceSession,
+  deleteWorkspace
+} from './workspaces';
+
+const BUNDLE_FORMAT = 'studio-stats-workspace';
+
+// Raise when the bundle layout changes, and add a migration from the previous version
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+const FILTER_PREFERENCES_KEY = 'analytics-filter-preferences';
+
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  name: string;
+  // Saved settings, keyed by their storage key
+  settings: Record<string, string>;
+  // Saved session data (uploads and results), keyed by their storage key
+  session: Record<string, unknown>;
+}
+
+// Upgrades from each format version to the next, applied in order on import
+const BUNDLE_MIGRATIONS: Record<number, (bundle: WorkspaceBundle) => WorkspaceBundle> = {};
+
+/**
+ * Bundle of a workspace as saved. Filters applied on screen but never
+ * saved are passed in, so the bundle opens with the view being looked at.
+ */
+export const exportWorkspaceBundle = async (
+  workspaceId: string,
+  filters?: Record<string, string[]>
+): Promise<WorkspaceBundle> => {
+  const workspace = getWorkspaces().find(item => item.id === workspaceId);
+  const settings = readWorkspaceSettings(workspaceId);
+  if (filters) settings[FILTER_PREFERENCES_KEY] = JSON.stringify(filters);
+
+  return {
+    format: BUNDLE_FORMAT,
+    formatVersion: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: workspace?.name || 'Imported workspace',
+    settings,
+    session: await readWorkspaceSession(workspaceId),
+  };
+};
+
+export const getBundleFileName = (bundle: WorkspaceBundle): string => {
+  const slug = bundle.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+  return `${slug}-${bundle.exportedAt.slice(0, 10)}.workspace.json`;
+};
+
+/**
+ * Read a bundle file, upgrading older format versions. Throws with a
+ * message for the user when the file is not a bundle or comes from a
+ * newer release.
+ */
+export const parseWorkspaceBundle = (content: string): WorkspaceBundle => {
+  let bundle: WorkspaceBundle;
+  try {
+    bundle = JSON.parse(content);
+  } catch (e) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!bundle || bundle.format !== BUNDLE_FORMAT || typeof bundle.formatVersion !== 'number') {
+    throw new Error('The file is not a workspace bundle');
+  }
+  if (bundle.formatVersion > WORKSPACE_BUNDLE_VERSION) {
+    throw new Error(`The bundle uses format version ${bundle.formatVersion}; this version of the app reads up to ${WORKSPACE_BUNDLE_VERSION}. Please update the app`);
+  }
+
+  while (bundle.formatVersion < WORKSPACE_BUNDLE_VERSION) {
+    const migrate = BUNDLE_MIGRATIONS[bundle.formatVersion];
+    if (!migrate) throw new Error(`Bundles in format version ${bundle.formatVersion} can no longer be imported`);
+    bundle = migrate(bundle);
+  }
+
+  if (!bundle.settings || typeof bundle.settings !== 'object' || !bundle.session || typeof bundle.session !== 'object') {
+    throw new Error('The workspace bundle is incomplete');
+  }
+  return bundle;
+};
+
+// Restore a bundle as a new workspace; nothing is left behind if saving fails
+export const importWorkspaceBundle = async (bundle: WorkspaceBundle): Promise<Workspace> => {
+  const workspace = createWorkspace(getUniqueWorkspaceName(bundle.name || 'Imported workspace'));
+  writeWorkspaceSettings(workspace.id, bundle.settings);
+
+  if (!(await writeWorkspaceSession(workspace.id, bundle.session))) {
+    await deleteWorkspace(workspace.id);
+    throw new Error('The bundle could not be saved. Browser storage may be full or disabled');
+  }
+  return workspace;
+};
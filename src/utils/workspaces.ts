@@ -0,0 +1,170 @@
+/**
+ * Named workspaces, each holding one studio's dataset: its saved session
+ * (uploads and results) and its own rules, identity decisions, period
+ * settings, attribution model, saved filters and table appearance. The
+ * workspace list lives in localStorage; everything else is stored under
+ * keys scoped to the workspace. The default workspace keeps the unscoped
+ * keys, so data saved before workspaces existed becomes its content.
+ */
+import { STORAGE_KEYS, loadFromStorage, saveToStorage, clearStorage } from './persistentStorage';
+import { secureStorage } from './encryption';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+const WORKSPACES_KEY = 'studio-stats-workspaces';
+const ACTIVE_WORKSPACE_KEY = 'studio-stats-active-workspace';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const DEFAULT_WORKSPACE: Workspace = {
+  id: DEFAULT_WORKSPACE_ID,
+  name: 'My studio',
+  createdAt: '',
+};
+
+// localStorage settings that belong to a workspace rather than the whole app
+const WORKSPACE_SETTING_KEYS = [
+  'studio-stats-business-rules',
+  'studio-stats-identity-decisions',
+  'studio-stats-period-settings',
+  'studio-stats-attribution-model',
+  'analytics-filter-preferences',
+  'table-customization-settings',
+];
+
+// All workspaces; there is always at least one
+export const getWorkspaces = (): Workspace[] => {
+  try {
+    const saved = secureStorage.getItem(WORKSPACES_KEY);
+    const workspaces: Workspace[] = saved ? JSON.parse(saved) : [];
+    return workspaces.length > 0 ? workspaces : [DEFAULT_WORKSPACE];
+  } catch (e) {
+    console.error("Error retrieving workspaces:", e);
+    return [DEFAULT_WORKSPACE];
+  }
+};
+
+const saveWorkspaces = (workspaces: Workspace[]): void => {
+  try {
+    secureStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+  } catch (e) {
+    console.error("Error saving workspaces:", e);
+  }
+};
+
+export const getActiveWorkspaceId = (): string => {
+  const workspaces = getWorkspaces();
+  try {
+    const saved = secureStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    return workspaces.some(workspace => workspace.id === saved) ? saved : workspaces[0].id;
+  } catch (e) {
+    console.error("Error retrieving active workspace:", e);
+    return workspaces[0].id;
+  }
+};
+
+export const setActiveWorkspaceId = (id: string): void => {
+  try {
+    secureStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  } catch (e) {
+    console.error("Error saving active workspace:", e);
+  }
+};
+
+// Storage key of a setting or session item in a workspace, the active one by default
+export const workspaceKey = (key: string, workspaceId: string = getActiveWorkspaceId()): string => {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `${key}::${workspaceId}`;
+};
+
+export const createWorkspace = (name: string): Workspace => {
+  const workspace: Workspace = {
+    id: `workspace-${Date.now()}`,
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+  };
+  saveWorkspaces([...getWorkspaces(), workspace]);
+  return workspace;
+};
+
+export const renameWorkspace = (id: string, name: string): void => {
+  saveWorkspaces(getWorkspaces().map(workspace => (workspace.id === id ? { ...workspace, name: name.trim() } : workspace)));
+};
+
+// A workspace's settings as saved, keyed by their unscoped storage key
+export const readWorkspaceSettings = (id: string): Record<string, string> => {
+  const settings: Record<string, string> = {};
+  WORKSPACE_SETTING_KEYS.forEach(key => {
+    try {
+      const saved = secureStorage.getItem(workspaceKey(key, id));
+      if (saved !== null) settings[key] = saved;
+    } catch (e) {
+      console.error(`Error reading workspace setting ${key}:`, e);
+    }
+  });
+  return settings;
+};
+
+// Keys that are not workspace settings are ignored
+export const writeWorkspaceSettings = (id: string, settings: Record<string, string>): void => {
+  WORKSPACE_SETTING_KEYS.filter(key => typeof settings[key] === 'string').forEach(key => {
+    try {
+      secureStorage.setItem(workspaceKey(key, id), settings[key]);
+    } catch (e) {
+      console.error(`Error saving workspace setting ${key}:`, e);
+    }
+  });
+};
+
+// A workspace's saved session, keyed by their unscoped storage key
+export const readWorkspaceSession = async (id: string): Promise<Record<string, unknown>> => {
+  const entries = await Promise.all(Object.values(STORAGE_KEYS).map(async key => (
+    [key, await loadFromStorage(workspaceKey(key, id))] as const
+  )));
+  return Object.fromEntries(entries.filter(([, value]) => value !== null));
+};
+
+// Resolves to false when any item could not be saved
+export const writeWorkspaceSession = async (id: string, session: Record<string, unknown>): Promise<boolean> => {
+  const saved = await Promise.all(Object.values(STORAGE_KEYS)
+    .filter(key => session[key] !== undefined && session[key] !== null)
+    .map(key => saveToStorage(workspaceKey(key, id), session[key])));
+  return saved.every(Boolean);
+};
+
+// A name no other workspace uses, numbering copies if needed
+export const getUniqueWorkspaceName = (name: string): string => {
+  const taken = new Set(getWorkspaces().map(workspace => workspace.name.toLowerCase()));
+  let candidate = name.trim();
+  for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+    candidate = `${name.trim()} (${copy})`;
+  }
+  return candidate;
+};
+
+// New workspace with a copy of another's settings and saved session
+export const duplicateWorkspace = async (id: string, name: string): Promise<Workspace> => {
+  const copy = createWorkspace(name);
+  writeWorkspaceSettings(copy.id, readWorkspaceSettings(id));
+  await writeWorkspaceSession(copy.id, await readWorkspaceSession(id));
+  return copy;
+};
+
+// Remove a workspace and everything saved in it; the last workspace cannot be deleted
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const workspaces = getWorkspaces();
+  if (workspaces.length <= 1) return;
+
+  saveWorkspaces(workspaces.filter(workspace => workspace.id !== id));
+  WORKSPACE_SETTING_KEYS.forEach(key => {
+    try {
+      secureStorage.removeItem(workspaceKey(key, id));
+    } catch (e) {
+      console.error(`Error removing workspace setting ${key}:`, e);
+    }
+  });
+  await clearStorage(Object.values(STORAGE_KEYS).map(key => workspaceKey(key, id)));
+};
@@ -0,0 +1,30 @@
+/**
+ * Runs processData off the main thread. Progress updates are forwarded
+ * whenever the whole-percent value changes.
+ */
+import { processData } from '@/utils/dataProcessor';
+import type { ProcessingWorkerRequest, ProcessingWorkerMessage } from '@/utils/processingWorkerClient';
+
+const post = (message: ProcessingWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.addEventListener('message', async (event: MessageEvent<ProcessingWorkerRequest>) => {
+  const { newData, bookingsData, salesData, options } = event.data;
+  let lastProgress = -1;
+  let lastStep = '';
+
+  try {
+    const result = await processData(newData, bookingsData, salesData, (progress) => {
+      const rounded = Math.floor(progress.progress);
+      if (rounded === lastProgress && progress.currentStep === lastStep) return;
+      lastProgress = rounded;
+      lastStep = progress.currentStep;
+      post({ type: 'progress', progress });
+    }, options);
+
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});